@@ -2,125 +2,14 @@
 pragma solidity ^0.8.24;
 
 import {FHE, euint128, externalEuint128, ebool} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ShadowLedgerBase} from "./ShadowLedgerBase.sol";
 
-contract ShadowLedger is ZamaEthereumConfig {
-    enum RecordType {
-        Income,
-        Expense
-    }
-
-    struct Record {
-        uint256 id;
-        RecordType recordType;
-        euint128 amount;
-        uint256 departmentId;
-        uint256 projectId;
-        string description;
-        uint256 timestamp;
-        address creator;
-        bool exists;
-    }
-
-    struct Department {
-        uint256 id;
-        string name;
-        address[] members;
-        address admin;
-        uint256 createdAt;
-        bool exists;
-    }
-
-    struct Calculation {
-        uint256 id;
-        RecordType calculationType;
-        euint128 result;
-        uint256[] departmentIds;
-        uint256[] projectIds;
-        uint256 timestamp;
-        bool exists;
-    }
-    
-    uint256 private _recordCounter;
-    uint256 private _departmentCounter;
-    uint256 private _calculationCounter;
-    
-    mapping(uint256 => Record) private _records;
-    mapping(uint256 => Department) private _departments;
-    mapping(uint256 => Calculation) private _calculations;
-    mapping(address => uint256[]) private _userDepartments;
-    mapping(uint256 => address) private _departmentAdmins;
-    mapping(address => bool) private _auditors;
-    address private _systemAdmin;
-    
-    event RecordCreated(
-        uint256 indexed recordId,
-        RecordType indexed recordType,
-        uint256 indexed departmentId,
-        address creator
-    );
-    
-    event DepartmentCreated(
-        uint256 indexed departmentId,
-        string name,
-        address admin
-    );
-    
-    event MemberAdded(
-        uint256 indexed departmentId,
-        address member
-    );
-    
-    event MemberRemoved(
-        uint256 indexed departmentId,
-        address member
-    );
+contract ShadowLedger is ShadowLedgerBase {
+    address private immutable _extension;
     
-    event AuditorAdded(address indexed auditor);
-    event AuditorRemoved(address indexed auditor);
-    
-    event CalculationPerformed(
-        uint256 indexed calculationId,
-        RecordType calculationType
-    );
-    
-    modifier onlySystemAdmin() {
-        require(msg.sender == _systemAdmin, "ShadowLedger: only system admin");
-        _;
-    }
-    
-    modifier onlyDepartmentAdmin(uint256 departmentId) {
-        require(
-            _departmentAdmins[departmentId] == msg.sender,
-            "ShadowLedger: only department admin"
-        );
-        _;
-    }
-    
-    modifier onlyDepartmentMember(uint256 departmentId) {
-        require(
-            _isDepartmentMember(msg.sender, departmentId),
-            "ShadowLedger: only department member"
-        );
-        _;
-    }
-    
-    modifier onlyAuditor() {
-        require(_auditors[msg.sender], "ShadowLedger: only auditor");
-        _;
-    }
-    
-    modifier validDepartment(uint256 departmentId) {
-        require(_departments[departmentId].exists, "ShadowLedger: invalid department");
-        _;
-    }
-    
-    modifier validRecord(uint256 recordId) {
-        require(_records[recordId].exists, "ShadowLedger: invalid record");
-        _;
-    }
-    
-    constructor() {
+    constructor(address extension) {
+        require(extension != address(0), "ShadowLedger: invalid extension");
+        _extension = extension;
         _systemAdmin = msg.sender;
         _departmentCounter = 1;
         _departments[1] = Department({
@@ -128,16 +17,40 @@ contract ShadowLedger is ZamaEthereumConfig {
             name: "System",
             members: new address[](0),
             admin: msg.sender,
+            archived: false,
             createdAt: block.timestamp,
             exists: true
         });
         _departmentAdmins[1] = msg.sender;
     }
     
+    // Administration, registry, budgeting and approval functions live in
+    // ShadowLedgerExtension, and audit engagements and fiscal periods one hop
+    // further in ShadowLedgerAudit, as they would not fit in this contract. Calls to them
+    // are delegated so they run against this contract's storage and FHE
+    // permissions.
+    fallback() external {
+        address extension = _extension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), extension, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+    
+    // In multi-admin mode only the confirming call that reaches the threshold
+    // creates the department; earlier confirmations return 0
     function createDepartment(
         string memory name,
         address admin
-    ) external onlySystemAdmin returns (uint256) {
+    ) external onlyAdminQuorum returns (uint256) {
         require(bytes(name).length > 0, "ShadowLedger: empty name");
         require(admin != address(0), "ShadowLedger: invalid admin");
         
@@ -152,6 +65,7 @@ contract ShadowLedger is ZamaEthereumConfig {
             name: name,
             members: members,
             admin: admin,
+            archived: false,
             createdAt: block.timestamp,
             exists: true
         });
@@ -210,9 +124,47 @@ contract ShadowLedger is ZamaEthereumConfig {
             }
         }
         
+        // Leaving the department also ends any roles held in it
+        if (_departmentRoles[departmentId][member] != 0) {
+            delete _departmentRoles[departmentId][member];
+            emit DepartmentRolesSet(departmentId, member, 0);
+        }
+        
         emit MemberRemoved(departmentId, member);
     }
     
+    // Replaces the account's roles in the department. Members left with no
+    // roles fall back to bookkeeper and viewer; for anyone else 0 revokes all.
+    function setDepartmentRoles(
+        uint256 departmentId,
+        address account,
+        uint8 roles
+    ) external onlyDepartmentAdmin(departmentId) {
+        require(account != address(0), "ShadowLedger: invalid account");
+        require(roles <= ALL_ROLES, "ShadowLedger: invalid roles");
+        
+        _departmentRoles[departmentId][account] = roles;
+        if (!_isRoleHolder[departmentId][account]) {
+            _isRoleHolder[departmentId][account] = true;
+            _roleHolders[departmentId].push(account);
+        }
+        
+        emit DepartmentRolesSet(departmentId, account, roles);
+    }
+    
+    // Assigned roles only, without the member default
+    function getDepartmentRoles(uint256 departmentId, address account) external view returns (uint8) {
+        return _departmentRoles[departmentId][account];
+    }
+    
+    function hasDepartmentRole(uint256 departmentId, address account, uint8 role) external view returns (bool) {
+        return _hasDepartmentRole(account, departmentId, role);
+    }
+    
+    function getRoleHolders(uint256 departmentId) external view returns (address[] memory) {
+        return _roleHolders[departmentId];
+    }
+    
     function getDepartment(
         uint256 departmentId
     ) external view validDepartment(departmentId) returns (
@@ -220,7 +172,8 @@ contract ShadowLedger is ZamaEthereumConfig {
         string memory name,
         address[] memory members,
         address admin,
-        uint256 createdAt
+        uint256 createdAt,
+        bool archived
     ) {
         Department memory dept = _departments[departmentId];
         return (
@@ -228,7 +181,8 @@ contract ShadowLedger is ZamaEthereumConfig {
             dept.name,
             dept.members,
             dept.admin,
-            dept.createdAt
+            dept.createdAt,
+            dept.archived
         );
     }
     
@@ -244,36 +198,120 @@ contract ShadowLedger is ZamaEthereumConfig {
         bytes calldata inputProof,
         uint256 departmentId,
         uint256 projectId,
+        uint256 categoryId,
+        string memory description
+    ) external onlyDepartmentRole(departmentId, ROLE_BOOKKEEPER) validDepartment(departmentId) returns (uint256) {
+        euint128 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        
+        return _createRecord(
+            RecordEntry(recordType, departmentId, projectId, categoryId, description),
+            amount
+        );
+    }
+    
+    // Books many records whose amounts were encrypted together and share one
+    // input proof, so a batch costs a single signature and transaction.
+    function createRecords(
+        RecordEntry[] calldata entries,
+        externalEuint128[] calldata encryptedAmounts,
+        bytes calldata inputProof
+    ) external returns (uint256[] memory recordIds) {
+        require(entries.length > 0, "ShadowLedger: empty batch");
+        require(entries.length == encryptedAmounts.length, "ShadowLedger: length mismatch");
+        
+        recordIds = new uint256[](entries.length);
+        for (uint256 i = 0; i < entries.length; i++) {
+            _checkDepartmentRole(entries[i].departmentId, ROLE_BOOKKEEPER);
+            euint128 amount = FHE.fromExternal(encryptedAmounts[i], inputProof);
+            recordIds[i] = _createRecord(entries[i], amount);
+        }
+    }
+    
+    // Books one encrypted amount as an expense of the source department and
+    // income of the destination, linked by a transfer id. Under an approval
+    // policy the expense leg is submitted like any expense, and the income
+    // leg only counts what the expense leg books.
+    function transfer(
+        uint256 fromDepartmentId,
+        uint256 toDepartmentId,
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof,
         string memory description
-    ) external onlyDepartmentMember(departmentId) validDepartment(departmentId) returns (uint256) {
+    ) external validDepartment(toDepartmentId) returns (uint256) {
+        // Checked in the body; as a modifier it leaves too little stack
+        _checkDepartmentRole(fromDepartmentId, ROLE_BOOKKEEPER);
+        require(fromDepartmentId != toDepartmentId, "ShadowLedger: same department");
         require(bytes(description).length > 0, "ShadowLedger: empty description");
         
         euint128 amount = FHE.fromExternal(encryptedAmount, inputProof);
         
-        _recordCounter++;
-        uint256 recordId = _recordCounter;
+        _transferCounter++;
+        Transfer storage booked = _transfers[_transferCounter];
+        booked.id = _transferCounter;
+        booked.fromDepartmentId = fromDepartmentId;
+        booked.toDepartmentId = toDepartmentId;
+        booked.exists = true;
         
-        _records[recordId] = Record({
-            id: recordId,
-            recordType: recordType,
-            amount: amount,
-            departmentId: departmentId,
-            projectId: projectId,
-            description: description,
-            timestamp: block.timestamp,
-            creator: msg.sender,
-            exists: true
-        });
+        booked.expenseRecordId = _appendTransferLeg(booked, RecordType.Expense, amount, fromDepartmentId, description);
+        booked.incomeRecordId = _appendTransferLeg(booked, RecordType.Income, amount, toDepartmentId, description);
+        _accumulateTransfer(booked);
         
-        FHE.allowThis(amount);
-        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, _departmentAdmins[fromDepartmentId]);
+        FHE.allow(amount, _departmentAdmins[toDepartmentId]);
         
-        if (_departmentAdmins[departmentId] == msg.sender) {
-            FHE.allow(amount, msg.sender);
-        }
+        emit TransferBooked(booked.id, fromDepartmentId, toDepartmentId, booked.expenseRecordId, booked.incomeRecordId);
+        return booked.id;
+    }
+    
+    function getTransfer(
+        uint256 transferId
+    ) external view returns (
+        uint256 fromDepartmentId,
+        uint256 toDepartmentId,
+        uint256 expenseRecordId,
+        uint256 incomeRecordId
+    ) {
+        Transfer memory booked = _transfers[transferId];
+        require(booked.exists, "ShadowLedger: invalid transfer");
+        require(
+            _canReadRecord(_records[booked.expenseRecordId]) || _canReadRecord(_records[booked.incomeRecordId]),
+            "ShadowLedger: access denied"
+        );
         
-        emit RecordCreated(recordId, recordType, departmentId, msg.sender);
-        return recordId;
+        return (booked.fromDepartmentId, booked.toDepartmentId, booked.expenseRecordId, booked.incomeRecordId);
+    }
+    
+    function amendRecord(
+        uint256 recordId,
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof,
+        string memory description
+    ) external validRecord(recordId) returns (uint256) {
+        require(bytes(description).length > 0, "ShadowLedger: empty description");
+        Record storage target = _requireCorrectable(recordId);
+        // An amendment would otherwise raise an expense past the approval threshold unreviewed
+        require(
+            target.recordType == RecordType.Income ||
+                !_approvalPolicies[target.departmentId].exists ||
+                _departmentAdmins[target.departmentId] == msg.sender,
+            "ShadowLedger: only department admin can amend"
+        );
+        
+        euint128 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        
+        return _appendCorrection(target, amount, description, EntryKind.Amendment);
+    }
+    
+    function reverseRecord(
+        uint256 recordId,
+        string memory description
+    ) external validRecord(recordId) returns (uint256) {
+        require(bytes(description).length > 0, "ShadowLedger: empty description");
+        Record storage target = _requireCorrectable(recordId);
+        
+        // A reversal carries the amount of the entry it cancels; calculations
+        // subtract it, so the chain nets to zero.
+        return _appendCorrection(target, target.amount, description, EntryKind.Reversal);
     }
     
     function getRecord(
@@ -286,15 +324,13 @@ contract ShadowLedger is ZamaEthereumConfig {
         uint256 projectId,
         string memory description,
         uint256 timestamp,
-        address creator
+        address creator,
+        uint256 categoryId,
+        uint256 transferId
     ) {
+        require(_canReadRecord(_records[recordId]), "ShadowLedger: access denied");
         Record memory record = _records[recordId];
         
-        require(
-            _isDepartmentMember(msg.sender, record.departmentId) || _auditors[msg.sender],
-            "ShadowLedger: access denied"
-        );
-        
         return (
             record.id,
             record.recordType,
@@ -303,233 +339,630 @@ contract ShadowLedger is ZamaEthereumConfig {
             record.projectId,
             record.description,
             record.timestamp,
-            record.creator
+            record.creator,
+            record.categoryId,
+            record.transferId
         );
     }
     
-    function getDepartmentRecords(
-        uint256 departmentId,
-        uint256 offset,
-        uint256 limit
-    ) external view onlyDepartmentMember(departmentId) validDepartment(departmentId) returns (uint256[] memory) {
-        uint256[] memory recordIds = new uint256[](limit);
-        uint256 count = 0;
-        uint256 skipped = 0;
-        
-        for (uint256 i = 1; i <= _recordCounter && count < limit; i++) {
-            if (_records[i].exists && _records[i].departmentId == departmentId) {
-                if (skipped < offset) {
-                    skipped++;
-                    continue;
-                }
-                recordIds[count] = i;
-                count++;
-            }
+    function getRecordCorrection(
+        uint256 recordId
+    ) external view validRecord(recordId) returns (
+        EntryKind kind,
+        uint256 correctsRecordId,
+        uint256 correctedByRecordId
+    ) {
+        Record storage record = _records[recordId];
+        
+        require(_canReadRecord(record), "ShadowLedger: access denied");
+        
+        return (record.kind, record.correctsRecordId, record.correctedByRecordId);
+    }
+    
+    function getCorrectionChain(
+        uint256 recordId
+    ) external view validRecord(recordId) returns (uint256[] memory) {
+        require(_canReadRecord(_records[recordId]), "ShadowLedger: access denied");
+        
+        uint256 originalId = recordId;
+        while (_records[originalId].correctsRecordId != 0) {
+            originalId = _records[originalId].correctsRecordId;
         }
         
-        uint256[] memory result = new uint256[](count);
-        for (uint256 i = 0; i < count; i++) {
-            result[i] = recordIds[i];
+        uint256 length = 1;
+        for (uint256 id = _records[originalId].correctedByRecordId; id != 0; id = _records[id].correctedByRecordId) {
+            length++;
         }
         
-        return result;
+        uint256[] memory chain = new uint256[](length);
+        uint256 current = originalId;
+        for (uint256 i = 0; i < length; i++) {
+            chain[i] = current;
+            current = _records[current].correctedByRecordId;
+        }
+        
+        return chain;
+    }
+    
+    function getDepartmentRecords(
+        uint256 departmentId,
+        uint256 offset,
+        uint256 limit
+    ) external view onlyDepartmentRole(departmentId, ROLE_VIEWER) validDepartment(departmentId) returns (
+        uint256[] memory
+    ) {
+        return _slice(_departmentRecordIds[departmentId], offset, limit);
     }
     
+    // Pages through the whole ledger, keeping only records the auditor's live
+    // engagements cover, so a page may come back shorter than limit
     function getAllRecords(
         uint256 offset,
         uint256 limit
     ) external view onlyAuditor returns (uint256[] memory) {
-        uint256[] memory recordIds = new uint256[](limit);
-        uint256 count = 0;
-        uint256 skipped = 0;
-        
-        for (uint256 i = 1; i <= _recordCounter && count < limit; i++) {
-            if (_records[i].exists) {
-                if (skipped < offset) {
-                    skipped++;
-                    continue;
-                }
-                recordIds[count] = i;
-                count++;
-            }
+        // Record ids are sequential and records are never removed
+        if (offset >= _recordCounter) {
+            return new uint256[](0);
+        }
+        
+        uint256 count = _recordCounter - offset;
+        if (count > limit) {
+            count = limit;
         }
         
         uint256[] memory result = new uint256[](count);
         for (uint256 i = 0; i < count; i++) {
-            result[i] = recordIds[i];
+            result[i] = offset + i + 1;
         }
         
-        return result;
+        return _auditedRecords(result);
     }
     
     function calculateTotalIncome(
         uint256[] memory departmentIds,
-        uint256 projectId
+        uint256 projectId,
+        uint256 categoryId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        bool eliminateTransfers
     ) external returns (euint128) {
-        euint128 total = FHE.asEuint128(0);
-        
-        for (uint256 i = 0; i < departmentIds.length; i++) {
-            uint256 deptId = departmentIds[i];
-            require(_departments[deptId].exists, "ShadowLedger: invalid department");
-        }
-        
-        for (uint256 j = 1; j <= _recordCounter; j++) {
-            if (_records[j].exists) {
-                Record memory record = _records[j];
-                
-                bool matchesDept = false;
-                for (uint256 k = 0; k < departmentIds.length; k++) {
-                    if (record.departmentId == departmentIds[k]) {
-                        matchesDept = true;
-                        break;
-                    }
-                }
-                bool matchesProject = projectId == 0 || record.projectId == projectId;
-                bool isIncome = record.recordType == RecordType.Income;
-                
-                if (matchesDept && matchesProject && isIncome) {
-                    total = FHE.add(total, record.amount);
-                }
-            }
-        }
+        address reader;
+        (reader, fromTimestamp, toTimestamp) = _calculationAccess(departmentIds, fromTimestamp, toTimestamp);
+        euint128 total = _calculateTotal(
+            RecordType.Income,
+            departmentIds,
+            projectId,
+            categoryId,
+            fromTimestamp,
+            toTimestamp,
+            eliminateTransfers
+        );
         
         FHE.allowThis(total);
-        FHE.allow(total, msg.sender);
+        FHE.allow(total, reader);
+        
+        Calculation storage calculation = _storeCalculation(
+            CalculationType.TotalIncome,
+            departmentIds,
+            projectId,
+            categoryId,
+            fromTimestamp,
+            toTimestamp,
+            eliminateTransfers
+        );
+        calculation.result = total;
         
+        _emitCalculationPerformed(calculation);
         return total;
     }
     
     function calculateTotalExpense(
         uint256[] memory departmentIds,
-        uint256 projectId
+        uint256 projectId,
+        uint256 categoryId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        bool eliminateTransfers
     ) external returns (euint128) {
-        euint128 total = FHE.asEuint128(0);
-        
-        for (uint256 i = 0; i < departmentIds.length; i++) {
-            uint256 deptId = departmentIds[i];
-            require(_departments[deptId].exists, "ShadowLedger: invalid department");
-        }
-        
-        for (uint256 j = 1; j <= _recordCounter; j++) {
-            if (_records[j].exists) {
-                Record memory record = _records[j];
-                
-                bool matchesDept = false;
-                for (uint256 k = 0; k < departmentIds.length; k++) {
-                    if (record.departmentId == departmentIds[k]) {
-                        matchesDept = true;
-                        break;
-                    }
-                }
-                bool matchesProject = projectId == 0 || record.projectId == projectId;
-                bool isExpense = record.recordType == RecordType.Expense;
-                
-                if (matchesDept && matchesProject && isExpense) {
-                    total = FHE.add(total, record.amount);
-                }
-            }
-        }
+        address reader;
+        (reader, fromTimestamp, toTimestamp) = _calculationAccess(departmentIds, fromTimestamp, toTimestamp);
+        euint128 total = _calculateTotal(
+            RecordType.Expense,
+            departmentIds,
+            projectId,
+            categoryId,
+            fromTimestamp,
+            toTimestamp,
+            eliminateTransfers
+        );
         
         FHE.allowThis(total);
-        FHE.allow(total, msg.sender);
+        FHE.allow(total, reader);
+        
+        Calculation storage calculation = _storeCalculation(
+            CalculationType.TotalExpense,
+            departmentIds,
+            projectId,
+            categoryId,
+            fromTimestamp,
+            toTimestamp,
+            eliminateTransfers
+        );
+        calculation.result = total;
         
+        _emitCalculationPerformed(calculation);
         return total;
     }
     
     function calculateNetIncome(
         uint256[] memory departmentIds,
-        uint256 projectId
-    ) external returns (euint128) {
-        euint128 totalIncome = this.calculateTotalIncome(departmentIds, projectId);
-        euint128 totalExpense = this.calculateTotalExpense(departmentIds, projectId);
+        uint256 projectId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) external returns (euint128 magnitude, ebool nonNegative) {
+        address reader;
+        (reader, fromTimestamp, toTimestamp) = _calculationAccess(departmentIds, fromTimestamp, toTimestamp);
+        euint128 totalIncome = _calculateTotal(
+            RecordType.Income,
+            departmentIds,
+            projectId,
+            0,
+            fromTimestamp,
+            toTimestamp,
+            false
+        );
+        euint128 totalExpense = _calculateTotal(
+            RecordType.Expense,
+            departmentIds,
+            projectId,
+            0,
+            fromTimestamp,
+            toTimestamp,
+            false
+        );
         
-        euint128 netIncome = FHE.sub(totalIncome, totalExpense);
+        // A loss is returned as its magnitude with the sign cleared, instead of
+        // wrapping around to a huge unsigned value
+        nonNegative = FHE.ge(totalIncome, totalExpense);
+        magnitude = FHE.select(
+            nonNegative,
+            FHE.sub(totalIncome, totalExpense),
+            FHE.sub(totalExpense, totalIncome)
+        );
         
-        FHE.allowThis(netIncome);
-        FHE.allow(netIncome, msg.sender);
+        FHE.allowThis(magnitude);
+        FHE.allowThis(nonNegative);
+        FHE.allow(magnitude, reader);
+        FHE.allow(nonNegative, reader);
+        
+        Calculation storage calculation = _storeCalculation(
+            CalculationType.NetIncome,
+            departmentIds,
+            projectId,
+            0,
+            fromTimestamp,
+            toTimestamp,
+            false
+        );
+        calculation.result = magnitude;
+        calculation.nonNegative = nonNegative;
         
-        return netIncome;
+        _emitCalculationPerformed(calculation);
     }
     
-    function saveCalculation(
-        RecordType calculationType,
-        externalEuint128 encryptedResult,
-        bytes calldata inputProof,
-        uint256[] memory departmentIds,
-        uint256[] memory projectIds,
-        string memory description
-    ) external returns (uint256) {
-        euint128 result = FHE.fromExternal(encryptedResult, inputProof);
+    function addAuditor(address auditor) external onlyAdminQuorum {
+        require(auditor != address(0), "ShadowLedger: invalid auditor");
+        require(!_auditors[auditor], "ShadowLedger: already auditor");
         
-        _calculationCounter++;
-        uint256 calculationId = _calculationCounter;
-        
-        _calculations[calculationId] = Calculation({
-            id: calculationId,
-            calculationType: calculationType,
-            result: result,
-            departmentIds: departmentIds,
-            projectIds: projectIds,
+        _auditors[auditor] = true;
+        
+        emit AuditorAdded(auditor);
+    }
+    
+    function removeAuditor(address auditor) external onlyAdminQuorum {
+        require(_auditors[auditor], "ShadowLedger: not an auditor");
+        
+        _auditors[auditor] = false;
+        
+        emit AuditorRemoved(auditor);
+    }
+    
+    function isAuditor(address auditor) external view returns (bool) {
+        return _auditors[auditor];
+    }
+    
+    function _createRecord(RecordEntry memory entry, euint128 amount) private returns (uint256) {
+        require(bytes(entry.description).length > 0, "ShadowLedger: empty description");
+        if (entry.projectId != 0) {
+            _requireDepartmentProject(entry.departmentId, entry.projectId);
+            require(!_projects[entry.projectId].archived, "ShadowLedger: project archived");
+        }
+        _requireCategoryType(entry.categoryId, entry.recordType);
+        
+        uint256 recordId = _appendRecord(
+            entry.recordType,
+            amount,
+            entry.departmentId,
+            entry.projectId,
+            entry.categoryId,
+            entry.description,
+            EntryKind.Original,
+            0
+        );
+        
+        if (entry.recordType == RecordType.Expense && _approvalPolicies[entry.departmentId].exists) {
+            _submitForApproval(_records[recordId]);
+        } else {
+            _accumulateEntry(_records[recordId]);
+        }
+        
+        emit RecordCreated(recordId, entry.recordType, entry.departmentId, msg.sender);
+        return recordId;
+    }
+    
+    function _appendRecord(
+        RecordType recordType,
+        euint128 amount,
+        uint256 departmentId,
+        uint256 projectId,
+        uint256 categoryId,
+        string memory description,
+        EntryKind kind,
+        uint256 correctsRecordId
+    ) private returns (uint256) {
+        _requireOpenPeriod();
+        // Archived departments keep their history but take no new entries
+        require(!_departments[departmentId].archived, "ShadowLedger: department archived");
+        
+        _recordCounter++;
+        uint256 recordId = _recordCounter;
+        
+        _records[recordId] = Record({
+            id: recordId,
+            recordType: recordType,
+            amount: amount,
+            departmentId: departmentId,
+            projectId: projectId,
+            categoryId: categoryId,
+            description: description,
             timestamp: block.timestamp,
+            creator: msg.sender,
+            kind: kind,
+            correctsRecordId: correctsRecordId,
+            correctedByRecordId: 0,
+            transferId: 0,
             exists: true
         });
         
-        FHE.allowThis(result);
-        FHE.allow(result, msg.sender);
+        _departmentRecordIds[departmentId].push(recordId);
+        if (projectId != 0) {
+            _projectRecordIds[projectId].push(recordId);
+        }
+        _creatorRecordIds[msg.sender].push(recordId);
+        
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        
+        if (_departmentAdmins[departmentId] == msg.sender) {
+            FHE.allow(amount, msg.sender);
+        }
         
-        emit CalculationPerformed(calculationId, calculationType);
-        return calculationId;
+        return recordId;
     }
     
-    function addAuditor(address auditor) external onlySystemAdmin {
-        require(auditor != address(0), "ShadowLedger: invalid auditor");
-        require(!_auditors[auditor], "ShadowLedger: already auditor");
+    function _appendCorrection(
+        Record storage target,
+        euint128 amount,
+        string memory description,
+        EntryKind kind
+    ) private returns (uint256) {
+        uint256 correctionId = _appendRecord(
+            target.recordType,
+            amount,
+            target.departmentId,
+            target.projectId,
+            target.categoryId,
+            description,
+            kind,
+            target.id
+        );
+        target.correctedByRecordId = correctionId;
+        _accumulateEntry(_records[correctionId]);
         
-        _auditors[auditor] = true;
+        emit RecordCorrected(correctionId, target.id, kind, msg.sender);
+        return correctionId;
+    }
+    
+    function _appendTransferLeg(
+        Transfer storage booked,
+        RecordType recordType,
+        euint128 amount,
+        uint256 departmentId,
+        string memory description
+    ) private returns (uint256) {
+        uint256 recordId = _appendRecord(recordType, amount, departmentId, 0, 0, description, EntryKind.Original, 0);
+        _records[recordId].transferId = booked.id;
         
-        for (uint256 i = 1; i <= _recordCounter; i++) {
-            if (_records[i].exists) {
-                FHE.allow(_records[i].amount, auditor);
-            }
+        emit RecordCreated(recordId, recordType, departmentId, msg.sender);
+        return recordId;
+    }
+    
+    // The income leg and the transfer total follow what the expense leg
+    // books; approving or rejecting it settles the rest
+    function _accumulateTransfer(Transfer storage booked) private {
+        Record storage expense = _records[booked.expenseRecordId];
+        euint128 credit = expense.amount;
+        if (_approvalPolicies[booked.fromDepartmentId].exists) {
+            _submitForApproval(expense);
+            credit = _approvals[expense.id].bookedAmount;
+        } else {
+            _accumulateEntry(expense);
         }
         
-        emit AuditorAdded(auditor);
+        euint128 none;
+        _accumulate(_records[booked.incomeRecordId], credit, none);
+        _pushCheckpoint(_transferCheckpoints[booked.fromDepartmentId][booked.toDepartmentId], credit, none);
     }
     
-    function removeAuditor(address auditor) external onlySystemAdmin {
-        require(_auditors[auditor], "ShadowLedger: not an auditor");
+    function _requireCorrectable(uint256 recordId) private view returns (Record storage) {
+        Record storage target = _records[recordId];
         
-        _auditors[auditor] = false;
+        // A creator whose bookkeeper role was taken away can no longer correct
+        require(
+            (target.creator == msg.sender && _hasDepartmentRole(msg.sender, target.departmentId, ROLE_BOOKKEEPER)) ||
+                _departmentAdmins[target.departmentId] == msg.sender,
+            "ShadowLedger: only creator or department admin"
+        );
+        require(target.kind != EntryKind.Reversal, "ShadowLedger: cannot correct reversal");
+        require(target.correctedByRecordId == 0, "ShadowLedger: record already corrected");
+        // Correcting one leg would unbalance the pair; book a transfer back instead
+        require(target.transferId == 0, "ShadowLedger: cannot correct transfer");
+        ApprovalStatus status = _approvals[recordId].status;
+        require(
+            status != ApprovalStatus.Pending && status != ApprovalStatus.Rejected,
+            "ShadowLedger: record not approved"
+        );
         
-        emit AuditorRemoved(auditor);
+        return target;
     }
     
-    function isAuditor(address auditor) external view returns (bool) {
-        return _auditors[auditor];
+    // Folds one ledger entry into the running totals. Originals add their
+    // amount, amendments replace the amount of the entry they correct and
+    // reversals cancel it. Intermediate values may wrap, the final sum does not.
+    function _accumulateEntry(Record storage record) private {
+        euint128 none;
+        if (record.kind == EntryKind.Reversal) {
+            _accumulate(record, none, record.amount);
+        } else if (record.kind == EntryKind.Amendment) {
+            _accumulate(record, record.amount, _records[record.correctsRecordId].amount);
+        } else {
+            _accumulate(record, record.amount, none);
+        }
     }
     
-    function _isDepartmentMember(
-        address user,
-        uint256 departmentId
-    ) private view returns (bool) {
-        if (!_departments[departmentId].exists) {
-            return false;
+    function _submitForApproval(Record storage record) private {
+        Approval storage approval = _approvals[record.id];
+        euint128 zero = FHE.asEuint128(0);
+        
+        // Every expense goes pending. The threshold result is made publicly
+        // decryptable so those under it can be settled as approved, which
+        // reveals to anyone whether an expense crossed the threshold.
+        approval.status = ApprovalStatus.Pending;
+        approval.required = FHE.gt(record.amount, _approvalPolicies[record.departmentId].threshold);
+        FHE.makePubliclyDecryptable(approval.required);
+        approval.bookedAmount = FHE.select(approval.required, zero, record.amount);
+        approval.heldAmount = FHE.select(approval.required, record.amount, zero);
+        
+        FHE.allowThis(approval.required);
+        FHE.allowThis(approval.bookedAmount);
+        FHE.allowThis(approval.heldAmount);
+        FHE.allow(approval.required, msg.sender);
+        
+        // Reviewers need the amount and the threshold result to decide
+        address[] storage approvers = _approvalPolicies[record.departmentId].approvers;
+        FHE.allow(record.amount, _departmentAdmins[record.departmentId]);
+        FHE.allow(approval.required, _departmentAdmins[record.departmentId]);
+        for (uint256 i = 0; i < approvers.length; i++) {
+            FHE.allow(record.amount, approvers[i]);
+            FHE.allow(approval.required, approvers[i]);
         }
         
-        if (_departments[departmentId].admin == user) {
-            return true;
+        euint128 none;
+        _accumulate(record, approval.bookedAmount, none);
+        emit RecordSubmitted(record.id, record.departmentId);
+    }
+    
+    function _calculateTotal(
+        RecordType recordType,
+        uint256[] memory departmentIds,
+        uint256 projectId,
+        uint256 categoryId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        bool eliminateTransfers
+    ) private returns (euint128 total) {
+        _requireCategoryType(categoryId, recordType);
+        total = _sumTotals(departmentIds, projectId, categoryId, recordType, fromTimestamp, toTimestamp);
+        // Transfers carry no project or category, so filtered totals never include them
+        if (eliminateTransfers && projectId == 0 && categoryId == 0) {
+            total = _eliminateTransfers(total, departmentIds, fromTimestamp, toTimestamp);
+        }
+    }
+    
+    // Every calculation is kept with its parameters; the caller fills in the
+    // result handles.
+    function _storeCalculation(
+        CalculationType calculationType,
+        uint256[] memory departmentIds,
+        uint256 projectId,
+        uint256 categoryId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        bool eliminateTransfers
+    ) private returns (Calculation storage calculation) {
+        _calculationCounter++;
+        calculation = _calculations[_calculationCounter];
+        calculation.id = _calculationCounter;
+        calculation.calculationType = calculationType;
+        calculation.departmentIds = departmentIds;
+        calculation.projectId = projectId;
+        calculation.categoryId = categoryId;
+        calculation.fromTimestamp = fromTimestamp;
+        calculation.toTimestamp = toTimestamp;
+        calculation.eliminateTransfers = eliminateTransfers;
+        calculation.requester = msg.sender;
+        calculation.timestamp = block.timestamp;
+        calculation.exists = true;
+        
+        _userCalculations[msg.sender].push(calculation.id);
+    }
+    
+    function _emitCalculationPerformed(Calculation storage calculation) private {
+        emit CalculationPerformed(
+            calculation.id,
+            calculation.requester,
+            calculation.calculationType,
+            calculation.result,
+            calculation.nonNegative,
+            calculation.departmentIds,
+            calculation.projectId,
+            calculation.categoryId,
+            calculation.fromTimestamp,
+            calculation.toTimestamp,
+            calculation.eliminateTransfers
+        );
+    }
+    
+    // Auditors may aggregate the departments of a live engagement over the
+    // part of the period inside its window, an open end taken as the
+    // window's, and only the audit relayer is granted the result. Everyone
+    // else needs the viewer or finance controller role in each department,
+    // and combining several takes a rollup grant or the finance controller
+    // role in all of them.
+    function _calculationAccess(
+        uint256[] memory departmentIds,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) private view returns (address reader, uint256, uint256) {
+        if (_auditors[msg.sender]) {
+            uint256[] storage engagementIds = _auditorEngagements[msg.sender];
+            for (uint256 i = 0; i < engagementIds.length; i++) {
+                AuditEngagement storage engagement = _auditEngagements[engagementIds[i]];
+                uint256 from = fromTimestamp > engagement.fromTimestamp ? fromTimestamp : engagement.fromTimestamp;
+                uint256 to = toTimestamp != 0 && toTimestamp < engagement.toTimestamp
+                    ? toTimestamp
+                    : engagement.toTimestamp;
+                if (from <= to && _engagementCovers(engagement, departmentIds, from, to)) {
+                    require(_auditRelayer != address(0), "ShadowLedger: no audit relayer");
+                    return (_auditRelayer, from, to);
+                }
+            }
         }
         
-        address[] memory members = _departments[departmentId].members;
-        for (uint256 i = 0; i < members.length; i++) {
-            if (members[i] == user) {
-                return true;
+        bool combined = false;
+        for (uint256 i = 0; i < departmentIds.length; i++) {
+            require(_departments[departmentIds[i]].exists, "ShadowLedger: invalid department");
+            _checkDepartmentRole(departmentIds[i], ROLE_VIEWER | ROLE_FINANCE_CONTROLLER);
+            combined = combined || departmentIds[i] != departmentIds[0];
+        }
+        if (combined) {
+            require(
+                _rollupGrants[msg.sender] || _isCrossDepartmentController(departmentIds),
+                "ShadowLedger: rollup not granted"
+            );
+        }
+        return (msg.sender, fromTimestamp, toTimestamp);
+    }
+    
+    function _isCrossDepartmentController(uint256[] memory departmentIds) private view returns (bool) {
+        for (uint256 i = 0; i < departmentIds.length; i++) {
+            if (!_hasDepartmentRole(msg.sender, departmentIds[i], ROLE_FINANCE_CONTROLLER)) {
+                return false;
+            }
+        }
+        return true;
+    }
+    
+    function _sumTotals(
+        uint256[] memory departmentIds,
+        uint256 projectId,
+        uint256 categoryId,
+        RecordType recordType,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) private returns (euint128) {
+        require(
+            toTimestamp == 0 || fromTimestamp <= toTimestamp,
+            "ShadowLedger: invalid period"
+        );
+        
+        euint128 total = FHE.asEuint128(0);
+        
+        for (uint256 i = 0; i < departmentIds.length; i++) {
+            uint256 deptId = departmentIds[i];
+            require(_departments[deptId].exists, "ShadowLedger: invalid department");
+            
+            // Each department is counted once, even if listed twice
+            if (_isListedBefore(departmentIds, i)) {
+                continue;
+            }
+            
+            TotalCheckpoint[] storage checkpoints = categoryId != 0
+                ? _categoryCheckpoints[deptId][projectId][categoryId]
+                : projectId == 0
+                    ? _departmentCheckpoints[deptId][recordType]
+                    : _projectCheckpoints[deptId][projectId][recordType];
+            total = FHE.add(total, _periodTotal(checkpoints, fromTimestamp, toTimestamp));
+        }
+        
+        return total;
+    }
+    
+    // Removes transfers whose source and destination are both in the set; on
+    // a consolidated view they are internal and cancel out.
+    function _eliminateTransfers(
+        euint128 total,
+        uint256[] memory departmentIds,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) private returns (euint128) {
+        for (uint256 i = 0; i < departmentIds.length; i++) {
+            if (_isListedBefore(departmentIds, i)) {
+                continue;
+            }
+            for (uint256 j = 0; j < departmentIds.length; j++) {
+                if (departmentIds[j] == departmentIds[i] || _isListedBefore(departmentIds, j)) {
+                    continue;
+                }
+                
+                TotalCheckpoint[] storage checkpoints = _transferCheckpoints[departmentIds[i]][departmentIds[j]];
+                if (checkpoints.length > 0) {
+                    total = FHE.sub(total, _periodTotal(checkpoints, fromTimestamp, toTimestamp));
+                }
             }
         }
         
+        return total;
+    }
+    
+    function _isListedBefore(uint256[] memory ids, uint256 index) private pure returns (bool) {
+        for (uint256 k = 0; k < index; k++) {
+            if (ids[k] == ids[index]) {
+                return true;
+            }
+        }
         return false;
     }
     
+    // Category 0 means uncategorized (or, in calculations, all categories)
+    function _requireCategoryType(uint256 categoryId, RecordType recordType) private view {
+        if (categoryId == 0) {
+            return;
+        }
+        require(_categories[categoryId].exists, "ShadowLedger: invalid category");
+        require(_categories[categoryId].recordType == recordType, "ShadowLedger: category type mismatch");
+    }
+    
     function getRecordCount() external view returns (uint256) {
         return _recordCounter;
     }
@@ -538,4 +971,3 @@ contract ShadowLedger is ZamaEthereumConfig {
         return _departmentCounter;
     }
 }
-
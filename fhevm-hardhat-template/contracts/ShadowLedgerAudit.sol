@@ -0,0 +1,411 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint128, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ShadowLedgerBase} from "./ShadowLedgerBase.sol";
+
+// Audit engagement, calculation history and fiscal period functions of the
+// ledger. Deployed once and reached through ShadowLedgerExtension's fallback,
+// so they too run against ShadowLedger's storage and FHE permissions.
+//
+// FHE decryption grants cannot be taken back, so auditors are never granted
+// record amounts, totals or budgets themselves; the audit relayer is, and
+// keeps those grants for good. It reads handles only through the views
+// below, which revert once the engagement ends, and re-encrypts the values
+// for the engagement auditor alone. An auditor's access ends with the
+// engagement as long as the relayer operator runs it that way, so the
+// relayer is trusted like an admin.
+contract ShadowLedgerAudit is ShadowLedgerBase {
+    // Registered auditors only read records and totals of the departments of
+    // an engagement, within its window, while it is live
+    function createAuditEngagement(
+        address auditor,
+        uint256[] calldata departmentIds,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        uint256 expiresAt
+    ) external onlyAdminQuorum returns (uint256) {
+        require(_auditors[auditor], "ShadowLedger: not an auditor");
+        require(departmentIds.length > 0, "ShadowLedger: no departments");
+        require(fromTimestamp <= toTimestamp, "ShadowLedger: invalid period");
+        require(expiresAt > block.timestamp, "ShadowLedger: invalid expiry");
+        
+        _auditEngagementCounter++;
+        uint256 engagementId = _auditEngagementCounter;
+        
+        AuditEngagement storage engagement = _auditEngagements[engagementId];
+        engagement.id = engagementId;
+        engagement.auditor = auditor;
+        engagement.fromTimestamp = fromTimestamp;
+        engagement.toTimestamp = toTimestamp;
+        engagement.expiresAt = expiresAt;
+        engagement.createdAt = block.timestamp;
+        for (uint256 i = 0; i < departmentIds.length; i++) {
+            require(_departments[departmentIds[i]].exists, "ShadowLedger: invalid department");
+            engagement.departmentIds.push(departmentIds[i]);
+            _engagementDepartments[engagementId][departmentIds[i]] = true;
+        }
+        _auditorEngagements[auditor].push(engagementId);
+        
+        emit AuditEngagementCreated(engagementId, auditor, departmentIds, fromTimestamp, toTimestamp, expiresAt);
+        return engagementId;
+    }
+    
+    function revokeAuditEngagement(uint256 engagementId) external onlyAdminQuorum {
+        AuditEngagement storage engagement = _auditEngagements[engagementId];
+        require(engagement.auditor != address(0), "ShadowLedger: invalid engagement");
+        require(!engagement.revoked, "ShadowLedger: engagement revoked");
+        
+        engagement.revoked = true;
+        
+        emit AuditEngagementRevoked(engagementId, engagement.auditor);
+    }
+    
+    // The engagement stays live until expiresAt unless it is revoked or its
+    // auditor is removed
+    function getAuditEngagement(uint256 engagementId) external view returns (AuditEngagement memory) {
+        require(
+            engagementId != 0 && engagementId <= _auditEngagementCounter,
+            "ShadowLedger: invalid engagement"
+        );
+        return _auditEngagements[engagementId];
+    }
+    
+    function getAuditEngagementCount() external view returns (uint256) {
+        return _auditEngagementCounter;
+    }
+    
+    function getAuditorEngagements(address auditor) external view returns (uint256[] memory) {
+        return _auditorEngagements[auditor];
+    }
+    
+    // Records, totals and budgets granted before a change stay granted to the
+    // previous relayer, so only hand over to an operator trusted the same way
+    function setAuditRelayer(address relayer) external onlyAdminQuorum {
+        require(relayer != address(0), "ShadowLedger: invalid relayer");
+        
+        _auditRelayer = relayer;
+        
+        emit AuditRelayerChanged(relayer);
+    }
+    
+    function getAuditRelayer() external view returns (address) {
+        return _auditRelayer;
+    }
+    
+    // Hands the given records of a live engagement to the audit relayer, a
+    // page at a time as the auditor reads, never ahead for the whole ledger
+    function openAuditRecords(uint256 engagementId, uint256[] calldata recordIds) external {
+        AuditEngagement storage engagement = _auditEngagements[engagementId];
+        require(engagement.auditor == msg.sender, "ShadowLedger: only engagement auditor");
+        require(_isEngagementActive(engagement), "ShadowLedger: engagement not active");
+        require(_auditRelayer != address(0), "ShadowLedger: no audit relayer");
+        
+        for (uint256 i = 0; i < recordIds.length; i++) {
+            Record storage record = _records[recordIds[i]];
+            require(
+                record.exists &&
+                    _engagementDepartments[engagementId][record.departmentId] &&
+                    record.timestamp >= engagement.fromTimestamp &&
+                    record.timestamp <= engagement.toTimestamp,
+                "ShadowLedger: record out of scope"
+            );
+            FHE.allow(record.amount, _auditRelayer);
+            _openedAuditRecords[engagementId][recordIds[i]] = true;
+        }
+        
+        emit AuditRecordsOpened(engagementId, msg.sender, recordIds.length);
+    }
+    
+    // The relayer checks this before every re-encryption for the engagement
+    // auditor, and refuses once it turns false
+    function isAuditRecordReadable(uint256 engagementId, uint256 recordId) public view returns (bool) {
+        return _openedAuditRecords[engagementId][recordId] && _isEngagementActive(_auditEngagements[engagementId]);
+    }
+    
+    // The relayer's only way to the amount handle, closed with the engagement
+    function getAuditRecordAmount(uint256 engagementId, uint256 recordId) external view returns (euint128) {
+        require(msg.sender == _auditRelayer, "ShadowLedger: only audit relayer");
+        require(isAuditRecordReadable(engagementId, recordId), "ShadowLedger: record not readable");
+        
+        return _records[recordId].amount;
+    }
+    
+    // The result handles of a calculation over the departments and inside
+    // the window of a live engagement, for the relayer only
+    function getAuditCalculation(
+        uint256 engagementId,
+        uint256 calculationId
+    ) external view returns (euint128 result, ebool nonNegative) {
+        require(msg.sender == _auditRelayer, "ShadowLedger: only audit relayer");
+        Calculation storage calculation = _calculations[calculationId];
+        require(
+            calculation.exists &&
+                _engagementCovers(
+                    _auditEngagements[engagementId],
+                    calculation.departmentIds,
+                    calculation.fromTimestamp,
+                    calculation.toTimestamp
+                ),
+            "ShadowLedger: calculation not readable"
+        );
+        
+        return (calculation.result, calculation.nonNegative);
+    }
+    
+    // Budget handles for the relayer, as of the last evaluation; spending is
+    // cumulative, so the engagement window has to run from the start up to it
+    function getAuditBudget(
+        uint256 engagementId,
+        uint256 departmentId,
+        uint256 projectId
+    ) external view returns (euint128 amount, euint128 spent, euint128 remaining, ebool overBudget) {
+        require(msg.sender == _auditRelayer, "ShadowLedger: only audit relayer");
+        Budget storage budget = _budgets[departmentId][projectId];
+        require(
+            budget.exists &&
+                _engagementCovers(_auditEngagements[engagementId], _single(departmentId), 0, budget.evaluatedAt),
+            "ShadowLedger: budget not readable"
+        );
+        
+        return (budget.amount, budget.spent, budget.remaining, budget.overBudget);
+    }
+    
+    function getCalculation(
+        uint256 calculationId
+    ) external view returns (
+        CalculationType calculationType,
+        euint128 result,
+        ebool nonNegative,
+        uint256[] memory departmentIds,
+        uint256 projectId,
+        uint256 categoryId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        bool eliminateTransfers,
+        address requester,
+        uint256 timestamp
+    ) {
+        Calculation storage calculation = _calculations[calculationId];
+        require(calculation.exists, "ShadowLedger: invalid calculation");
+        require(_canReadCalculation(calculation), "ShadowLedger: access denied");
+        
+        return (
+            calculation.calculationType,
+            calculation.result,
+            calculation.nonNegative,
+            calculation.departmentIds,
+            calculation.projectId,
+            calculation.categoryId,
+            calculation.fromTimestamp,
+            calculation.toTimestamp,
+            calculation.eliminateTransfers,
+            calculation.requester,
+            calculation.timestamp
+        );
+    }
+    
+    // Calculation ids run by requester, oldest first. Auditors only get those
+    // a live engagement of theirs covers, so a page may come back shorter
+    // than limit.
+    function listCalculations(
+        address requester,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory) {
+        uint256[] memory calculationIds = _slice(_userCalculations[requester], offset, limit);
+        if (requester == msg.sender) {
+            return calculationIds;
+        }
+        require(_auditors[msg.sender], "ShadowLedger: access denied");
+        
+        uint256 count = 0;
+        for (uint256 i = 0; i < calculationIds.length; i++) {
+            if (_canReadCalculation(_calculations[calculationIds[i]])) {
+                calculationIds[count] = calculationIds[i];
+                count++;
+            }
+        }
+        
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = calculationIds[i];
+        }
+        
+        return result;
+    }
+    
+    // Counts what listCalculations would return to the caller over all pages
+    function getCalculationCount(address requester) external view returns (uint256) {
+        uint256[] storage calculationIds = _userCalculations[requester];
+        if (requester == msg.sender) {
+            return calculationIds.length;
+        }
+        require(_auditors[msg.sender], "ShadowLedger: access denied");
+        
+        uint256 count = 0;
+        for (uint256 i = 0; i < calculationIds.length; i++) {
+            if (_canReadCalculation(_calculations[calculationIds[i]])) {
+                count++;
+            }
+        }
+        return count;
+    }
+    
+    // The requester, or an auditor with a live engagement covering all of
+    // the calculation's departments and its whole period
+    function _canReadCalculation(Calculation storage calculation) private view returns (bool) {
+        return
+            calculation.requester == msg.sender ||
+            _isAuditing(calculation.departmentIds, calculation.fromTimestamp, calculation.toTimestamp);
+    }
+    
+    function openFiscalPeriod(
+        uint256 startTimestamp,
+        uint256 endTimestamp
+    ) external onlySystemAdmin returns (uint256) {
+        require(startTimestamp <= endTimestamp, "ShadowLedger: invalid period");
+        
+        for (uint256 i = 1; i <= _fiscalPeriodCounter; i++) {
+            FiscalPeriod storage other = _fiscalPeriods[i];
+            require(
+                endTimestamp < other.startTimestamp || startTimestamp > other.endTimestamp,
+                "ShadowLedger: overlapping fiscal period"
+            );
+        }
+        
+        _fiscalPeriodCounter++;
+        uint256 periodId = _fiscalPeriodCounter;
+        
+        _fiscalPeriods[periodId] = FiscalPeriod({
+            id: periodId,
+            startTimestamp: startTimestamp,
+            endTimestamp: endTimestamp,
+            closed: false,
+            closedAt: 0,
+            closeCount: 0,
+            reopenReason: "",
+            exists: true
+        });
+        
+        emit FiscalPeriodOpened(periodId, startTimestamp, endTimestamp);
+        return periodId;
+    }
+    
+    // Freezes the period totals of every department under a new close
+    // number. A snapshot is never rewritten: reopening and closing again
+    // takes another one.
+    function closeFiscalPeriod(
+        uint256 periodId
+    ) external onlySystemAdmin validFiscalPeriod(periodId) {
+        FiscalPeriod storage period = _fiscalPeriods[periodId];
+        require(!period.closed, "ShadowLedger: period already closed");
+        require(period.startTimestamp <= block.timestamp, "ShadowLedger: period not started");
+        
+        period.closed = true;
+        period.closedAt = block.timestamp;
+        period.closeCount++;
+        if (period.endTimestamp > _closedThrough) {
+            _closedThrough = period.endTimestamp;
+        }
+        
+        for (uint256 departmentId = 1; departmentId <= _departmentCounter; departmentId++) {
+            _snapshotPeriodTotal(period, departmentId, RecordType.Income);
+            _snapshotPeriodTotal(period, departmentId, RecordType.Expense);
+        }
+        
+        emit FiscalPeriodClosed(periodId, period.closeCount);
+    }
+    
+    function reopenFiscalPeriod(
+        uint256 periodId,
+        string memory reason
+    ) external onlySystemAdmin validFiscalPeriod(periodId) {
+        require(bytes(reason).length > 0, "ShadowLedger: empty reason");
+        
+        FiscalPeriod storage period = _fiscalPeriods[periodId];
+        require(period.closed, "ShadowLedger: period not closed");
+        
+        period.closed = false;
+        period.reopenReason = reason;
+        
+        // Writes stay blocked up to the end of the latest period still closed
+        _closedThrough = 0;
+        for (uint256 i = 1; i <= _fiscalPeriodCounter; i++) {
+            if (_fiscalPeriods[i].closed && _fiscalPeriods[i].endTimestamp > _closedThrough) {
+                _closedThrough = _fiscalPeriods[i].endTimestamp;
+            }
+        }
+        
+        emit FiscalPeriodReopened(periodId, reason);
+    }
+    
+    function getFiscalPeriod(
+        uint256 periodId
+    ) external view validFiscalPeriod(periodId) returns (
+        uint256 id,
+        uint256 startTimestamp,
+        uint256 endTimestamp,
+        bool closed,
+        uint256 closedAt,
+        uint256 closeCount,
+        string memory reopenReason
+    ) {
+        FiscalPeriod memory period = _fiscalPeriods[periodId];
+        return (
+            period.id,
+            period.startTimestamp,
+            period.endTimestamp,
+            period.closed,
+            period.closedAt,
+            period.closeCount,
+            period.reopenReason
+        );
+    }
+    
+    function getFiscalPeriodCount() external view returns (uint256) {
+        return _fiscalPeriodCounter;
+    }
+    
+    // The totals frozen by the given close of the period, numbered from 1
+    function getPeriodSnapshot(
+        uint256 periodId,
+        uint256 closeNumber,
+        uint256 departmentId
+    ) external view validFiscalPeriod(periodId) validDepartment(departmentId) returns (
+        euint128 income,
+        euint128 expense
+    ) {
+        // Only they are granted the snapshot handles
+        require(
+            _departmentAdmins[departmentId] == msg.sender || msg.sender == _systemAdmin,
+            "ShadowLedger: only department admin or system admin"
+        );
+        mapping(RecordType => euint128) storage snapshot = _periodSnapshots[periodId][closeNumber][departmentId];
+        require(FHE.isInitialized(snapshot[RecordType.Income]), "ShadowLedger: no period snapshot");
+        
+        return (snapshot[RecordType.Income], snapshot[RecordType.Expense]);
+    }
+    
+    
+    function _snapshotPeriodTotal(
+        FiscalPeriod storage period,
+        uint256 departmentId,
+        RecordType recordType
+    ) private {
+        euint128 total = _periodTotal(
+            _departmentCheckpoints[departmentId][recordType],
+            period.startTimestamp,
+            period.endTimestamp
+        );
+        if (!FHE.isInitialized(total)) {
+            total = FHE.asEuint128(0);
+        }
+        
+        _periodSnapshots[period.id][period.closeCount][departmentId][recordType] = total;
+        
+        FHE.allowThis(total);
+        FHE.allow(total, _systemAdmin);
+        FHE.allow(total, _departmentAdmins[departmentId]);
+    }
+}
@@ -0,0 +1,920 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint128, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// State, events, access checks and the bookkeeping shared by ShadowLedger and
+// ShadowLedgerExtension. Both contracts inherit it so the extension, which
+// runs through delegatecall, sees the same storage layout.
+abstract contract ShadowLedgerBase is ZamaEthereumConfig {
+    enum RecordType {
+        Income,
+        Expense
+    }
+
+    enum EntryKind {
+        Original,
+        Amendment,
+        Reversal
+    }
+
+    enum CalculationType {
+        TotalIncome,
+        TotalExpense,
+        NetIncome
+    }
+    
+    // None: booked directly, without an approval policy
+    enum ApprovalStatus {
+        None,
+        Pending,
+        Approved,
+        Rejected
+    }
+
+    struct Record {
+        uint256 id;
+        RecordType recordType;
+        euint128 amount;
+        uint256 departmentId;
+        uint256 projectId;
+        uint256 categoryId;
+        string description;
+        uint256 timestamp;
+        address creator;
+        EntryKind kind;
+        uint256 correctsRecordId;
+        uint256 correctedByRecordId;
+        uint256 transferId;
+        bool exists;
+    }
+
+    struct Department {
+        uint256 id;
+        string name;
+        address[] members;
+        address admin;
+        bool archived;
+        uint256 createdAt;
+        bool exists;
+    }
+
+    struct Project {
+        uint256 id;
+        string name;
+        uint256 departmentId;
+        address manager;
+        bool archived;
+        uint256 createdAt;
+        bool exists;
+    }
+    
+    struct Category {
+        uint256 id;
+        string name;
+        uint256 parentId;
+        RecordType recordType;
+        bool exists;
+    }
+    
+    struct TotalCheckpoint {
+        uint256 timestamp;
+        euint128 total;
+    }
+
+    struct Budget {
+        euint128 amount;
+        euint128 spent;
+        euint128 remaining;
+        ebool overBudget;
+        uint256 evaluatedAt;
+        bool exists;
+    }
+
+    // closeCount numbers the closes; each one snapshots the period totals
+    struct FiscalPeriod {
+        uint256 id;
+        uint256 startTimestamp;
+        uint256 endTimestamp;
+        bool closed;
+        uint256 closedAt;
+        uint256 closeCount;
+        string reopenReason;
+        bool exists;
+    }
+
+    struct Transfer {
+        uint256 id;
+        uint256 fromDepartmentId;
+        uint256 toDepartmentId;
+        uint256 expenseRecordId;
+        uint256 incomeRecordId;
+        bool exists;
+    }
+
+    struct ApprovalPolicy {
+        euint128 threshold;
+        uint256 requiredApprovals;
+        address[] approvers;
+        bool exists;
+    }
+
+    // The threshold splits a submitted expense into the part booked right
+    // away and the part held until approval; one of the two is always zero.
+    struct Approval {
+        ApprovalStatus status;
+        ebool required;
+        euint128 bookedAmount;
+        euint128 heldAmount;
+        uint256 approvalCount;
+    }
+    
+    // A record as returned by the batch reader, with its approval state
+    struct RecordView {
+        Record record;
+        ApprovalStatus approvalStatus;
+        ebool approvalRequired;
+        uint256 approvalCount;
+    }
+
+    // Metadata for one line of a batch; the amount is passed alongside it
+    struct RecordEntry {
+        RecordType recordType;
+        uint256 departmentId;
+        uint256 projectId;
+        uint256 categoryId;
+        string description;
+    }
+
+    // A calculation as it was run, kept so its result can be looked up again
+    struct Calculation {
+        uint256 id;
+        CalculationType calculationType;
+        euint128 result;
+        // Net income only: whether the result is a profit rather than a loss
+        ebool nonNegative;
+        uint256[] departmentIds;
+        uint256 projectId;
+        uint256 categoryId;
+        uint256 fromTimestamp;
+        uint256 toTimestamp;
+        bool eliminateTransfers;
+        address requester;
+        uint256 timestamp;
+        bool exists;
+    }
+    
+    // A sensitive admin call waiting for confirmations in multi-admin mode.
+    // data is the exact calldata every confirming admin has to send again.
+    struct AdminAction {
+        uint256 id;
+        bytes data;
+        address proposer;
+        uint256 confirmations;
+        uint256 epoch;
+        uint256 createdAt;
+        bool executed;
+    }
+    
+    // A registered auditor's access to the records some departments booked
+    // within a time window. It ends at expiresAt, on revocation, or when the
+    // auditor is removed.
+    struct AuditEngagement {
+        uint256 id;
+        address auditor;
+        uint256[] departmentIds;
+        uint256 fromTimestamp;
+        uint256 toTimestamp;
+        uint256 expiresAt;
+        bool revoked;
+        uint256 createdAt;
+    }
+    
+    uint256 internal constant MAX_CATEGORY_DEPTH = 4;
+    
+    // Department roles, as bit flags. The department admin and members with
+    // no roles assigned are bookkeepers and viewers; finance controllers are
+    // only ever assigned.
+    uint8 internal constant ROLE_BOOKKEEPER = 1; // books and corrects records
+    uint8 internal constant ROLE_VIEWER = 2; // reads records, calculates department totals
+    uint8 internal constant ROLE_FINANCE_CONTROLLER = 4; // calculates totals, across departments too
+    uint8 internal constant ALL_ROLES = 7;
+    
+    uint256 internal _recordCounter;
+    uint256 internal _departmentCounter;
+    uint256 internal _calculationCounter;
+    uint256 internal _fiscalPeriodCounter;
+    uint256 internal _categoryCounter;
+    uint256 internal _projectCounter;
+    uint256 internal _transferCounter;
+    
+    mapping(uint256 => Record) internal _records;
+    // Record ids by department, project and creator, so pages are read
+    // without scanning the whole ledger
+    mapping(uint256 => uint256[]) internal _departmentRecordIds;
+    mapping(uint256 => uint256[]) internal _projectRecordIds;
+    mapping(address => uint256[]) internal _creatorRecordIds;
+    mapping(uint256 => Department) internal _departments;
+    mapping(uint256 => Category) internal _categories;
+    mapping(uint256 => Project) internal _projects;
+    mapping(uint256 => Transfer) internal _transfers;
+    mapping(uint256 => Calculation) internal _calculations;
+    mapping(address => uint256[]) internal _userCalculations;
+    mapping(address => uint256[]) internal _userDepartments;
+    mapping(uint256 => address) internal _departmentAdmins;
+    // Nominated by the current admin, takes over once they accept
+    mapping(uint256 => address) internal _pendingDepartmentAdmins;
+    mapping(address => bool) internal _auditors;
+    uint256 internal _auditEngagementCounter;
+    mapping(uint256 => AuditEngagement) internal _auditEngagements;
+    mapping(address => uint256[]) internal _auditorEngagements;
+    // engagementId => departmentId => in scope
+    mapping(uint256 => mapping(uint256 => bool)) internal _engagementDepartments;
+    // Holds the grants of opened audit records and re-encrypts them for the
+    // engagement auditor while the engagement is live
+    address internal _auditRelayer;
+    // engagementId => recordId => opened for the engagement auditor
+    mapping(uint256 => mapping(uint256 => bool)) internal _openedAuditRecords;
+    // departmentId => account => role flags; accounts need not be members
+    mapping(uint256 => mapping(address => uint8)) internal _departmentRoles;
+    // Everyone ever given roles in a department, for listing the role matrix
+    mapping(uint256 => address[]) internal _roleHolders;
+    mapping(uint256 => mapping(address => bool)) internal _isRoleHolder;
+    // Accounts allowed to aggregate several departments in one calculation
+    mapping(address => bool) internal _rollupGrants;
+    address internal _systemAdmin;
+    // Nominated by the current system admin, takes over once they accept
+    address internal _pendingSystemAdmin;
+    
+    // Multi-admin mode is off while the threshold is 0. Every change to the
+    // admin set bumps the epoch, so confirmations gathered before it lapse.
+    address[] internal _governanceAdmins;
+    mapping(address => bool) internal _isGovernanceAdmin;
+    uint256 internal _governanceThreshold;
+    uint256 internal _governanceEpoch;
+    uint256 internal _adminActionCounter;
+    mapping(uint256 => AdminAction) internal _adminActions;
+    // keccak256(calldata, epoch) => id of the action still collecting confirmations
+    mapping(bytes32 => uint256) internal _openAdminActions;
+    mapping(uint256 => mapping(address => bool)) internal _adminActionConfirmedBy;
+    
+    // Encrypted running totals, maintained on every write so calculations
+    // never have to rescan the ledger. Each write appends a cumulative
+    // checkpoint, which lets a period be read as the difference of two.
+    mapping(uint256 => mapping(RecordType => TotalCheckpoint[])) internal _departmentCheckpoints;
+    mapping(uint256 => mapping(uint256 => mapping(RecordType => TotalCheckpoint[]))) internal _projectCheckpoints;
+    // departmentId => projectId (0 for all projects) => categoryId => checkpoints.
+    // Entries roll up into every ancestor, so a category total includes its subcategories.
+    mapping(uint256 => mapping(uint256 => mapping(uint256 => TotalCheckpoint[]))) internal _categoryCheckpoints;
+    // fromDepartmentId => toDepartmentId => transferred amounts, for eliminating internal transfers
+    mapping(uint256 => mapping(uint256 => TotalCheckpoint[])) internal _transferCheckpoints;
+    
+    // departmentId => projectId => budget; projectId 0 is the department-wide budget
+    mapping(uint256 => mapping(uint256 => Budget)) internal _budgets;
+    
+    mapping(uint256 => ApprovalPolicy) internal _approvalPolicies;
+    mapping(uint256 => mapping(address => bool)) internal _approvers;
+    mapping(uint256 => Approval) internal _approvals;
+    mapping(uint256 => mapping(address => bool)) internal _approvedBy;
+    
+    mapping(uint256 => FiscalPeriod) internal _fiscalPeriods;
+    // End of the latest closed period. Periods only close once they have
+    // started, so from then on every write up to this time would land in it.
+    uint256 internal _closedThrough;
+    // periodId => close number => departmentId => record type => totals
+    // frozen by that close
+    mapping(uint256 => mapping(uint256 => mapping(uint256 => mapping(RecordType => euint128)))) internal _periodSnapshots;
+    
+    event RecordCreated(
+        uint256 indexed recordId,
+        RecordType indexed recordType,
+        uint256 indexed departmentId,
+        address creator
+    );
+    
+    event RecordCorrected(
+        uint256 indexed recordId,
+        uint256 indexed correctsRecordId,
+        EntryKind kind,
+        address creator
+    );
+    
+    event DepartmentCreated(
+        uint256 indexed departmentId,
+        string name,
+        address admin
+    );
+    
+    event DepartmentRenamed(
+        uint256 indexed departmentId,
+        string name
+    );
+    
+    event DepartmentArchived(uint256 indexed departmentId);
+    
+    event DepartmentAdminTransferStarted(
+        uint256 indexed departmentId,
+        address indexed currentAdmin,
+        address indexed pendingAdmin
+    );
+    
+    event DepartmentAdminChanged(
+        uint256 indexed departmentId,
+        address indexed previousAdmin,
+        address indexed newAdmin
+    );
+    
+    event MemberAdded(
+        uint256 indexed departmentId,
+        address member
+    );
+    
+    event MemberRemoved(
+        uint256 indexed departmentId,
+        address member
+    );
+    
+    event DepartmentRolesSet(
+        uint256 indexed departmentId,
+        address indexed account,
+        uint8 roles
+    );
+    
+    event ProjectCreated(
+        uint256 indexed projectId,
+        uint256 indexed departmentId,
+        string name,
+        address manager
+    );
+    
+    event ProjectRenamed(
+        uint256 indexed projectId,
+        string name
+    );
+    
+    event ProjectManagerChanged(
+        uint256 indexed projectId,
+        address manager
+    );
+    
+    event ProjectArchived(uint256 indexed projectId);
+    
+    event CategoryCreated(
+        uint256 indexed categoryId,
+        uint256 indexed parentId,
+        RecordType recordType,
+        string name
+    );
+    
+    event BudgetSet(
+        uint256 indexed departmentId,
+        uint256 indexed projectId
+    );
+    
+    event BudgetEvaluated(
+        uint256 indexed departmentId,
+        uint256 indexed projectId
+    );
+    
+    event TransferBooked(
+        uint256 indexed transferId,
+        uint256 indexed fromDepartmentId,
+        uint256 indexed toDepartmentId,
+        uint256 expenseRecordId,
+        uint256 incomeRecordId
+    );
+    
+    event ApprovalPolicySet(
+        uint256 indexed departmentId,
+        uint256 requiredApprovals,
+        uint256 approverCount
+    );
+    
+    event RecordSubmitted(
+        uint256 indexed recordId,
+        uint256 indexed departmentId
+    );
+    
+    event RecordApproved(
+        uint256 indexed recordId,
+        address indexed approver,
+        uint256 approvalCount
+    );
+    
+    event RecordSettled(uint256 indexed recordId);
+    
+    event RecordRejected(
+        uint256 indexed recordId,
+        address indexed approver,
+        string reason
+    );
+    
+    event FiscalPeriodOpened(
+        uint256 indexed periodId,
+        uint256 startTimestamp,
+        uint256 endTimestamp
+    );
+    
+    event FiscalPeriodClosed(uint256 indexed periodId, uint256 closeNumber);
+    
+    event FiscalPeriodReopened(
+        uint256 indexed periodId,
+        string reason
+    );
+    
+    event AuditorAdded(address indexed auditor);
+    event AuditorRemoved(address indexed auditor);
+    
+    event AuditEngagementCreated(
+        uint256 indexed engagementId,
+        address indexed auditor,
+        uint256[] departmentIds,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        uint256 expiresAt
+    );
+    event AuditEngagementRevoked(uint256 indexed engagementId, address indexed auditor);
+    event AuditRecordsOpened(uint256 indexed engagementId, address indexed auditor, uint256 count);
+    event AuditRelayerChanged(address indexed relayer);
+    
+    event SystemAdminTransferStarted(address indexed currentAdmin, address indexed pendingAdmin);
+    event SystemAdminChanged(address indexed previousAdmin, address indexed newAdmin);
+    
+    event GovernanceChanged(
+        address[] admins,
+        uint256 threshold,
+        uint256 epoch
+    );
+    
+    event AdminActionProposed(
+        uint256 indexed actionId,
+        address indexed proposer,
+        bytes data
+    );
+    
+    event AdminActionConfirmed(
+        uint256 indexed actionId,
+        address indexed admin,
+        uint256 confirmations
+    );
+    
+    event AdminActionExecuted(uint256 indexed actionId);
+    
+    event RollupAccessGranted(address indexed account);
+    event RollupAccessRevoked(address indexed account);
+    
+    // Carries the result handles the transaction computed, so clients read the
+    // real result from the receipt instead of re-running the query
+    event CalculationPerformed(
+        uint256 indexed calculationId,
+        address indexed requester,
+        CalculationType calculationType,
+        euint128 result,
+        ebool nonNegative,
+        uint256[] departmentIds,
+        uint256 projectId,
+        uint256 categoryId,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        bool eliminateTransfers
+    );
+    
+    // Modifier bodies are private functions so the checks are not inlined
+    // at every use, which keeps the contract under the size limit.
+    modifier onlySystemAdmin() {
+        _checkSystemAdmin();
+        _;
+    }
+    
+    // Sensitive admin calls. With multi-admin mode off the system admin runs
+    // them directly. Otherwise each governance admin confirms by sending the
+    // identical call, and the body only runs on the call that reaches the
+    // threshold; earlier calls just record a confirmation.
+    modifier onlyAdminQuorum() {
+        if (_confirmAdminAction()) {
+            _;
+        }
+    }
+    
+    modifier onlyDepartmentAdmin(uint256 departmentId) {
+        _checkDepartmentAdmin(departmentId);
+        _;
+    }
+    
+    modifier onlyDepartmentMember(uint256 departmentId) {
+        _checkDepartmentMember(departmentId);
+        _;
+    }
+    
+    // Fails with "only department member" for accounts with no standing in the
+    // department at all, and "missing role" for those lacking this role
+    modifier onlyDepartmentRole(uint256 departmentId, uint8 role) {
+        _checkDepartmentRole(departmentId, role);
+        _;
+    }
+    
+    modifier onlyAuditor() {
+        _checkAuditor();
+        _;
+    }
+    
+    modifier validDepartment(uint256 departmentId) {
+        _checkValidDepartment(departmentId);
+        _;
+    }
+    
+    modifier validRecord(uint256 recordId) {
+        _checkValidRecord(recordId);
+        _;
+    }
+    
+    modifier validProject(uint256 projectId) {
+        _checkValidProject(projectId);
+        _;
+    }
+    
+    modifier validCategory(uint256 categoryId) {
+        _checkValidCategory(categoryId);
+        _;
+    }
+    
+    modifier validFiscalPeriod(uint256 periodId) {
+        _checkValidFiscalPeriod(periodId);
+        _;
+    }
+    
+    // Adds credit and subtracts debit on every total the record rolls up
+    // into; an uninitialized handle on either side is skipped.
+    function _accumulate(Record storage record, euint128 credit, euint128 debit) internal {
+        _pushCheckpoint(_departmentCheckpoints[record.departmentId][record.recordType], credit, debit);
+        
+        if (record.projectId != 0) {
+            _pushCheckpoint(
+                _projectCheckpoints[record.departmentId][record.projectId][record.recordType],
+                credit,
+                debit
+            );
+        }
+        
+        for (uint256 categoryId = record.categoryId; categoryId != 0; categoryId = _categories[categoryId].parentId) {
+            _pushCheckpoint(_categoryCheckpoints[record.departmentId][0][categoryId], credit, debit);
+            if (record.projectId != 0) {
+                _pushCheckpoint(_categoryCheckpoints[record.departmentId][record.projectId][categoryId], credit, debit);
+            }
+        }
+        
+        // Keep over-budget flags current as expenses are booked
+        if (record.recordType == RecordType.Expense) {
+            if (_budgets[record.departmentId][0].exists) {
+                _evaluateBudget(record.departmentId, 0);
+            }
+            if (record.projectId != 0 && _budgets[record.departmentId][record.projectId].exists) {
+                _evaluateBudget(record.departmentId, record.projectId);
+            }
+        }
+    }
+    
+    function _pushCheckpoint(TotalCheckpoint[] storage checkpoints, euint128 credit, euint128 debit) internal {
+        uint256 length = checkpoints.length;
+        euint128 updated;
+        if (length > 0) {
+            updated = checkpoints[length - 1].total;
+        }
+        
+        if (FHE.isInitialized(credit)) {
+            updated = FHE.add(updated, credit);
+        }
+        if (FHE.isInitialized(debit)) {
+            updated = FHE.sub(updated, debit);
+        }
+        FHE.allowThis(updated);
+        
+        if (length > 0 && checkpoints[length - 1].timestamp == block.timestamp) {
+            checkpoints[length - 1].total = updated;
+        } else {
+            checkpoints.push(TotalCheckpoint({timestamp: block.timestamp, total: updated}));
+        }
+    }
+    
+    // Cumulative total as of `timestamp` (inclusive). Returns an uninitialized
+    // handle when nothing was booked yet, which FHE arithmetic treats as zero.
+    function _totalAt(TotalCheckpoint[] storage checkpoints, uint256 timestamp) internal view returns (euint128) {
+        uint256 length = checkpoints.length;
+        if (length == 0) {
+            return euint128.wrap(0);
+        }
+        if (checkpoints[length - 1].timestamp <= timestamp) {
+            return checkpoints[length - 1].total;
+        }
+        
+        uint256 low = 0;
+        uint256 high = length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (checkpoints[mid].timestamp > timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        
+        return high == 0 ? euint128.wrap(0) : checkpoints[high - 1].total;
+    }
+    
+    // Total booked within [fromTimestamp, toTimestamp]; a zero bound leaves
+    // that side of the period open. Corrections count in the period in which
+    // they were booked, not in the period of the entry they correct.
+    function _periodTotal(
+        TotalCheckpoint[] storage checkpoints,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) internal returns (euint128) {
+        euint128 closing = _totalAt(checkpoints, toTimestamp == 0 ? type(uint256).max : toTimestamp);
+        if (fromTimestamp == 0) {
+            return closing;
+        }
+        
+        return FHE.sub(closing, _totalAt(checkpoints, fromTimestamp - 1));
+    }
+    
+    // Compares the budget against current expenses without revealing either:
+    // remaining is clamped to zero once the budget is exceeded.
+    function _evaluateBudget(uint256 departmentId, uint256 projectId) internal {
+        Budget storage budget = _budgets[departmentId][projectId];
+        
+        TotalCheckpoint[] storage checkpoints = projectId == 0
+            ? _departmentCheckpoints[departmentId][RecordType.Expense]
+            : _projectCheckpoints[departmentId][projectId][RecordType.Expense];
+        euint128 spent = _totalAt(checkpoints, type(uint256).max);
+        if (!FHE.isInitialized(spent)) {
+            spent = FHE.asEuint128(0);
+        }
+        
+        ebool overBudget = FHE.gt(spent, budget.amount);
+        euint128 remaining = FHE.select(overBudget, FHE.asEuint128(0), FHE.sub(budget.amount, spent));
+        
+        budget.spent = spent;
+        budget.remaining = remaining;
+        budget.overBudget = overBudget;
+        budget.evaluatedAt = block.timestamp;
+        
+        FHE.allowThis(spent);
+        FHE.allowThis(remaining);
+        FHE.allowThis(overBudget);
+        
+        address admin = _departmentAdmins[departmentId];
+        FHE.allow(budget.amount, admin);
+        FHE.allow(spent, admin);
+        FHE.allow(remaining, admin);
+        FHE.allow(overBudget, admin);
+        
+        emit BudgetEvaluated(departmentId, projectId);
+    }
+    
+    function _requireDepartmentProject(uint256 departmentId, uint256 projectId) internal view {
+        require(_projects[projectId].exists, "ShadowLedger: invalid project");
+        require(_projects[projectId].departmentId == departmentId, "ShadowLedger: project not in department");
+    }
+    
+    // Entries are booked at block time, so this also covers corrections: an
+    // entry from a closed period can only be corrected in an open one.
+    function _requireOpenPeriod() internal view {
+        require(block.timestamp > _closedThrough, "ShadowLedger: fiscal period closed");
+    }
+    
+    // Copies ids[offset:offset + limit], clamped to the end of the array
+    function _slice(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (uint256[] memory result) {
+        if (offset >= ids.length) {
+            return new uint256[](0);
+        }
+        
+        uint256 count = ids.length - offset;
+        if (count > limit) {
+            count = limit;
+        }
+        
+        result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = ids[offset + i];
+        }
+    }
+    
+    function _checkSystemAdmin() private view {
+        require(msg.sender == _systemAdmin, "ShadowLedger: only system admin");
+    }
+    
+    function _confirmAdminAction() private returns (bool) {
+        if (_governanceThreshold == 0) {
+            _checkSystemAdmin();
+            return true;
+        }
+        require(_isGovernanceAdmin[msg.sender], "ShadowLedger: only governance admin");
+        
+        bytes32 actionHash = keccak256(abi.encode(msg.data, _governanceEpoch));
+        uint256 actionId = _openAdminActions[actionHash];
+        if (actionId == 0) {
+            actionId = ++_adminActionCounter;
+            _openAdminActions[actionHash] = actionId;
+            _adminActions[actionId] = AdminAction({
+                id: actionId,
+                data: msg.data,
+                proposer: msg.sender,
+                confirmations: 0,
+                epoch: _governanceEpoch,
+                createdAt: block.timestamp,
+                executed: false
+            });
+            emit AdminActionProposed(actionId, msg.sender, msg.data);
+        }
+        
+        require(!_adminActionConfirmedBy[actionId][msg.sender], "ShadowLedger: already confirmed");
+        _adminActionConfirmedBy[actionId][msg.sender] = true;
+        AdminAction storage action = _adminActions[actionId];
+        action.confirmations++;
+        emit AdminActionConfirmed(actionId, msg.sender, action.confirmations);
+        
+        if (action.confirmations < _governanceThreshold) {
+            return false;
+        }
+        action.executed = true;
+        delete _openAdminActions[actionHash];
+        emit AdminActionExecuted(actionId);
+        return true;
+    }
+    
+    function _checkDepartmentAdmin(uint256 departmentId) private view {
+        require(
+            _departmentAdmins[departmentId] == msg.sender,
+            "ShadowLedger: only department admin"
+        );
+    }
+    
+    function _checkDepartmentMember(uint256 departmentId) private view {
+        require(
+            _isDepartmentMember(msg.sender, departmentId),
+            "ShadowLedger: only department member"
+        );
+    }
+    
+    function _checkDepartmentRole(uint256 departmentId, uint8 role) internal view {
+        require(
+            _departmentRoles[departmentId][msg.sender] != 0 || _isDepartmentMember(msg.sender, departmentId),
+            "ShadowLedger: only department member"
+        );
+        require(_hasDepartmentRole(msg.sender, departmentId, role), "ShadowLedger: missing role");
+    }
+    
+    function _checkAuditor() private view {
+        require(_auditors[msg.sender], "ShadowLedger: only auditor");
+    }
+    
+    function _checkValidDepartment(uint256 departmentId) private view {
+        require(_departments[departmentId].exists, "ShadowLedger: invalid department");
+    }
+    
+    function _checkValidRecord(uint256 recordId) private view {
+        require(_records[recordId].exists, "ShadowLedger: invalid record");
+    }
+    
+    function _checkValidProject(uint256 projectId) private view {
+        require(_projects[projectId].exists, "ShadowLedger: invalid project");
+    }
+    
+    function _checkValidCategory(uint256 categoryId) private view {
+        require(_categories[categoryId].exists, "ShadowLedger: invalid category");
+    }
+    
+    function _checkValidFiscalPeriod(uint256 periodId) private view {
+        require(_fiscalPeriods[periodId].exists, "ShadowLedger: invalid fiscal period");
+    }
+    
+    function _isEngagementActive(AuditEngagement storage engagement) internal view returns (bool) {
+        return _auditors[engagement.auditor] && !engagement.revoked && block.timestamp < engagement.expiresAt;
+    }
+    
+    // True if the engagement is live and includes every department and the
+    // whole period; an open-ended period is never covered
+    function _engagementCovers(
+        AuditEngagement storage engagement,
+        uint256[] memory departmentIds,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) internal view returns (bool covered) {
+        covered = _isEngagementActive(engagement) &&
+            departmentIds.length > 0 &&
+            toTimestamp != 0 &&
+            fromTimestamp >= engagement.fromTimestamp &&
+            toTimestamp <= engagement.toTimestamp;
+        for (uint256 i = 0; covered && i < departmentIds.length; i++) {
+            covered = _engagementDepartments[engagement.id][departmentIds[i]];
+        }
+    }
+    
+    // True if one of the caller's live engagements covers the departments
+    // and the period
+    function _isAuditing(
+        uint256[] memory departmentIds,
+        uint256 fromTimestamp,
+        uint256 toTimestamp
+    ) internal view returns (bool) {
+        uint256[] storage engagementIds = _auditorEngagements[msg.sender];
+        for (uint256 i = 0; i < engagementIds.length; i++) {
+            if (_engagementCovers(_auditEngagements[engagementIds[i]], departmentIds, fromTimestamp, toTimestamp)) {
+                return true;
+            }
+        }
+        return false;
+    }
+    
+    // Same for one department, whatever the time window; only department
+    // metadata is read this way
+    function _isAuditingDepartment(uint256 departmentId) internal view returns (bool) {
+        uint256[] storage engagementIds = _auditorEngagements[msg.sender];
+        for (uint256 i = 0; i < engagementIds.length; i++) {
+            if (
+                _engagementDepartments[engagementIds[i]][departmentId] &&
+                _isEngagementActive(_auditEngagements[engagementIds[i]])
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+    
+    // True if one of the caller's live engagements includes the record's
+    // department and the time it was booked
+    function _isAuditingRecord(Record storage record) internal view returns (bool) {
+        return _isAuditing(_single(record.departmentId), record.timestamp, record.timestamp);
+    }
+    
+    // Viewers of the record's department, and auditors engaged on it
+    function _canReadRecord(Record storage record) internal view returns (bool) {
+        return _hasDepartmentRole(msg.sender, record.departmentId, ROLE_VIEWER) || _isAuditingRecord(record);
+    }
+    
+    // Viewers of the department, and auditors with a live engagement including it
+    function _canReadDepartment(uint256 departmentId) internal view returns (bool) {
+        return _hasDepartmentRole(msg.sender, departmentId, ROLE_VIEWER) || _isAuditingDepartment(departmentId);
+    }
+    
+    // The given record ids, filtered down to those the calling auditor's live
+    // engagements cover
+    function _auditedRecords(uint256[] memory recordIds) internal view returns (uint256[] memory) {
+        uint256[] memory audited = new uint256[](recordIds.length);
+        uint256 count = 0;
+        for (uint256 i = 0; i < recordIds.length; i++) {
+            if (_isAuditingRecord(_records[recordIds[i]])) {
+                audited[count] = recordIds[i];
+                count++;
+            }
+        }
+        
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = audited[i];
+        }
+        
+        return result;
+    }
+    
+    function _single(uint256 id) internal pure returns (uint256[] memory ids) {
+        ids = new uint256[](1);
+        ids[0] = id;
+    }
+    
+    // True if the user holds any of the roles in the given mask
+    function _hasDepartmentRole(address user, uint256 departmentId, uint8 role) internal view returns (bool) {
+        uint8 roles = _departmentRoles[departmentId][user];
+        if (_departmentAdmins[departmentId] == user || (roles == 0 && _isDepartmentMember(user, departmentId))) {
+            roles |= ROLE_BOOKKEEPER | ROLE_VIEWER;
+        }
+        return roles & role != 0;
+    }
+    
+    function _isDepartmentMember(
+        address user,
+        uint256 departmentId
+    ) internal view returns (bool) {
+        if (!_departments[departmentId].exists) {
+            return false;
+        }
+        
+        if (_departments[departmentId].admin == user) {
+            return true;
+        }
+        
+        address[] memory members = _departments[departmentId].members;
+        for (uint256 i = 0; i < members.length; i++) {
+            if (members[i] == user) {
+                return true;
+            }
+        }
+        
+        return false;
+    }
+}
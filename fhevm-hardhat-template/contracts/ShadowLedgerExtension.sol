@@ -0,0 +1,684 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint128, externalEuint128, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ShadowLedgerBase} from "./ShadowLedgerBase.sol";
+
+// System and department administration, multi-admin governance, registry,
+// budgeting, approval and rollup-grant functions of the ledger. Deployed once and reached through ShadowLedger's fallback; calling
+// it directly only touches its own, empty storage.
+contract ShadowLedgerExtension is ShadowLedgerBase {
+    address private immutable _audit;
+    
+    constructor(address audit) {
+        require(audit != address(0), "ShadowLedger: invalid extension");
+        _audit = audit;
+    }
+    
+    // Audit engagement and fiscal period functions live in ShadowLedgerAudit,
+    // one more hop away. Calls this contract does not know are delegated on,
+    // still in ShadowLedger's context.
+    fallback() external {
+        address audit = _audit;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), audit, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+    
+    function setBudget(
+        uint256 departmentId,
+        uint256 projectId,
+        externalEuint128 encryptedBudget,
+        bytes calldata inputProof
+    ) external onlyDepartmentAdmin(departmentId) validDepartment(departmentId) {
+        if (projectId != 0) {
+            _requireDepartmentProject(departmentId, projectId);
+        }
+        
+        euint128 amount = FHE.fromExternal(encryptedBudget, inputProof);
+        
+        Budget storage budget = _budgets[departmentId][projectId];
+        budget.amount = amount;
+        budget.exists = true;
+        
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        
+        emit BudgetSet(departmentId, projectId);
+        _evaluateBudget(departmentId, projectId);
+    }
+    
+    function evaluateBudget(
+        uint256 departmentId,
+        uint256 projectId
+    ) external validDepartment(departmentId) {
+        _checkBudgetAccess(departmentId);
+        require(_budgets[departmentId][projectId].exists, "ShadowLedger: no budget");
+        
+        _evaluateBudget(departmentId, projectId);
+        
+        // Grants cannot be taken back, so an auditor's go to the audit relayer
+        address reader = _departmentAdmins[departmentId] == msg.sender ? msg.sender : _auditRelayer;
+        require(reader != address(0), "ShadowLedger: no audit relayer");
+        _allowBudget(_budgets[departmentId][projectId], reader);
+    }
+    
+    function getBudget(
+        uint256 departmentId,
+        uint256 projectId
+    ) external view validDepartment(departmentId) returns (
+        euint128 amount,
+        euint128 spent,
+        euint128 remaining,
+        ebool overBudget,
+        uint256 evaluatedAt
+    ) {
+        _checkBudgetAccess(departmentId);
+        
+        Budget storage budget = _budgets[departmentId][projectId];
+        require(budget.exists, "ShadowLedger: no budget");
+        
+        return (budget.amount, budget.spent, budget.remaining, budget.overBudget, budget.evaluatedAt);
+    }
+    
+    function renameDepartment(
+        uint256 departmentId,
+        string memory name
+    ) external validDepartment(departmentId) {
+        require(
+            _departmentAdmins[departmentId] == msg.sender || _systemAdmin == msg.sender,
+            "ShadowLedger: only department admin or system admin"
+        );
+        require(bytes(name).length > 0, "ShadowLedger: empty name");
+        
+        _departments[departmentId].name = name;
+        emit DepartmentRenamed(departmentId, name);
+    }
+    
+    // Archived departments keep their records and totals, so calculations and
+    // audits still see them, but accept no new records or projects
+    function archiveDepartment(uint256 departmentId) external onlySystemAdmin validDepartment(departmentId) {
+        require(!_departments[departmentId].archived, "ShadowLedger: department archived");
+        
+        _departments[departmentId].archived = true;
+        emit DepartmentArchived(departmentId);
+    }
+    
+    // First step of a handover: the nominee becomes admin once they accept.
+    // Nominating address(0) withdraws a pending nomination.
+    function transferDepartmentAdmin(
+        uint256 departmentId,
+        address newAdmin
+    ) external onlyDepartmentAdmin(departmentId) validDepartment(departmentId) {
+        require(newAdmin != msg.sender, "ShadowLedger: already admin");
+        
+        _pendingDepartmentAdmins[departmentId] = newAdmin;
+        emit DepartmentAdminTransferStarted(departmentId, msg.sender, newAdmin);
+    }
+    
+    function acceptDepartmentAdmin(uint256 departmentId) external validDepartment(departmentId) {
+        require(_pendingDepartmentAdmins[departmentId] == msg.sender, "ShadowLedger: only pending admin");
+        
+        _setDepartmentAdmin(departmentId, msg.sender);
+    }
+    
+    // Grants the admin the record handles their role is allowed: amounts and
+    // threshold results of submitted expenses, transfer legs, and the budgets
+    // of the projects booked to. A new admin walks the department's records
+    // with this after a handover, as many per call as fit in a block.
+    function grantDepartmentRecords(
+        uint256 departmentId,
+        uint256 offset,
+        uint256 limit
+    ) external onlyDepartmentAdmin(departmentId) validDepartment(departmentId) {
+        uint256[] memory recordIds = _slice(_departmentRecordIds[departmentId], offset, limit);
+        for (uint256 i = 0; i < recordIds.length; i++) {
+            Record storage record = _records[recordIds[i]];
+            Approval storage approval = _approvals[record.id];
+            if (approval.status != ApprovalStatus.None) {
+                FHE.allow(record.amount, msg.sender);
+                FHE.allow(approval.required, msg.sender);
+            } else if (record.transferId != 0) {
+                FHE.allow(record.amount, msg.sender);
+            }
+            
+            Budget storage budget = _budgets[departmentId][record.projectId];
+            if (record.projectId != 0 && budget.exists && !FHE.isAllowed(budget.spent, msg.sender)) {
+                _allowBudget(budget, msg.sender);
+            }
+        }
+    }
+    
+    // Lets the system admin replace an admin who is gone and cannot hand over
+    function overrideDepartmentAdmin(
+        uint256 departmentId,
+        address newAdmin
+    ) external onlySystemAdmin validDepartment(departmentId) {
+        require(newAdmin != address(0), "ShadowLedger: invalid admin");
+        require(newAdmin != _departmentAdmins[departmentId], "ShadowLedger: already admin");
+        
+        _setDepartmentAdmin(departmentId, newAdmin);
+    }
+    
+    function getPendingDepartmentAdmin(
+        uint256 departmentId
+    ) external view validDepartment(departmentId) returns (address) {
+        return _pendingDepartmentAdmins[departmentId];
+    }
+    
+    // Nominates the next system admin; address(0) withdraws the nomination.
+    // Goes through the quorum in multi-admin mode, so the governance admins
+    // can replace a system admin whose key is lost.
+    function transferSystemAdmin(address newAdmin) external onlyAdminQuorum {
+        require(newAdmin != _systemAdmin, "ShadowLedger: already admin");
+        
+        _pendingSystemAdmin = newAdmin;
+        
+        emit SystemAdminTransferStarted(_systemAdmin, newAdmin);
+    }
+    
+    function acceptSystemAdmin() external {
+        require(msg.sender == _pendingSystemAdmin, "ShadowLedger: only pending admin");
+        
+        address previousAdmin = _systemAdmin;
+        _systemAdmin = msg.sender;
+        delete _pendingSystemAdmin;
+        
+        emit SystemAdminChanged(previousAdmin, msg.sender);
+    }
+    
+    function getSystemAdmin() external view returns (address) {
+        return _systemAdmin;
+    }
+    
+    function getPendingSystemAdmin() external view returns (address) {
+        return _pendingSystemAdmin;
+    }
+    
+    // Replaces the governance admins and how many of them must confirm a
+    // sensitive call. A threshold of 0 with no admins turns multi-admin mode
+    // off and hands those calls back to the system admin.
+    function setGovernance(address[] calldata admins, uint256 threshold) external onlyAdminQuorum {
+        require(threshold <= admins.length, "ShadowLedger: invalid threshold");
+        require((threshold == 0) == (admins.length == 0), "ShadowLedger: invalid threshold");
+        
+        for (uint256 i = 0; i < _governanceAdmins.length; i++) {
+            _isGovernanceAdmin[_governanceAdmins[i]] = false;
+        }
+        for (uint256 i = 0; i < admins.length; i++) {
+            require(admins[i] != address(0), "ShadowLedger: invalid admin");
+            require(!_isGovernanceAdmin[admins[i]], "ShadowLedger: duplicate admin");
+            _isGovernanceAdmin[admins[i]] = true;
+        }
+        
+        _governanceAdmins = admins;
+        _governanceThreshold = threshold;
+        _governanceEpoch++;
+        
+        emit GovernanceChanged(admins, threshold, _governanceEpoch);
+    }
+    
+    function getGovernance() external view returns (
+        address[] memory admins,
+        uint256 threshold,
+        uint256 epoch
+    ) {
+        return (_governanceAdmins, _governanceThreshold, _governanceEpoch);
+    }
+    
+    function getAdminActionCount() external view returns (uint256) {
+        return _adminActionCounter;
+    }
+    
+    // An action from an earlier epoch can no longer execute; sending the same
+    // call again starts a new one
+    function getAdminAction(uint256 actionId) external view returns (AdminAction memory) {
+        require(actionId != 0 && actionId <= _adminActionCounter, "ShadowLedger: invalid action");
+        return _adminActions[actionId];
+    }
+    
+    function hasConfirmedAdminAction(uint256 actionId, address admin) external view returns (bool) {
+        return _adminActionConfirmedBy[actionId][admin];
+    }
+    
+    function createProject(
+        uint256 departmentId,
+        string memory name,
+        address manager
+    ) external onlyDepartmentAdmin(departmentId) validDepartment(departmentId) returns (uint256) {
+        require(bytes(name).length > 0, "ShadowLedger: empty name");
+        require(!_departments[departmentId].archived, "ShadowLedger: department archived");
+        
+        _projectCounter++;
+        uint256 projectId = _projectCounter;
+        
+        _projects[projectId] = Project({
+            id: projectId,
+            name: name,
+            departmentId: departmentId,
+            manager: manager,
+            archived: false,
+            createdAt: block.timestamp,
+            exists: true
+        });
+        
+        emit ProjectCreated(projectId, departmentId, name, manager);
+        return projectId;
+    }
+    
+    function renameProject(
+        uint256 projectId,
+        string memory name
+    ) external validProject(projectId) {
+        require(bytes(name).length > 0, "ShadowLedger: empty name");
+        
+        Project storage project = _projects[projectId];
+        require(
+            _departmentAdmins[project.departmentId] == msg.sender || project.manager == msg.sender,
+            "ShadowLedger: only department admin or project manager"
+        );
+        
+        project.name = name;
+        emit ProjectRenamed(projectId, name);
+    }
+    
+    function setProjectManager(
+        uint256 projectId,
+        address manager
+    ) external validProject(projectId) onlyDepartmentAdmin(_projects[projectId].departmentId) {
+        _projects[projectId].manager = manager;
+        emit ProjectManagerChanged(projectId, manager);
+    }
+    
+    // Archived projects keep their records and totals but accept no new records
+    function archiveProject(
+        uint256 projectId
+    ) external validProject(projectId) onlyDepartmentAdmin(_projects[projectId].departmentId) {
+        require(!_projects[projectId].archived, "ShadowLedger: project archived");
+        
+        _projects[projectId].archived = true;
+        emit ProjectArchived(projectId);
+    }
+    
+    function getProject(
+        uint256 projectId
+    ) external view validProject(projectId) returns (
+        uint256 id,
+        string memory name,
+        uint256 departmentId,
+        address manager,
+        bool archived,
+        uint256 createdAt
+    ) {
+        Project memory project = _projects[projectId];
+        return (
+            project.id,
+            project.name,
+            project.departmentId,
+            project.manager,
+            project.archived,
+            project.createdAt
+        );
+    }
+    
+    function getProjectCount() external view returns (uint256) {
+        return _projectCounter;
+    }
+    
+    // Paged record ids from the on-chain indexes, in booking order
+    function getDepartmentRecordCount(
+        uint256 departmentId
+    ) external view onlyDepartmentRole(departmentId, ROLE_VIEWER) returns (uint256) {
+        return _departmentRecordIds[departmentId].length;
+    }
+    
+    function getProjectRecords(
+        uint256 projectId,
+        uint256 offset,
+        uint256 limit
+    ) external view validProject(projectId) returns (uint256[] memory) {
+        _requireProjectReader(projectId);
+        return _slice(_projectRecordIds[projectId], offset, limit);
+    }
+    
+    function getProjectRecordCount(uint256 projectId) external view validProject(projectId) returns (uint256) {
+        _requireProjectReader(projectId);
+        return _projectRecordIds[projectId].length;
+    }
+    
+    // Auditors get the page filtered down to the records their live
+    // engagements cover, so it may come back shorter than limit
+    function getCreatorRecords(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory) {
+        uint256[] memory recordIds = _slice(_creatorRecordIds[creator], offset, limit);
+        if (creator == msg.sender) {
+            return recordIds;
+        }
+        require(_auditors[msg.sender], "ShadowLedger: access denied");
+        return _auditedRecords(recordIds);
+    }
+    
+    function getCreatorRecordCount(address creator) external view returns (uint256) {
+        if (creator == msg.sender) {
+            return _creatorRecordIds[creator].length;
+        }
+        require(_auditors[msg.sender], "ShadowLedger: access denied");
+        return _auditedRecords(_creatorRecordIds[creator]).length;
+    }
+    
+    function createCategory(
+        string memory name,
+        uint256 parentId,
+        RecordType recordType
+    ) external onlySystemAdmin returns (uint256) {
+        require(bytes(name).length > 0, "ShadowLedger: empty name");
+        
+        if (parentId != 0) {
+            Category storage parent = _categories[parentId];
+            require(parent.exists, "ShadowLedger: invalid category");
+            require(parent.recordType == recordType, "ShadowLedger: category type mismatch");
+            require(_categoryDepth(parentId) < MAX_CATEGORY_DEPTH, "ShadowLedger: category too deep");
+        }
+        
+        _categoryCounter++;
+        uint256 categoryId = _categoryCounter;
+        
+        _categories[categoryId] = Category({
+            id: categoryId,
+            name: name,
+            parentId: parentId,
+            recordType: recordType,
+            exists: true
+        });
+        
+        emit CategoryCreated(categoryId, parentId, recordType, name);
+        return categoryId;
+    }
+    
+    function getCategory(
+        uint256 categoryId
+    ) external view validCategory(categoryId) returns (
+        uint256 id,
+        string memory name,
+        uint256 parentId,
+        RecordType recordType
+    ) {
+        Category memory category = _categories[categoryId];
+        return (category.id, category.name, category.parentId, category.recordType);
+    }
+    
+    function getCategoryCount() external view returns (uint256) {
+        return _categoryCounter;
+    }
+    
+    // Expenses submitted to a department with a policy stay pending until the
+    // department admin, or requiredApprovals of the listed approvers, approve.
+    function setApprovalPolicy(
+        uint256 departmentId,
+        externalEuint128 encryptedThreshold,
+        bytes calldata inputProof,
+        address[] calldata approvers,
+        uint256 requiredApprovals
+    ) external onlyDepartmentAdmin(departmentId) validDepartment(departmentId) {
+        // The admin cannot review their own expenses, so someone else must be
+        // able to, or they would stay pending forever
+        require(
+            requiredApprovals > 0 && requiredApprovals <= approvers.length,
+            "ShadowLedger: invalid approval quorum"
+        );
+        
+        ApprovalPolicy storage policy = _approvalPolicies[departmentId];
+        for (uint256 i = 0; i < policy.approvers.length; i++) {
+            _approvers[departmentId][policy.approvers[i]] = false;
+        }
+        for (uint256 i = 0; i < approvers.length; i++) {
+            require(approvers[i] != address(0), "ShadowLedger: invalid approver");
+            require(approvers[i] != msg.sender, "ShadowLedger: admin cannot be approver");
+            require(!_approvers[departmentId][approvers[i]], "ShadowLedger: duplicate approver");
+            _approvers[departmentId][approvers[i]] = true;
+        }
+        
+        policy.threshold = FHE.fromExternal(encryptedThreshold, inputProof);
+        policy.requiredApprovals = requiredApprovals;
+        policy.approvers = approvers;
+        policy.exists = true;
+        
+        FHE.allowThis(policy.threshold);
+        FHE.allow(policy.threshold, msg.sender);
+        
+        emit ApprovalPolicySet(departmentId, requiredApprovals, approvers.length);
+    }
+    
+    function getApprovalPolicy(
+        uint256 departmentId
+    ) external view onlyDepartmentRole(departmentId, ROLE_VIEWER | ROLE_FINANCE_CONTROLLER) returns (
+        euint128 threshold,
+        uint256 requiredApprovals,
+        address[] memory approvers
+    ) {
+        ApprovalPolicy storage policy = _approvalPolicies[departmentId];
+        require(policy.exists, "ShadowLedger: no approval policy");
+        
+        return (policy.threshold, policy.requiredApprovals, policy.approvers);
+    }
+    
+    function approveRecord(uint256 recordId) external validRecord(recordId) {
+        Record storage record = _records[recordId];
+        Approval storage approval = _requireReviewable(record);
+        require(!_approvedBy[recordId][msg.sender], "ShadowLedger: already approved");
+        
+        _approvedBy[recordId][msg.sender] = true;
+        approval.approvalCount++;
+        emit RecordApproved(recordId, msg.sender, approval.approvalCount);
+        
+        if (
+            _departmentAdmins[record.departmentId] == msg.sender ||
+            approval.approvalCount >= _approvalPolicies[record.departmentId].requiredApprovals
+        ) {
+            approval.status = ApprovalStatus.Approved;
+            euint128 none;
+            _accumulate(record, approval.heldAmount, none);
+            _accumulateTransferIncome(record, approval.heldAmount, none);
+        }
+    }
+    
+    // Anyone may settle an expense under the threshold as approved, with the
+    // public decryption of its threshold result. Nothing was held back, so
+    // the totals already count it in full.
+    function settleApproval(
+        uint256 recordId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external validRecord(recordId) {
+        Approval storage approval = _approvals[recordId];
+        require(approval.status == ApprovalStatus.Pending, "ShadowLedger: record not pending");
+        
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(approval.required);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+        require(!abi.decode(abiEncodedCleartexts, (bool)), "ShadowLedger: approval required");
+        
+        approval.status = ApprovalStatus.Approved;
+        emit RecordSettled(recordId);
+    }
+    
+    function rejectRecord(
+        uint256 recordId,
+        string memory reason
+    ) external validRecord(recordId) {
+        require(bytes(reason).length > 0, "ShadowLedger: empty reason");
+        Record storage record = _records[recordId];
+        Approval storage approval = _requireReviewable(record);
+        
+        // Rejected expenses count for nothing, including any part booked on submission
+        approval.status = ApprovalStatus.Rejected;
+        euint128 none;
+        _accumulate(record, none, approval.bookedAmount);
+        _accumulateTransferIncome(record, none, approval.bookedAmount);
+        
+        emit RecordRejected(recordId, msg.sender, reason);
+    }
+    
+    // Batch reader: ids that do not exist or that the caller may not see are
+    // left out rather than reverting the whole batch
+    function getRecords(uint256[] calldata recordIds) external view returns (RecordView[] memory) {
+        RecordView[] memory views = new RecordView[](recordIds.length);
+        uint256 count = 0;
+        
+        for (uint256 i = 0; i < recordIds.length; i++) {
+            Record storage record = _records[recordIds[i]];
+            if (!record.exists || !_canReadRecord(record)) {
+                continue;
+            }
+            
+            Approval storage approval = _approvals[recordIds[i]];
+            views[count] = RecordView({
+                record: record,
+                approvalStatus: approval.status,
+                approvalRequired: approval.required,
+                approvalCount: approval.approvalCount
+            });
+            count++;
+        }
+        
+        RecordView[] memory result = new RecordView[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = views[i];
+        }
+        
+        return result;
+    }
+    
+    function getRecordApproval(
+        uint256 recordId
+    ) external view validRecord(recordId) returns (
+        ApprovalStatus status,
+        ebool required,
+        uint256 approvalCount
+    ) {
+        require(_canReadRecord(_records[recordId]), "ShadowLedger: access denied");
+        
+        Approval storage approval = _approvals[recordId];
+        return (approval.status, approval.required, approval.approvalCount);
+    }
+    
+    function isApprover(uint256 departmentId, address account) external view returns (bool) {
+        return _departmentAdmins[departmentId] == account || _approvers[departmentId][account];
+    }
+    
+    // Lets a non-auditor combine several of their departments in one calculation
+    function grantRollupAccess(address account) external onlySystemAdmin {
+        require(account != address(0), "ShadowLedger: invalid account");
+        require(!_rollupGrants[account], "ShadowLedger: rollup already granted");
+        
+        _rollupGrants[account] = true;
+        
+        emit RollupAccessGranted(account);
+    }
+    
+    function revokeRollupAccess(address account) external onlySystemAdmin {
+        require(_rollupGrants[account], "ShadowLedger: rollup not granted");
+        
+        _rollupGrants[account] = false;
+        
+        emit RollupAccessRevoked(account);
+    }
+    
+    function hasRollupAccess(address account) external view returns (bool) {
+        return _rollupGrants[account];
+    }
+    
+    // Spending is cumulative, so auditors need a live engagement including
+    // the department from its first record up to now
+    function _checkBudgetAccess(uint256 departmentId) private view {
+        require(
+            _departmentAdmins[departmentId] == msg.sender || _isAuditing(_single(departmentId), 0, block.timestamp),
+            "ShadowLedger: only department admin or auditor"
+        );
+    }
+    
+    // The previous admin stays a member until the new admin removes them.
+    // The new admin is granted the department budget and approval threshold
+    // here; record handles follow through grantDepartmentRecords.
+    function _setDepartmentAdmin(uint256 departmentId, address newAdmin) private {
+        Department storage dept = _departments[departmentId];
+        address previousAdmin = dept.admin;
+        
+        dept.admin = newAdmin;
+        _departmentAdmins[departmentId] = newAdmin;
+        delete _pendingDepartmentAdmins[departmentId];
+        
+        if (_budgets[departmentId][0].exists) {
+            _allowBudget(_budgets[departmentId][0], newAdmin);
+        }
+        if (_approvalPolicies[departmentId].exists) {
+            FHE.allow(_approvalPolicies[departmentId].threshold, newAdmin);
+        }
+        
+        bool listed = false;
+        for (uint256 i = 0; i < dept.members.length; i++) {
+            if (dept.members[i] == newAdmin) {
+                listed = true;
+                break;
+            }
+        }
+        if (!listed) {
+            dept.members.push(newAdmin);
+            _userDepartments[newAdmin].push(departmentId);
+        }
+        
+        emit DepartmentAdminChanged(departmentId, previousAdmin, newAdmin);
+    }
+    
+    // Mirrors a change to a transfer's expense leg on its income leg and the
+    // transfer total
+    function _accumulateTransferIncome(Record storage expense, euint128 credit, euint128 debit) private {
+        if (expense.transferId == 0) {
+            return;
+        }
+        
+        Transfer storage booked = _transfers[expense.transferId];
+        _accumulate(_records[booked.incomeRecordId], credit, debit);
+        _pushCheckpoint(_transferCheckpoints[booked.fromDepartmentId][booked.toDepartmentId], credit, debit);
+    }
+    
+    function _allowBudget(Budget storage budget, address account) private {
+        FHE.allow(budget.amount, account);
+        FHE.allow(budget.spent, account);
+        FHE.allow(budget.remaining, account);
+        FHE.allow(budget.overBudget, account);
+    }
+    
+    function _requireReviewable(Record storage record) private view returns (Approval storage approval) {
+        approval = _approvals[record.id];
+        require(approval.status == ApprovalStatus.Pending, "ShadowLedger: record not pending");
+        require(
+            _departmentAdmins[record.departmentId] == msg.sender || _approvers[record.departmentId][msg.sender],
+            "ShadowLedger: only approver"
+        );
+        require(record.creator != msg.sender, "ShadowLedger: cannot review own record");
+        _requireOpenPeriod();
+    }
+    
+    function _requireProjectReader(uint256 projectId) private view {
+        require(_canReadDepartment(_projects[projectId].departmentId), "ShadowLedger: access denied");
+    }
+    
+    function _categoryDepth(uint256 categoryId) private view returns (uint256 depth) {
+        for (; categoryId != 0; categoryId = _categories[categoryId].parentId) {
+            depth++;
+        }
+    }
+}
@@ -3,16 +3,44 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, save, getArtifact } = hre.deployments;
+
+  const deployedAudit = await deploy("ShadowLedgerAudit", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedExtension = await deploy("ShadowLedgerExtension", {
+    from: deployer,
+    args: [deployedAudit.address],
+    log: true,
+  });
 
   const deployedShadowLedger = await deploy("ShadowLedger", {
     from: deployer,
+    args: [deployedExtension.address],
     log: true,
   });
 
+  // Extension and audit functions are served at the ShadowLedger address
+  // through the fallbacks, so the saved deployment carries all three ABIs.
+  // Events are declared in the shared base and already part of the
+  // ShadowLedger ABI.
+  const extensionArtifact = await getArtifact("ShadowLedgerExtension");
+  const auditArtifact = await getArtifact("ShadowLedgerAudit");
+  await save("ShadowLedger", {
+    ...deployedShadowLedger,
+    abi: [
+      ...deployedShadowLedger.abi,
+      ...extensionArtifact.abi.filter((fragment: { type: string }) => fragment.type === "function"),
+      ...auditArtifact.abi.filter((fragment: { type: string }) => fragment.type === "function"),
+    ],
+  });
+
+  console.log(`ShadowLedgerAudit contract: `, deployedAudit.address);
+  console.log(`ShadowLedgerExtension contract: `, deployedExtension.address);
   console.log(`ShadowLedger contract: `, deployedShadowLedger.address);
 };
 export default func;
 func.id = "deploy_shadowLedger"; // id required to prevent reexecution
 func.tags = ["ShadowLedger"];
-
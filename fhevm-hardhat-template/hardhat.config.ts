@@ -11,6 +11,7 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/ShadowLedger";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -76,7 +77,8 @@ const config: HardhatUserConfig = {
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
       optimizer: {
         enabled: true,
-        runs: 800,
+        // Tuned for deployed size: ShadowLedger sits close to the 24 KB contract size limit
+        runs: 200,
       },
       evmVersion: "cancun",
     },
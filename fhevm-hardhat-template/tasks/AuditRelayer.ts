@@ -0,0 +1,234 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { webcrypto } from "crypto";
+import { getBytes, hexlify, toUtf8Bytes, toUtf8String, verifyMessage } from "ethers";
+import { createServer } from "http";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { ShadowLedgerAudit } from "../types";
+
+/**
+ * Audit relayer protocol
+ * ======================
+ *
+ * The relayer account holds the decryption grants of everything auditors
+ * read: opened records, auditor calculations and evaluated budgets. An
+ * auditor asks for values with a message they sign with their wallet:
+ *
+ *   { contract, chainId, items, publicKey, issuedAt }
+ *
+ * items are { kind: "record", recordId }, { kind: "calculation",
+ * calculationId } or { kind: "budget", departmentId, projectId }, and
+ * publicKey is a fresh P-256 ECDH key of theirs. For each item the relayer
+ * tries the signer's engagements through the relayer-only views of
+ * ShadowLedgerAudit, which revert once an engagement is over, so nothing is
+ * decrypted after that. The results go back encrypted to publicKey alone
+ * (ECDH, HKDF-SHA256, AES-256-GCM), so only the signer can read them.
+ */
+
+// How long a signed request may be replayed, in seconds
+const REQUEST_TTL = 300;
+const MAX_ITEMS = 100;
+const MAX_BODY_BYTES = 64 * 1024;
+const HKDF_INFO = toUtf8Bytes("ShadowLedger audit relayer");
+
+export type RelayItem =
+  | { kind: "record"; recordId: string }
+  | { kind: "calculation"; calculationId: string }
+  | { kind: "budget"; departmentId: string; projectId: string };
+
+export type RelayRequestMessage = {
+  contract: string;
+  chainId: number;
+  items: RelayItem[];
+  publicKey: string; // uncompressed P-256 point, hex
+  issuedAt: number; // unix seconds
+};
+
+// message is the JSON of a RelayRequestMessage, exactly as signed
+export type RelayRequest = { message: string; signature: string };
+
+export type RelayResponse = { publicKey: string; iv: string; ciphertext: string };
+
+// One per item, in order: decimal amounts and "true"/"false" flags by name,
+// or why the item was refused
+export type RelayResult = { values: Record<string, string> } | { error: string };
+
+type Handles = Record<string, { handle: string; type: "euint128" | "ebool" }>;
+
+const ecdh = { name: "ECDH", namedCurve: "P-256" };
+
+async function deriveKey(privateKey: webcrypto.CryptoKey, publicKey: Uint8Array, usage: webcrypto.KeyUsage) {
+  const peer = await webcrypto.subtle.importKey("raw", publicKey, ecdh, false, []);
+  const shared = await webcrypto.subtle.deriveBits({ name: "ECDH", public: peer }, privateKey, 256);
+  const material = await webcrypto.subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"]);
+  return webcrypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: HKDF_INFO },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    [usage],
+  );
+}
+
+// A key pair for one request; the private half never leaves the auditor
+export async function createRelayKeyPair() {
+  const { privateKey, publicKey } = await webcrypto.subtle.generateKey(ecdh, true, ["deriveBits"]);
+  return { privateKey, publicKey: hexlify(new Uint8Array(await webcrypto.subtle.exportKey("raw", publicKey))) };
+}
+
+async function sealFor(publicKey: string, plaintext: string): Promise<RelayResponse> {
+  const ephemeral = await createRelayKeyPair();
+  const key = await deriveKey(ephemeral.privateKey, getBytes(publicKey), "encrypt");
+  const iv = webcrypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await webcrypto.subtle.encrypt({ name: "AES-GCM", iv }, key, toUtf8Bytes(plaintext));
+  return { publicKey: ephemeral.publicKey, iv: hexlify(iv), ciphertext: hexlify(new Uint8Array(ciphertext)) };
+}
+
+export async function openRelayResponse(
+  privateKey: webcrypto.CryptoKey,
+  response: RelayResponse,
+): Promise<RelayResult[]> {
+  const key = await deriveKey(privateKey, getBytes(response.publicKey), "decrypt");
+  const plaintext = await webcrypto.subtle.decrypt(
+    { name: "AES-GCM", iv: getBytes(response.iv) },
+    key,
+    getBytes(response.ciphertext),
+  );
+  return JSON.parse(toUtf8String(new Uint8Array(plaintext)));
+}
+
+// The views revert unless the engagement is live and covers the item
+async function readHandles(audit: ShadowLedgerAudit, engagementId: bigint, item: RelayItem): Promise<Handles> {
+  if (item.kind === "record") {
+    return { amount: { handle: await audit.getAuditRecordAmount(engagementId, item.recordId), type: "euint128" } };
+  }
+  if (item.kind === "calculation") {
+    const { result, nonNegative } = await audit.getAuditCalculation(engagementId, item.calculationId);
+    const handles: Handles = { result: { handle: result, type: "euint128" } };
+    // Only net income calculations carry a sign
+    if (BigInt(nonNegative) !== 0n) {
+      handles.nonNegative = { handle: nonNegative, type: "ebool" };
+    }
+    return handles;
+  }
+  if (item.kind === "budget") {
+    const budget = await audit.getAuditBudget(engagementId, item.departmentId, item.projectId);
+    return {
+      amount: { handle: budget.amount, type: "euint128" },
+      spent: { handle: budget.spent, type: "euint128" },
+      remaining: { handle: budget.remaining, type: "euint128" },
+      overBudget: { handle: budget.overBudget, type: "ebool" },
+    };
+  }
+  throw new Error("unknown item kind");
+}
+
+/**
+ * Checks a signed request and answers it with the values the signer's live
+ * engagements cover, encrypted to the key in the request. audit must be
+ * connected as the relayer account.
+ */
+export async function handleRelayRequest(
+  hre: HardhatRuntimeEnvironment,
+  audit: ShadowLedgerAudit,
+  relayer: HardhatEthersSigner,
+  request: RelayRequest,
+): Promise<RelayResponse> {
+  const { fhevm } = hre;
+
+  const auditor = verifyMessage(request.message, request.signature);
+  const message = JSON.parse(request.message) as RelayRequestMessage;
+
+  const address = await audit.getAddress();
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (String(message.contract).toLowerCase() !== address.toLowerCase() || BigInt(message.chainId) !== chainId) {
+    throw new Error("request is for another ledger");
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - Number(message.issuedAt)) > REQUEST_TTL) {
+    throw new Error("request expired");
+  }
+  if (!Array.isArray(message.items) || message.items.length > MAX_ITEMS) {
+    throw new Error(`send between 0 and ${MAX_ITEMS} items`);
+  }
+
+  const engagementIds = await audit.getAuditorEngagements(auditor);
+  const results: RelayResult[] = [];
+  for (const item of message.items) {
+    let handles: Handles | undefined;
+    for (const engagementId of engagementIds) {
+      try {
+        handles = await readHandles(audit, engagementId, item);
+        break;
+      } catch {
+        // Not covered by this engagement; try the next one
+      }
+    }
+    if (!handles) {
+      results.push({ error: "not readable under a live engagement" });
+      continue;
+    }
+
+    // Decrypted one at a time; the mock coprocessor rejects overlapping
+    // requests. A calculation someone else ran is covered but never granted
+    // to the relayer.
+    const values: Record<string, string> = {};
+    try {
+      for (const [name, { handle, type }] of Object.entries(handles)) {
+        values[name] =
+          type === "ebool"
+            ? String(await fhevm.userDecryptEbool(handle, address, relayer))
+            : String(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, relayer));
+      }
+    } catch {
+      results.push({ error: "not granted to the relayer" });
+      continue;
+    }
+    results.push({ values });
+  }
+
+  return sealFor(message.publicKey, JSON.stringify(results));
+}
+
+/**
+ * Answers POSTed RelayRequests over HTTP, one at a time. Browsers call it
+ * from the frontend's origin, so any origin is let through.
+ */
+export function serveAuditRelayer(port: number, handle: (request: RelayRequest) => Promise<RelayResponse>) {
+  let queue = Promise.resolve();
+
+  return createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        res.writeHead(413).end();
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      queue = queue.then(async () => {
+        try {
+          const response = await handle(JSON.parse(body) as RelayRequest);
+          res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(response));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.log(`Refused request: ${message}`);
+          res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: message }));
+        }
+      });
+    });
+  }).listen(port);
+}
@@ -0,0 +1,356 @@
+import type { TransactionResponse } from "ethers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { handleRelayRequest, serveAuditRelayer } from "./AuditRelayer";
+
+/**
+ * System admin and multi-admin governance tasks
+ * =============================================
+ *
+ * Every task takes an optional --address (defaults to the ShadowLedger
+ * deployment) and --signer, the index of the account to send from.
+ *
+ *   npx hardhat --network localhost task:system-admin
+ *   npx hardhat --network localhost task:transfer-system-admin --to 0x...
+ *   npx hardhat --network localhost task:accept-system-admin --signer 1
+ *
+ * Multi-admin mode: 2 of 3 admins must confirm createDepartment, addAuditor,
+ * removeAuditor, createAuditEngagement, revokeAuditEngagement,
+ * setAuditRelayer, transferSystemAdmin and setGovernance
+ *
+ *   npx hardhat --network localhost task:set-governance --admins 0xA,0xB,0xC --threshold 2
+ *   npx hardhat --network localhost task:create-department --name Sales --admin 0x... --signer 1
+ *   npx hardhat --network localhost task:admin-actions
+ *   npx hardhat --network localhost task:confirm-admin-action --id 1 --signer 2
+ *
+ * Pass --admins "" --threshold 0 to set-governance to turn multi-admin mode off.
+ *
+ * Audit engagements give a registered auditor access to some departments'
+ * records within a window, until they expire (dates are ISO strings). The
+ * auditor never holds a decryption grant: records they open, their
+ * calculations and the budgets they evaluate are granted to the audit
+ * relayer, which decrypts them for the auditor only while the engagement is
+ * live.
+ *
+ *   npx hardhat --network localhost task:set-audit-relayer --relayer 0x...
+ *   npx hardhat --network localhost task:create-audit-engagement --auditor 0x... --departments 2,3 \
+ *     --from 2026-01-01 --to 2026-03-31 --expires 2026-06-30
+ *   npx hardhat --network localhost task:revoke-audit-engagement --id 1
+ *   npx hardhat --network localhost task:audit-relayer --port 8787 --signer 5
+ */
+
+async function getShadowLedger(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+
+  const address: string = taskArguments.address ?? (await deployments.get("ShadowLedger")).address;
+  console.log(`ShadowLedger: ${address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer)];
+  if (!signer) {
+    throw new Error(`Argument --signer is not a valid account index`);
+  }
+
+  // Extension and audit functions are served at the ShadowLedger address
+  const ledger = (await ethers.getContractAt("ShadowLedger", address)).connect(signer);
+  const extension = (await ethers.getContractAt("ShadowLedgerExtension", address)).connect(signer);
+  const audit = (await ethers.getContractAt("ShadowLedgerAudit", address)).connect(signer);
+
+  return { address, signer, ledger, extension, audit };
+}
+
+// In multi-admin mode a sensitive call may only add a confirmation; the
+// receipt logs tell which
+async function reportAdminCall(hre: HardhatRuntimeEnvironment, tx: TransactionResponse) {
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+  const iface = (await hre.ethers.getContractFactory("ShadowLedger")).interface;
+  let confirmed = false;
+  for (const log of receipt?.logs ?? []) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "AdminActionConfirmed") {
+      confirmed = true;
+      console.log(`Admin action #${parsed.args.actionId} has ${parsed.args.confirmations} confirmation(s)`);
+    } else if (parsed?.name === "AdminActionExecuted") {
+      console.log(`Admin action #${parsed.args.actionId} executed`);
+    }
+  }
+  if (!confirmed) {
+    console.log("Executed by the system admin");
+  }
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:system-admin
+ */
+task("task:system-admin", "Prints the system admin, the pending nominee and the governance settings")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { extension } = await getShadowLedger(taskArguments, hre);
+
+    const [admins, threshold, epoch] = await extension.getGovernance();
+    console.log(`System admin   : ${await extension.getSystemAdmin()}`);
+    console.log(`Pending admin  : ${await extension.getPendingSystemAdmin()}`);
+    if (threshold === 0n) {
+      console.log("Multi-admin    : off");
+    } else {
+      console.log(`Multi-admin    : ${threshold} of ${admins.length} (epoch ${epoch})`);
+      for (const admin of admins) {
+        console.log(`  ${admin}`);
+      }
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:transfer-system-admin --to 0x...
+ */
+task("task:transfer-system-admin", "Nominates the next system admin; they take over once they accept")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("to", "The nominee, or 0x0000000000000000000000000000000000000000 to withdraw the nomination")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { extension } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await extension.transferSystemAdmin(taskArguments.to));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:accept-system-admin --signer 1
+ */
+task("task:accept-system-admin", "Accepts the system admin role as the pending nominee")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { signer, extension } = await getShadowLedger(taskArguments, hre);
+
+    const tx = await extension.acceptSystemAdmin();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`${signer.address} is now the system admin`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-governance --admins 0xA,0xB,0xC --threshold 2
+ */
+task("task:set-governance", "Sets the governance admins and how many of them must confirm a sensitive call")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("admins", "Comma separated admin addresses; empty to turn multi-admin mode off")
+  .addParam("threshold", "Confirmations required; 0 to turn multi-admin mode off")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const threshold = parseInt(taskArguments.threshold);
+    if (!Number.isInteger(threshold)) {
+      throw new Error(`Argument --threshold is not an integer`);
+    }
+    const admins = (taskArguments.admins as string)
+      .split(",")
+      .map((admin) => admin.trim())
+      .filter((admin) => admin !== "");
+
+    const { extension } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await extension.setGovernance(admins, threshold));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:create-department --name Sales --admin 0x...
+ */
+task("task:create-department", "Creates a department, or confirms its creation in multi-admin mode")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("name", "The department name")
+  .addParam("admin", "The department admin")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ledger } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await ledger.createDepartment(taskArguments.name, taskArguments.admin));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:add-auditor --auditor 0x...
+ */
+task("task:add-auditor", "Adds an auditor, or confirms adding them in multi-admin mode")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("auditor", "The auditor address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ledger } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await ledger.addAuditor(taskArguments.auditor));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:remove-auditor --auditor 0x...
+ */
+task("task:remove-auditor", "Removes an auditor, or confirms removing them in multi-admin mode")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("auditor", "The auditor address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ledger } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await ledger.removeAuditor(taskArguments.auditor));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:admin-actions
+ */
+task("task:admin-actions", "Lists the admin actions proposed in multi-admin mode")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ledger, extension, audit } = await getShadowLedger(taskArguments, hre);
+
+    const [, , epoch] = await extension.getGovernance();
+    const count = await extension.getAdminActionCount();
+    if (count === 0n) {
+      console.log("No admin actions");
+      return;
+    }
+
+    for (let id = 1n; id <= count; id++) {
+      const action = await extension.getAdminAction(id);
+      const call =
+        ledger.interface.parseTransaction({ data: action.data }) ??
+        extension.interface.parseTransaction({ data: action.data }) ??
+        audit.interface.parseTransaction({ data: action.data });
+      const status = action.executed ? "executed" : action.epoch === epoch ? "open" : "lapsed";
+      console.log(
+        `#${id} ${call ? `${call.name}(${call.args.join(", ")})` : action.data} ` +
+          `by ${action.proposer}: ${action.confirmations} confirmation(s), ${status}`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:confirm-admin-action --id 1 --signer 2
+ */
+task("task:confirm-admin-action", "Confirms an open admin action by sending its call again")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("id", "The admin action id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { address, signer, extension } = await getShadowLedger(taskArguments, hre);
+
+    const action = await extension.getAdminAction(taskArguments.id);
+    if (action.executed) {
+      throw new Error(`Admin action #${taskArguments.id} has already been executed`);
+    }
+
+    // A confirmation is the identical call, so the stored calldata is replayed
+    await reportAdminCall(hre, await signer.sendTransaction({ to: address, data: action.data }));
+  });
+
+// Dates are read as UTC; --to covers the whole of its day
+function toTimestamp(value: string, name: string, endOfDay = false) {
+  const millis = Date.parse(endOfDay && !value.includes("T") ? `${value}T23:59:59Z` : value);
+  if (Number.isNaN(millis)) {
+    throw new Error(`Argument --${name} is not a valid date`);
+  }
+  return Math.floor(millis / 1000);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:create-audit-engagement --auditor 0x... --departments 2,3
+ *       --from 2026-01-01 --to 2026-03-31 --expires 2026-06-30
+ */
+task("task:create-audit-engagement", "Gives an auditor access to some departments' records within a period")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("auditor", "The auditor address")
+  .addParam("departments", "Comma separated department ids")
+  .addParam("from", "First day of records covered")
+  .addParam("to", "Last day of records covered")
+  .addParam("expires", "Day the auditor's access ends")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const departmentIds = (taskArguments.departments as string)
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id !== "")
+      .map((id) => BigInt(id));
+    const from = toTimestamp(taskArguments.from, "from");
+    const to = toTimestamp(taskArguments.to, "to", true);
+    const expires = toTimestamp(taskArguments.expires, "expires", true);
+
+    const { audit } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(
+      hre,
+      await audit.createAuditEngagement(taskArguments.auditor, departmentIds, from, to, expires),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:revoke-audit-engagement --id 1
+ */
+task("task:revoke-audit-engagement", "Ends an audit engagement before it expires")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("id", "The engagement id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { audit } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await audit.revokeAuditEngagement(taskArguments.id));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-audit-relayer --relayer 0x...
+ */
+task("task:set-audit-relayer", "Sets the account that decrypts audited values for engagement auditors")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the account to send from", "0")
+  .addParam("relayer", "The relayer address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { audit } = await getShadowLedger(taskArguments, hre);
+
+    await reportAdminCall(hre, await audit.setAuditRelayer(taskArguments.relayer));
+  });
+
+/**
+ * Run as the audit relayer account. Engagement auditors POST signed requests
+ * to it for the values of their records, calculations and budgets; see
+ * tasks/AuditRelayer.ts for the protocol. Runs until stopped.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:audit-relayer --port 8787 --signer 5
+ */
+task("task:audit-relayer", "Decrypts opened values for the auditors of live engagements over HTTP")
+  .addOptionalParam("address", "Optionally specify the ShadowLedger contract address")
+  .addOptionalParam("signer", "Index of the relayer account", "0")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, audit } = await getShadowLedger(taskArguments, hre);
+
+    const relayer = await audit.getAuditRelayer();
+    if (relayer !== signer.address) {
+      console.log(`Warning: the ledger's audit relayer is ${relayer}, not ${signer.address}`);
+    }
+
+    const server = serveAuditRelayer(parseInt(taskArguments.port), (request) =>
+      handleRelayRequest(hre, audit, signer, request),
+    );
+    console.log(`Audit relayer ${signer.address} listening on port ${taskArguments.port}`);
+    await new Promise((resolve) => server.on("close", resolve));
+  });
@@ -1,8 +1,23 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { ethers, fhevm } from "hardhat";
-import { ShadowLedger, ShadowLedger__factory } from "../types";
+import hre, { ethers, fhevm } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import {
+  ShadowLedger,
+  ShadowLedger__factory,
+  ShadowLedgerAudit,
+  ShadowLedgerAudit__factory,
+  ShadowLedgerExtension,
+  ShadowLedgerExtension__factory,
+} from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  createRelayKeyPair,
+  handleRelayRequest,
+  openRelayResponse,
+  RelayItem,
+  RelayRequestMessage,
+} from "../tasks/AuditRelayer";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -12,17 +27,36 @@ type Signers = {
 };
 
 async function deployFixture() {
+  const auditFactory = (await ethers.getContractFactory("ShadowLedgerAudit")) as ShadowLedgerAudit__factory;
+  const audit = (await auditFactory.deploy()) as ShadowLedgerAudit;
+  const extensionFactory = (await ethers.getContractFactory("ShadowLedgerExtension")) as ShadowLedgerExtension__factory;
+  const extension = (await extensionFactory.deploy(await audit.getAddress())) as ShadowLedgerExtension;
   const factory = (await ethers.getContractFactory("ShadowLedger")) as ShadowLedger__factory;
-  const shadowLedgerContract = (await factory.deploy()) as ShadowLedger;
+  const shadowLedgerContract = (await factory.deploy(await extension.getAddress())) as ShadowLedger;
   const shadowLedgerContractAddress = await shadowLedgerContract.getAddress();
+  // Extension functions are reached through the ledger's fallback, at the ledger's address
+  const shadowLedgerExtension = ShadowLedgerExtension__factory.connect(shadowLedgerContractAddress, ethers.provider);
+  // Audit functions sit one hop further, behind the extension's fallback
+  const shadowLedgerAudit = ShadowLedgerAudit__factory.connect(shadowLedgerContractAddress, ethers.provider);
 
-  return { shadowLedgerContract, shadowLedgerContractAddress };
+  return { shadowLedgerContract, shadowLedgerContractAddress, shadowLedgerExtension, shadowLedgerAudit };
+}
+
+// The result handles a calculation transaction computed, read from its receipt
+async function calculationResult(contract: ShadowLedger, tx: ContractTransactionResponse) {
+  const receipt = await tx.wait();
+  const event = receipt!.logs
+    .map((log) => contract.interface.parseLog(log))
+    .find((parsed) => parsed?.name === "CalculationPerformed");
+  return { result: event!.args.result as string, nonNegative: event!.args.nonNegative as string };
 }
 
 describe("ShadowLedger", function () {
   let signers: Signers;
   let shadowLedgerContract: ShadowLedger;
   let shadowLedgerContractAddress: string;
+  let shadowLedgerExtension: ShadowLedgerExtension;
+  let shadowLedgerAudit: ShadowLedgerAudit;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -41,9 +75,47 @@ describe("ShadowLedger", function () {
       this.skip();
     }
 
-    ({ shadowLedgerContract, shadowLedgerContractAddress } = await deployFixture());
+    ({ shadowLedgerContract, shadowLedgerContractAddress, shadowLedgerExtension, shadowLedgerAudit } =
+      await deployFixture());
   });
 
+  // Encrypts clearAmount for signer and books it; waiting for the transaction is left to the caller
+  async function bookRecord(
+    signer: HardhatEthersSigner,
+    recordType: number,
+    clearAmount: number,
+    departmentId: bigint,
+    projectId: bigint = 0n,
+    categoryId: bigint = 0n,
+  ) {
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(shadowLedgerContractAddress, signer.address)
+      .add128(clearAmount)
+      .encrypt();
+
+    return shadowLedgerContract
+      .connect(signer)
+      .createRecord(
+        recordType,
+        encryptedAmount.handles[0],
+        encryptedAmount.inputProof,
+        departmentId,
+        projectId,
+        categoryId,
+        recordType === 0 ? "Income" : "Expense",
+      );
+  }
+
+  async function expectDecryptDenied(signer: HardhatEthersSigner, handle: string) {
+    let error: Error | undefined;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint128, handle, shadowLedgerContractAddress, signer);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.include("is not authorized to user decrypt");
+  }
+
   describe("Department Management", function () {
     it("should create a department", async function () {
       const tx = await shadowLedgerContract
@@ -108,6 +180,224 @@ describe("ShadowLedger", function () {
     });
   });
 
+  describe("Department Administration", function () {
+    const departmentId = 2n;
+
+    beforeEach(async function () {
+      const tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+    });
+
+    it("should hand over the admin role once the nominee accepts", async function () {
+      await (
+        await shadowLedgerExtension.connect(signers.alice).transferDepartmentAdmin(departmentId, signers.bob.address)
+      ).wait();
+      expect(await shadowLedgerExtension.getPendingDepartmentAdmin(departmentId)).to.eq(signers.bob.address);
+      expect((await shadowLedgerContract.getDepartment(departmentId)).admin).to.eq(signers.alice.address);
+
+      await expect(
+        shadowLedgerExtension.connect(signers.charlie).acceptDepartmentAdmin(departmentId),
+      ).to.be.revertedWith("ShadowLedger: only pending admin");
+      await (await shadowLedgerExtension.connect(signers.bob).acceptDepartmentAdmin(departmentId)).wait();
+
+      const department = await shadowLedgerContract.getDepartment(departmentId);
+      expect(department.admin).to.eq(signers.bob.address);
+      expect(department.members).to.include(signers.bob.address);
+      expect(department.members).to.include(signers.alice.address);
+      expect(await shadowLedgerExtension.getPendingDepartmentAdmin(departmentId)).to.eq(ethers.ZeroAddress);
+
+      await expect(
+        shadowLedgerContract.connect(signers.alice).addDepartmentMember(departmentId, signers.charlie.address),
+      ).to.be.revertedWith("ShadowLedger: only department admin");
+      await (
+        await shadowLedgerContract.connect(signers.bob).removeDepartmentMember(departmentId, signers.alice.address)
+      ).wait();
+      expect(await shadowLedgerContract.getUserDepartments(signers.bob.address)).to.include(departmentId);
+    });
+
+    it("should grant the new admin the department's encrypted values", async function () {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(5000)
+        .add128(1000)
+        .add128(2000)
+        .encrypt();
+      const extension = shadowLedgerExtension.connect(signers.alice);
+      let tx = await extension.setBudget(departmentId, 0, encryptedValues.handles[0], encryptedValues.inputProof);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.alice).addDepartmentMember(departmentId, signers.bob.address);
+      await tx.wait();
+      tx = await extension.setApprovalPolicy(
+        departmentId,
+        encryptedValues.handles[1],
+        encryptedValues.inputProof,
+        [signers.bob.address],
+        1,
+      );
+      await tx.wait();
+      tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .createRecord(1, encryptedValues.handles[2], encryptedValues.inputProof, departmentId, 0, 0, "Expense");
+      await tx.wait();
+
+      await (await extension.transferDepartmentAdmin(departmentId, signers.charlie.address)).wait();
+      await (await shadowLedgerExtension.connect(signers.charlie).acceptDepartmentAdmin(departmentId)).wait();
+
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint128, handle, shadowLedgerContractAddress, signers.charlie);
+      const budget = await shadowLedgerExtension.connect(signers.charlie).getBudget(departmentId, 0);
+      expect(await decrypt(budget.amount)).to.eq(5000n);
+      expect(await decrypt(budget.spent)).to.eq(0n);
+      const policy = await shadowLedgerExtension.connect(signers.charlie).getApprovalPolicy(departmentId);
+      expect(await decrypt(policy.threshold)).to.eq(1000n);
+
+      // Record handles follow a page at a time
+      await expect(extension.grantDepartmentRecords(departmentId, 0, 10)).to.be.revertedWith(
+        "ShadowLedger: only department admin",
+      );
+      tx = await shadowLedgerExtension.connect(signers.charlie).grantDepartmentRecords(departmentId, 0, 10);
+      await tx.wait();
+      const record = await shadowLedgerContract.connect(signers.charlie).getRecord(1);
+      expect(await decrypt(record.amount)).to.eq(2000n);
+    });
+
+    it("should let only the system admin override the department admin", async function () {
+      await expect(
+        shadowLedgerExtension.connect(signers.bob).overrideDepartmentAdmin(departmentId, signers.bob.address),
+      ).to.be.revertedWith("ShadowLedger: only system admin");
+
+      await (
+        await shadowLedgerExtension.connect(signers.alice).transferDepartmentAdmin(departmentId, signers.bob.address)
+      ).wait();
+      await (
+        await shadowLedgerExtension
+          .connect(signers.deployer)
+          .overrideDepartmentAdmin(departmentId, signers.charlie.address)
+      ).wait();
+
+      expect((await shadowLedgerContract.getDepartment(departmentId)).admin).to.eq(signers.charlie.address);
+      // The override also drops the pending nomination
+      await expect(shadowLedgerExtension.connect(signers.bob).acceptDepartmentAdmin(departmentId)).to.be.revertedWith(
+        "ShadowLedger: only pending admin",
+      );
+    });
+
+    it("should let the department admin or system admin rename the department", async function () {
+      await (await shadowLedgerExtension.connect(signers.alice).renameDepartment(departmentId, "R&D")).wait();
+      expect((await shadowLedgerContract.getDepartment(departmentId)).name).to.eq("R&D");
+
+      await (await shadowLedgerExtension.connect(signers.deployer).renameDepartment(departmentId, "Research")).wait();
+      expect((await shadowLedgerContract.getDepartment(departmentId)).name).to.eq("Research");
+
+      await expect(
+        shadowLedgerExtension.connect(signers.bob).renameDepartment(departmentId, "Mine"),
+      ).to.be.revertedWith("ShadowLedger: only department admin or system admin");
+    });
+
+    it("should reject new records in an archived department but keep it in calculations", async function () {
+      await (await bookRecord(signers.alice, 0, 300, departmentId)).wait();
+
+      await expect(shadowLedgerExtension.connect(signers.alice).archiveDepartment(departmentId)).to.be.revertedWith(
+        "ShadowLedger: only system admin",
+      );
+      await (await shadowLedgerExtension.connect(signers.deployer).archiveDepartment(departmentId)).wait();
+      expect((await shadowLedgerContract.getDepartment(departmentId)).archived).to.eq(true);
+
+      await expect(bookRecord(signers.alice, 0, 100, departmentId)).to.be.revertedWith(
+        "ShadowLedger: department archived",
+      );
+      await expect(
+        shadowLedgerExtension.connect(signers.alice).createProject(departmentId, "Apollo", ethers.ZeroAddress),
+      ).to.be.revertedWith("ShadowLedger: department archived");
+
+      await (
+        await shadowLedgerContract.connect(signers.alice).calculateTotalIncome([departmentId], 0, 0, 0, 0, false)
+      ).wait();
+      const calculation = await shadowLedgerAudit.connect(signers.alice).getCalculation(1);
+      const total = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        calculation.result,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(total).to.eq(300);
+    });
+  });
+
+  describe("System Administration", function () {
+    it("should hand over the system admin role once the nominee accepts", async function () {
+      expect(await shadowLedgerExtension.getSystemAdmin()).to.eq(signers.deployer.address);
+
+      await (await shadowLedgerExtension.connect(signers.deployer).transferSystemAdmin(signers.alice.address)).wait();
+      expect(await shadowLedgerExtension.getPendingSystemAdmin()).to.eq(signers.alice.address);
+      await expect(shadowLedgerExtension.connect(signers.bob).acceptSystemAdmin()).to.be.revertedWith(
+        "ShadowLedger: only pending admin",
+      );
+
+      await (await shadowLedgerExtension.connect(signers.alice).acceptSystemAdmin()).wait();
+      expect(await shadowLedgerExtension.getSystemAdmin()).to.eq(signers.alice.address);
+      expect(await shadowLedgerExtension.getPendingSystemAdmin()).to.eq(ethers.ZeroAddress);
+
+      await expect(
+        shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address),
+      ).to.be.revertedWith("ShadowLedger: only system admin");
+      await (await shadowLedgerContract.connect(signers.alice).createDepartment("Sales", signers.bob.address)).wait();
+      expect(await shadowLedgerContract.getDepartmentCount()).to.eq(2);
+    });
+
+    it("should require M of N confirmations for sensitive calls in multi-admin mode", async function () {
+      const admins = [signers.alice.address, signers.bob.address, signers.charlie.address];
+      await (await shadowLedgerExtension.connect(signers.deployer).setGovernance(admins, 2)).wait();
+
+      const governance = await shadowLedgerExtension.getGovernance();
+      expect(governance.admins).to.deep.eq(admins);
+      expect(governance.threshold).to.eq(2);
+
+      await expect(
+        shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address),
+      ).to.be.revertedWith("ShadowLedger: only governance admin");
+
+      await (await shadowLedgerContract.connect(signers.alice).createDepartment("Sales", signers.bob.address)).wait();
+      expect(await shadowLedgerContract.getDepartmentCount()).to.eq(1);
+      await expect(
+        shadowLedgerContract.connect(signers.alice).createDepartment("Sales", signers.bob.address),
+      ).to.be.revertedWith("ShadowLedger: already confirmed");
+
+      await (await shadowLedgerContract.connect(signers.bob).createDepartment("Sales", signers.bob.address)).wait();
+      expect(await shadowLedgerContract.getDepartmentCount()).to.eq(2);
+
+      const action = await shadowLedgerExtension.getAdminAction(1);
+      expect(action.proposer).to.eq(signers.alice.address);
+      expect(action.confirmations).to.eq(2);
+      expect(action.executed).to.eq(true);
+      expect(await shadowLedgerExtension.hasConfirmedAdminAction(1, signers.bob.address)).to.eq(true);
+    });
+
+    it("should drop pending confirmations when the admin set changes", async function () {
+      const admins = [signers.alice.address, signers.bob.address, signers.charlie.address];
+      await (await shadowLedgerExtension.connect(signers.deployer).setGovernance(admins, 2)).wait();
+
+      await (await shadowLedgerContract.connect(signers.alice).addAuditor(signers.deployer.address)).wait();
+
+      const reduced = [signers.alice.address, signers.bob.address];
+      await (await shadowLedgerExtension.connect(signers.alice).setGovernance(reduced, 2)).wait();
+      await (await shadowLedgerExtension.connect(signers.bob).setGovernance(reduced, 2)).wait();
+      expect((await shadowLedgerExtension.getGovernance()).admins).to.deep.eq(reduced);
+
+      // Alice's earlier confirmation belongs to the previous epoch
+      await (await shadowLedgerContract.connect(signers.bob).addAuditor(signers.deployer.address)).wait();
+      expect(await shadowLedgerContract.isAuditor(signers.deployer.address)).to.eq(false);
+
+      await expect(
+        shadowLedgerContract.connect(signers.charlie).addAuditor(signers.deployer.address),
+      ).to.be.revertedWith("ShadowLedger: only governance admin");
+      await (await shadowLedgerContract.connect(signers.alice).addAuditor(signers.deployer.address)).wait();
+      expect(await shadowLedgerContract.isAuditor(signers.deployer.address)).to.eq(true);
+    });
+  });
+
   describe("Record Management", function () {
     let departmentId: bigint;
 
@@ -140,6 +430,7 @@ describe("ShadowLedger", function () {
           encryptedAmount.inputProof,
           departmentId,
           0, // no project
+          0, // uncategorized
           "Test income"
         );
       const receipt = await tx.wait();
@@ -169,6 +460,7 @@ describe("ShadowLedger", function () {
           encryptedAmount.inputProof,
           departmentId,
           0,
+          0,
           "Test expense"
         );
       await tx.wait();
@@ -188,7 +480,7 @@ describe("ShadowLedger", function () {
 
       let tx = await shadowLedgerContract
         .connect(signers.alice)
-        .createRecord(0, encryptedAmount1.handles[0], encryptedAmount1.inputProof, departmentId, 0, "Income 1");
+        .createRecord(0, encryptedAmount1.handles[0], encryptedAmount1.inputProof, departmentId, 0, 0, "Income 1");
       await tx.wait();
 
       const clearAmount2 = 2000;
@@ -199,7 +491,7 @@ describe("ShadowLedger", function () {
 
       tx = await shadowLedgerContract
         .connect(signers.alice)
-        .createRecord(0, encryptedAmount2.handles[0], encryptedAmount2.inputProof, departmentId, 0, "Income 2");
+        .createRecord(0, encryptedAmount2.handles[0], encryptedAmount2.inputProof, departmentId, 0, 0, "Income 2");
       await tx.wait();
 
       const records = await shadowLedgerContract.getDepartmentRecords(departmentId, 0, 10);
@@ -220,9 +512,274 @@ describe("ShadowLedger", function () {
       await expect(
         shadowLedgerContract
           .connect(signers.bob)
-          .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId, 0, "Test")
+          .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId, 0, 0, "Test")
       ).to.be.revertedWith("ShadowLedger: only department member");
     });
+
+    it("should create a batch of records from one input proof", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1000)
+        .add128(250)
+        .add128(75)
+        .encrypt();
+      const entries = [
+        { recordType: 0, departmentId, projectId: 0, categoryId: 0, description: "Invoice 1" },
+        { recordType: 1, departmentId, projectId: 0, categoryId: 0, description: "Rent" },
+        { recordType: 1, departmentId, projectId: 0, categoryId: 0, description: "Supplies" },
+      ];
+
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const recordIds = await contract.createRecords.staticCall(entries, encrypted.handles, encrypted.inputProof);
+      expect(recordIds).to.deep.eq([1n, 2n, 3n]);
+      await (await contract.createRecords(entries, encrypted.handles, encrypted.inputProof)).wait();
+
+      expect(await shadowLedgerContract.getRecordCount()).to.eq(3n);
+      const views = await shadowLedgerExtension.connect(signers.alice).getRecords([1, 2, 3]);
+      expect(views.map((view) => view.record.description)).to.deep.eq(["Invoice 1", "Rent", "Supplies"]);
+      expect(views.map((view) => view.record.recordType)).to.deep.eq([0n, 1n, 1n]);
+
+      const rent = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        views[1].record.amount,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(rent).to.eq(250);
+    });
+
+    it("should reject a batch that is empty, mismatched or touches a foreign department", async function () {
+      await (
+        await shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address)
+      ).wait();
+      const encrypted = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1000)
+        .add128(250)
+        .encrypt();
+      const own = { recordType: 0, departmentId, projectId: 0, categoryId: 0, description: "Invoice" };
+      const foreign = { ...own, departmentId: 3n };
+
+      const contract = shadowLedgerContract.connect(signers.alice);
+      await expect(contract.createRecords([], [], encrypted.inputProof)).to.be.revertedWith(
+        "ShadowLedger: empty batch",
+      );
+      await expect(contract.createRecords([own], encrypted.handles, encrypted.inputProof)).to.be.revertedWith(
+        "ShadowLedger: length mismatch",
+      );
+      await expect(contract.createRecords([own, foreign], encrypted.handles, encrypted.inputProof)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+      expect(await shadowLedgerContract.getRecordCount()).to.eq(0n);
+    });
+  });
+
+  describe("Record Corrections", function () {
+    const departmentId = 2n;
+
+    beforeEach(async function () {
+      const tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+
+      await (await bookRecord(signers.alice, 0, 1000, departmentId)).wait();
+    });
+
+    it("should amend a record with a linked entry", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1200)
+        .encrypt();
+
+      await expect(
+        shadowLedgerContract
+          .connect(signers.alice)
+          .amendRecord(1, encryptedAmount.handles[0], encryptedAmount.inputProof, "Typo fix"),
+      )
+        .to.emit(shadowLedgerContract, "RecordCorrected")
+        .withArgs(2, 1, 1, signers.alice.address); // EntryKind.Amendment
+
+      const original = await shadowLedgerContract.connect(signers.alice).getRecordCorrection(1);
+      expect(original[0]).to.eq(0); // EntryKind.Original
+      expect(original[2]).to.eq(2n); // correctedByRecordId
+
+      const amendment = await shadowLedgerContract.connect(signers.alice).getRecord(2);
+      const clearAmount = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        amendment[2],
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(clearAmount).to.eq(1200n);
+      expect(amendment[3]).to.eq(departmentId);
+    });
+
+    it("should reverse a record with the original amount", async function () {
+      await expect(shadowLedgerContract.connect(signers.alice).reverseRecord(1, "Duplicate entry"))
+        .to.emit(shadowLedgerContract, "RecordCorrected")
+        .withArgs(2, 1, 2, signers.alice.address); // EntryKind.Reversal
+
+      const original = await shadowLedgerContract.connect(signers.alice).getRecord(1);
+      const reversal = await shadowLedgerContract.connect(signers.alice).getRecord(2);
+      expect(reversal[2]).to.eq(original[2]);
+    });
+
+    it("should return the whole correction chain from any entry", async function () {
+      let encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1200)
+        .encrypt();
+      let tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .amendRecord(1, encryptedAmount.handles[0], encryptedAmount.inputProof, "First fix");
+      await tx.wait();
+
+      encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1100)
+        .encrypt();
+      tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .amendRecord(2, encryptedAmount.handles[0], encryptedAmount.inputProof, "Second fix");
+      await tx.wait();
+
+      expect(await shadowLedgerContract.connect(signers.alice).getCorrectionChain(1)).to.deep.eq([1n, 2n, 3n]);
+      expect(await shadowLedgerContract.connect(signers.alice).getCorrectionChain(3)).to.deep.eq([1n, 2n, 3n]);
+    });
+
+    it("should only allow correcting the latest entry of a chain", async function () {
+      const tx = await shadowLedgerContract.connect(signers.alice).reverseRecord(1, "Duplicate entry");
+      await tx.wait();
+
+      await expect(shadowLedgerContract.connect(signers.alice).reverseRecord(1, "Again")).to.be.revertedWith(
+        "ShadowLedger: record already corrected",
+      );
+      await expect(shadowLedgerContract.connect(signers.alice).reverseRecord(2, "Undo")).to.be.revertedWith(
+        "ShadowLedger: cannot correct reversal",
+      );
+    });
+
+    it("should not allow other members to correct a record", async function () {
+      const tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .addDepartmentMember(departmentId, signers.bob.address);
+      await tx.wait();
+
+      await expect(shadowLedgerContract.connect(signers.bob).reverseRecord(1, "Not mine")).to.be.revertedWith(
+        "ShadowLedger: only creator or department admin",
+      );
+    });
+  });
+
+  describe("Record Indexes", function () {
+    const engineeringId = 2n;
+    const salesId = 3n;
+
+    async function engageAuditor(auditor: HardhatEthersSigner, departmentIds: bigint[]) {
+      let tx = await shadowLedgerContract.connect(signers.deployer).addAuditor(auditor.address);
+      await tx.wait();
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(auditor.address, departmentIds, 0, now, now + 3600);
+      await tx.wait();
+    }
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address);
+      await tx.wait();
+      tx = await shadowLedgerExtension
+        .connect(signers.alice)
+        .createProject(engineeringId, "Apollo", ethers.ZeroAddress);
+      await tx.wait();
+
+      // Records 1-5 alternate between the departments; 1 and 5 belong to the project
+      await (await bookRecord(signers.alice, 0, 100, engineeringId, 1n)).wait();
+      await (await bookRecord(signers.bob, 0, 100, salesId)).wait();
+      await (await bookRecord(signers.alice, 0, 100, engineeringId)).wait();
+      await (await bookRecord(signers.bob, 0, 100, salesId)).wait();
+      await (await bookRecord(signers.alice, 0, 100, engineeringId, 1n)).wait();
+    });
+
+    it("should page department records from the index", async function () {
+      const asAlice = shadowLedgerContract.connect(signers.alice);
+      expect(await shadowLedgerExtension.connect(signers.alice).getDepartmentRecordCount(engineeringId)).to.eq(3);
+      expect(await asAlice.getDepartmentRecords(engineeringId, 0, 2)).to.deep.eq([1n, 3n]);
+      expect(await asAlice.getDepartmentRecords(engineeringId, 2, 2)).to.deep.eq([5n]);
+      expect(await asAlice.getDepartmentRecords(engineeringId, 3, 2)).to.deep.eq([]);
+
+      await expect(asAlice.getDepartmentRecords(salesId, 0, 10)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+      await expect(shadowLedgerExtension.connect(signers.alice).getDepartmentRecordCount(salesId)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+    });
+
+    it("should page project and creator records", async function () {
+      const asAlice = shadowLedgerExtension.connect(signers.alice);
+      expect(await asAlice.getProjectRecordCount(1)).to.eq(2);
+      expect(await asAlice.getProjectRecords(1, 1, 10)).to.deep.eq([5n]);
+      expect(await asAlice.getCreatorRecordCount(signers.alice.address)).to.eq(3);
+      expect(await asAlice.getCreatorRecords(signers.alice.address, 0, 10)).to.deep.eq([1n, 3n, 5n]);
+
+      const asBob = shadowLedgerExtension.connect(signers.bob);
+      await expect(asBob.getProjectRecords(1, 0, 10)).to.be.revertedWith("ShadowLedger: access denied");
+      await expect(asBob.getCreatorRecords(signers.alice.address, 0, 10)).to.be.revertedWith(
+        "ShadowLedger: access denied",
+      );
+      await expect(asBob.getProjectRecordCount(2)).to.be.revertedWith("ShadowLedger: invalid project");
+
+      // Auditors read the projects and creator records of their engagements' departments only
+      await engageAuditor(signers.bob, [salesId]);
+      await expect(asBob.getProjectRecords(1, 0, 10)).to.be.revertedWith("ShadowLedger: access denied");
+      expect(await asBob.getCreatorRecordCount(signers.alice.address)).to.eq(0);
+
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(signers.bob.address, [engineeringId], 0, now, now + 3600);
+      await tx.wait();
+      expect(await asBob.getProjectRecords(1, 0, 10)).to.deep.eq([1n, 5n]);
+      expect(await asBob.getCreatorRecordCount(signers.alice.address)).to.eq(3);
+      expect(await asBob.getCreatorRecords(signers.alice.address, 1, 10)).to.deep.eq([3n, 5n]);
+    });
+
+    it("should read a batch of records, skipping those the caller cannot see", async function () {
+      const views = await shadowLedgerExtension.connect(signers.alice).getRecords([1, 2, 3, 99, 5]);
+      expect(views.map((view) => view.record.id)).to.deep.eq([1n, 3n, 5n]);
+      expect(views[0].record.departmentId).to.eq(engineeringId);
+      expect(views[0].record.projectId).to.eq(1);
+      expect(views[0].record.creator).to.eq(signers.alice.address);
+      expect(views[0].approvalStatus).to.eq(0);
+
+      const amount = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        views[1].record.amount,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(amount).to.eq(100);
+
+      expect(await shadowLedgerExtension.connect(signers.charlie).getRecords([1, 2])).to.deep.eq([]);
+      await engageAuditor(signers.charlie, [salesId]);
+      const asAuditor = await shadowLedgerExtension.connect(signers.charlie).getRecords([1, 2]);
+      expect(asAuditor.map((view) => view.record.id)).to.deep.eq([2n]);
+    });
+
+    it("should page all records in the auditor's engagements", async function () {
+      await engageAuditor(signers.charlie, [salesId]);
+
+      const asAuditor = shadowLedgerContract.connect(signers.charlie);
+      expect(await asAuditor.getAllRecords(0, 2)).to.deep.eq([2n]);
+      expect(await asAuditor.getAllRecords(3, 10)).to.deep.eq([4n]);
+      expect(await asAuditor.getAllRecords(5, 10)).to.deep.eq([]);
+    });
   });
 
   describe("Cross-Department Calculations", function () {
@@ -243,7 +800,12 @@ describe("ShadowLedger", function () {
       await tx.wait();
       departmentId2 = 3n;
 
-      // Alice is already admin of departmentId1, so no need to add
+      // Alice is admin of departmentId1; rolling up both departments also
+      // needs membership of departmentId2 and a rollup grant
+      tx = await shadowLedgerContract.connect(signers.bob).addDepartmentMember(departmentId2, signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerExtension.connect(signers.deployer).grantRollupAccess(signers.alice.address);
+      await tx.wait();
 
       // Create income records for department 1
       const clearAmount1 = 1000;
@@ -254,7 +816,7 @@ describe("ShadowLedger", function () {
 
       tx = await shadowLedgerContract
         .connect(signers.alice)
-        .createRecord(0, encryptedAmount1.handles[0], encryptedAmount1.inputProof, departmentId1, 0, "Income 1");
+        .createRecord(0, encryptedAmount1.handles[0], encryptedAmount1.inputProof, departmentId1, 0, 0, "Income 1");
       await tx.wait();
 
       // Create income records for department 2
@@ -266,13 +828,17 @@ describe("ShadowLedger", function () {
 
       tx = await shadowLedgerContract
         .connect(signers.bob)
-        .createRecord(0, encryptedAmount2.handles[0], encryptedAmount2.inputProof, departmentId2, 0, "Income 2");
+        .createRecord(0, encryptedAmount2.handles[0], encryptedAmount2.inputProof, departmentId2, 0, 0, "Income 2");
       await tx.wait();
     });
 
     it("should calculate total income across departments", async function () {
       const departmentIds = [departmentId1, departmentId2];
-      const result = await shadowLedgerContract.calculateTotalIncome(departmentIds, 0);
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const { result } = await calculationResult(
+        contract,
+        await contract.calculateTotalIncome(departmentIds, 0, 0, 0, 0, false),
+      );
 
       // Decrypt result
       const clearResult = await fhevm.userDecryptEuint(
@@ -295,7 +861,7 @@ describe("ShadowLedger", function () {
 
       let tx = await shadowLedgerContract
         .connect(signers.alice)
-        .createRecord(1, encryptedAmount1.handles[0], encryptedAmount1.inputProof, departmentId1, 0, "Expense 1");
+        .createRecord(1, encryptedAmount1.handles[0], encryptedAmount1.inputProof, departmentId1, 0, 0, "Expense 1");
       await tx.wait();
 
       const clearAmount2 = 300;
@@ -306,11 +872,15 @@ describe("ShadowLedger", function () {
 
       tx = await shadowLedgerContract
         .connect(signers.bob)
-        .createRecord(1, encryptedAmount2.handles[0], encryptedAmount2.inputProof, departmentId2, 0, "Expense 2");
+        .createRecord(1, encryptedAmount2.handles[0], encryptedAmount2.inputProof, departmentId2, 0, 0, "Expense 2");
       await tx.wait();
 
       const departmentIds = [departmentId1, departmentId2];
-      const result = await shadowLedgerContract.calculateTotalExpense(departmentIds, 0);
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const { result } = await calculationResult(
+        contract,
+        await contract.calculateTotalExpense(departmentIds, 0, 0, 0, 0, false),
+      );
 
       const clearResult = await fhevm.userDecryptEuint(
         FhevmType.euint128,
@@ -330,81 +900,1621 @@ describe("ShadowLedger", function () {
         .add128(clearAmount)
         .encrypt();
 
-      let tx = await shadowLedgerContract
+      const tx = await shadowLedgerContract
         .connect(signers.alice)
-        .createRecord(1, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId1, 0, "Expense");
+        .createRecord(1, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId1, 0, 0, "Expense");
       await tx.wait();
 
       const departmentIds = [departmentId1];
-      const result = await shadowLedgerContract.calculateNetIncome(departmentIds, 0);
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const { result: magnitude, nonNegative } = await calculationResult(
+        contract,
+        await contract.calculateNetIncome(departmentIds, 0, 0, 0),
+      );
 
       const clearResult = await fhevm.userDecryptEuint(
         FhevmType.euint128,
-        result,
+        magnitude,
         shadowLedgerContractAddress,
         signers.alice,
       );
 
       expect(clearResult).to.eq(500n); // 1000 - 500
+      expect(await fhevm.userDecryptEbool(nonNegative, shadowLedgerContractAddress, signers.alice)).to.eq(true);
     });
-  });
 
-  describe("Audit Management", function () {
-    it("should add auditor", async function () {
+    it("should return a loss as a magnitude with a negative sign", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1600)
+        .encrypt();
+
       const tx = await shadowLedgerContract
-        .connect(signers.deployer)
-        .addAuditor(signers.charlie.address);
+        .connect(signers.alice)
+        .createRecord(1, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId1, 0, 0, "Expense");
       await tx.wait();
 
-      const isAuditor = await shadowLedgerContract.isAuditor(signers.charlie.address);
-      expect(isAuditor).to.be.true;
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const { result: magnitude, nonNegative } = await calculationResult(
+        contract,
+        await contract.calculateNetIncome([departmentId1], 0, 0, 0),
+      );
+
+      const clearMagnitude = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        magnitude,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(clearMagnitude).to.eq(600n); // 1000 - 1600
+      expect(await fhevm.userDecryptEbool(nonNegative, shadowLedgerContractAddress, signers.alice)).to.eq(false);
     });
 
-    it("should remove auditor", async function () {
-      // Add auditor first
+    it("should reject a period that ends before it starts", async function () {
+      await expect(
+        shadowLedgerContract.connect(signers.alice).calculateTotalIncome([departmentId1], 0, 0, 200, 100, false),
+      ).to.be.revertedWith("ShadowLedger: invalid period");
+    });
+
+    it("should keep calculation gas flat as records grow", async function () {
+      const departmentIds = [departmentId1, departmentId2];
+
+      // The first stored calculation pays for initializing the history counters
       let tx = await shadowLedgerContract
-        .connect(signers.deployer)
-        .addAuditor(signers.charlie.address);
+        .connect(signers.alice)
+        .calculateTotalIncome([departmentId1], 0, 0, 0, 0, false);
       await tx.wait();
 
-      // Remove auditor
-      tx = await shadowLedgerContract
-        .connect(signers.deployer)
-        .removeAuditor(signers.charlie.address);
-      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.alice).calculateTotalIncome(departmentIds, 0, 0, 0, 0, false);
+      const gasBefore = (await tx.wait())!.gasUsed;
 
-      const isAuditor = await shadowLedgerContract.isAuditor(signers.charlie.address);
-      expect(isAuditor).to.be.false;
+      for (const name of ["Alpha", "Beta"]) {
+        tx = await shadowLedgerExtension.connect(signers.alice).createProject(departmentId1, name, ethers.ZeroAddress);
+        await tx.wait();
+      }
+
+      for (let i = 0; i < 10; i++) {
+        const encryptedAmount = await fhevm
+          .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+          .add128(100 + i)
+          .encrypt();
+
+        tx = await shadowLedgerContract
+          .connect(signers.alice)
+          .createRecord(i % 2, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId1, i % 3, 0, "Bulk");
+        await tx.wait();
+      }
+
+      tx = await shadowLedgerContract.connect(signers.alice).calculateTotalIncome(departmentIds, 0, 0, 0, 0, false);
+      const gasAfter = (await tx.wait())!.gasUsed;
+
+      // Reading a period costs the same however many records it holds
+      expect(gasAfter).to.eq(gasBefore);
     });
+  });
 
-    it("should allow auditor to view all records", async function () {
-      // Create department and record
+  describe("Projects", function () {
+    const departmentId = 2n;
+    const projectId = 1n;
+
+    beforeEach(async function () {
       let tx = await shadowLedgerContract
         .connect(signers.deployer)
         .createDepartment("Engineering", signers.alice.address);
       await tx.wait();
 
-      const clearAmount = 1000;
-      const encryptedAmount = await fhevm
-        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
-        .add128(clearAmount)
-        .encrypt();
-
-      tx = await shadowLedgerContract
+      tx = await shadowLedgerExtension
         .connect(signers.alice)
-        .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, 2n, 0, "Test");
-      await tx.wait();
-
-      // Add auditor
-      tx = await shadowLedgerContract
-        .connect(signers.deployer)
-        .addAuditor(signers.charlie.address);
+        .createProject(departmentId, "Apollo", signers.bob.address);
       await tx.wait();
+    });
 
-      // Auditor should be able to get all records
-      const records = await shadowLedgerContract.connect(signers.charlie).getAllRecords(0, 10);
-      expect(records.length).to.be.greaterThan(0);
+    it("should register a project with its department and manager", async function () {
+      const project = await shadowLedgerExtension.getProject(projectId);
+      expect(project.name).to.eq("Apollo");
+      expect(project.departmentId).to.eq(departmentId);
+      expect(project.manager).to.eq(signers.bob.address);
+      expect(project.archived).to.eq(false);
+      expect(await shadowLedgerExtension.getProjectCount()).to.eq(1n);
+    });
+
+    it("should let the project manager rename the project", async function () {
+      await expect(shadowLedgerExtension.connect(signers.bob).renameProject(projectId, "Artemis"))
+        .to.emit(shadowLedgerContract, "ProjectRenamed")
+        .withArgs(projectId, "Artemis");
+
+      await expect(
+        shadowLedgerExtension.connect(signers.charlie).renameProject(projectId, "Gemini"),
+      ).to.be.revertedWith("ShadowLedger: only department admin or project manager");
+    });
+
+    it("should reject records for unknown or foreign projects", async function () {
+      let tx = await shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.alice.address);
+      await tx.wait();
+
+      await expect(bookRecord(signers.alice, 0, 100, departmentId, 42n)).to.be.revertedWith(
+        "ShadowLedger: invalid project",
+      );
+      await expect(bookRecord(signers.alice, 0, 100, 3n, projectId)).to.be.revertedWith(
+        "ShadowLedger: project not in department",
+      );
+
+      tx = await bookRecord(signers.alice, 0, 100, departmentId, projectId);
+      await tx.wait();
+    });
+
+    it("should reject records for archived projects", async function () {
+      await expect(shadowLedgerExtension.connect(signers.bob).archiveProject(projectId)).to.be.revertedWith(
+        "ShadowLedger: only department admin",
+      );
+
+      const tx = await shadowLedgerExtension.connect(signers.alice).archiveProject(projectId);
+      await tx.wait();
+
+      await expect(bookRecord(signers.alice, 0, 100, departmentId, projectId)).to.be.revertedWith(
+        "ShadowLedger: project archived",
+      );
+    });
+  });
+
+  describe("Chart of Accounts", function () {
+    const departmentId = 2n;
+    const travelId = 1n;
+    const flightsId = 2n;
+    const suppliesId = 3n;
+
+    async function expenseFor(categoryId: bigint) {
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const handle = await contract.calculateTotalExpense.staticCall([departmentId], 0, categoryId, 0, 0, false);
+      const tx = await contract.calculateTotalExpense([departmentId], 0, categoryId, 0, 0, false);
+      await tx.wait();
+
+      return fhevm.userDecryptEuint(FhevmType.euint128, handle, shadowLedgerContractAddress, signers.alice);
+    }
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+
+      tx = await shadowLedgerExtension.connect(signers.deployer).createCategory("Travel", 0, 1);
+      await tx.wait();
+      tx = await shadowLedgerExtension.connect(signers.deployer).createCategory("Flights", travelId, 1);
+      await tx.wait();
+      tx = await shadowLedgerExtension.connect(signers.deployer).createCategory("Supplies", 0, 1);
+      await tx.wait();
+    });
+
+    it("should build a category hierarchy", async function () {
+      const flights = await shadowLedgerExtension.getCategory(flightsId);
+      expect(flights.name).to.eq("Flights");
+      expect(flights.parentId).to.eq(travelId);
+      expect(flights.recordType).to.eq(1n);
+      expect(await shadowLedgerExtension.getCategoryCount()).to.eq(3n);
+    });
+
+    it("should roll subcategory totals up into their parents", async function () {
+      await (await bookRecord(signers.alice, 1, 300, departmentId, 0n, flightsId)).wait();
+      await (await bookRecord(signers.alice, 1, 200, departmentId, 0n, travelId)).wait();
+      await (await bookRecord(signers.alice, 1, 100, departmentId, 0n, suppliesId)).wait();
+
+      expect(await expenseFor(flightsId)).to.eq(300n);
+      expect(await expenseFor(travelId)).to.eq(500n);
+      expect(await expenseFor(suppliesId)).to.eq(100n);
+      expect(await expenseFor(0n)).to.eq(600n);
+    });
+
+    it("should keep the category of an amended record", async function () {
+      await (await bookRecord(signers.alice, 1, 300, departmentId, 0n, flightsId)).wait();
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(250)
+        .encrypt();
+      const tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .amendRecord(1, encryptedAmount.handles[0], encryptedAmount.inputProof, "Refund on fare");
+      await tx.wait();
+
+      const amendment = await shadowLedgerContract.connect(signers.alice).getRecord(2);
+      expect(amendment.categoryId).to.eq(flightsId);
+      expect(await expenseFor(travelId)).to.eq(250n);
+    });
+
+    it("should reject categories that do not match the record type", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(100)
+        .encrypt();
+
+      await expect(
+        shadowLedgerContract
+          .connect(signers.alice)
+          .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, departmentId, 0, travelId, "Income"),
+      ).to.be.revertedWith("ShadowLedger: category type mismatch");
+      await expect(
+        shadowLedgerContract.connect(signers.alice).calculateTotalIncome([departmentId], 0, travelId, 0, 0, false),
+      ).to.be.revertedWith("ShadowLedger: category type mismatch");
+      await expect(
+        shadowLedgerExtension.connect(signers.deployer).createCategory("Sales", travelId, 0),
+      ).to.be.revertedWith("ShadowLedger: category type mismatch");
+    });
+
+    it("should restrict the chart of accounts to the system admin", async function () {
+      await expect(
+        shadowLedgerExtension.connect(signers.alice).createCategory("Meals", travelId, 1),
+      ).to.be.revertedWith("ShadowLedger: only system admin");
+    });
+  });
+
+  describe("Budgets", function () {
+    const departmentId = 2n;
+
+    async function setBudget(clearAmount: number, projectId: number = 0) {
+      const encryptedBudget = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(clearAmount)
+        .encrypt();
+
+      const tx = await shadowLedgerExtension
+        .connect(signers.alice)
+        .setBudget(departmentId, projectId, encryptedBudget.handles[0], encryptedBudget.inputProof);
+      await tx.wait();
+    }
+
+    async function decryptBudget(signer: HardhatEthersSigner, projectId: number = 0) {
+      const budget = await shadowLedgerExtension.connect(signer).getBudget(departmentId, projectId);
+      return {
+        amount: await fhevm.userDecryptEuint(FhevmType.euint128, budget[0], shadowLedgerContractAddress, signer),
+        spent: await fhevm.userDecryptEuint(FhevmType.euint128, budget[1], shadowLedgerContractAddress, signer),
+        remaining: await fhevm.userDecryptEuint(FhevmType.euint128, budget[2], shadowLedgerContractAddress, signer),
+        overBudget: await fhevm.userDecryptEbool(budget[3], shadowLedgerContractAddress, signer),
+      };
+    }
+
+    beforeEach(async function () {
+      const tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+    });
+
+    it("should report remaining budget while under budget", async function () {
+      await (await bookRecord(signers.alice, 1, 300, departmentId)).wait();
+      await setBudget(1000);
+
+      const budget = await decryptBudget(signers.alice);
+      expect(budget.amount).to.eq(1000n);
+      expect(budget.spent).to.eq(300n);
+      expect(budget.remaining).to.eq(700n);
+      expect(budget.overBudget).to.eq(false);
+    });
+
+    it("should flag over budget as expenses are booked", async function () {
+      await setBudget(1000);
+      await (await bookRecord(signers.alice, 1, 600, departmentId)).wait();
+      await (await bookRecord(signers.alice, 1, 600, departmentId)).wait();
+
+      const budget = await decryptBudget(signers.alice);
+      expect(budget.spent).to.eq(1200n);
+      expect(budget.remaining).to.eq(0n);
+      expect(budget.overBudget).to.eq(true);
+    });
+
+    it("should track project budgets separately", async function () {
+      for (const name of ["Alpha", "Beta"]) {
+        const tx = await shadowLedgerExtension
+          .connect(signers.alice)
+          .createProject(departmentId, name, ethers.ZeroAddress);
+        await tx.wait();
+      }
+
+      await setBudget(500, 1);
+      await (await bookRecord(signers.alice, 1, 200, departmentId, 1n)).wait();
+      await (await bookRecord(signers.alice, 1, 400, departmentId, 2n)).wait();
+
+      const budget = await decryptBudget(signers.alice, 1);
+      expect(budget.spent).to.eq(200n);
+      expect(budget.remaining).to.eq(300n);
+    });
+
+    it("should let auditors read budgets through the audit relayer only", async function () {
+      await setBudget(1000);
+      await (await bookRecord(signers.alice, 1, 300, departmentId)).wait();
+      const relayer = (await ethers.getSigners())[4];
+      let tx = await shadowLedgerContract.connect(signers.deployer).addAuditor(signers.charlie.address);
+      await tx.wait();
+      const asAuditor = shadowLedgerExtension.connect(signers.charlie);
+      await expect(asAuditor.evaluateBudget(departmentId, 0)).to.be.revertedWith(
+        "ShadowLedger: only department admin or auditor",
+      );
+
+      // Spending is cumulative, so a window starting after the first record does not cover it
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(signers.charlie.address, [departmentId], now, now + 3600, now + 3600);
+      await tx.wait();
+      await expect(asAuditor.evaluateBudget(departmentId, 0)).to.be.revertedWith(
+        "ShadowLedger: only department admin or auditor",
+      );
+
+      tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(signers.charlie.address, [departmentId], 0, now + 3600, now + 3600);
+      await tx.wait();
+      await expect(asAuditor.evaluateBudget(departmentId, 0)).to.be.revertedWith("ShadowLedger: no audit relayer");
+      await (await shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(relayer.address)).wait();
+      await (await asAuditor.evaluateBudget(departmentId, 0)).wait();
+
+      // The fresh handles are granted to the relayer, never to the auditor
+      const budget = await asAuditor.getBudget(departmentId, 0);
+      await expectDecryptDenied(signers.charlie, budget.spent);
+      await expect(shadowLedgerAudit.connect(signers.charlie).getAuditBudget(2, departmentId, 0)).to.be.revertedWith(
+        "ShadowLedger: only audit relayer",
+      );
+      const asRelayer = shadowLedgerAudit.connect(relayer);
+      await expect(asRelayer.getAuditBudget(1, departmentId, 0)).to.be.revertedWith(
+        "ShadowLedger: budget not readable",
+      );
+      const handles = await asRelayer.getAuditBudget(2, departmentId, 0);
+      expect(handles.spent).to.eq(budget.spent);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, handles.spent, shadowLedgerContractAddress, relayer),
+      ).to.eq(300n);
+    });
+
+    it("should restrict budgets to the department admin and auditors", async function () {
+      await setBudget(1000);
+      const tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .addDepartmentMember(departmentId, signers.bob.address);
+      await tx.wait();
+
+      await expect(shadowLedgerExtension.connect(signers.bob).getBudget(departmentId, 0)).to.be.revertedWith(
+        "ShadowLedger: only department admin or auditor",
+      );
+      await expect(shadowLedgerExtension.connect(signers.bob).evaluateBudget(departmentId, 0)).to.be.revertedWith(
+        "ShadowLedger: only department admin or auditor",
+      );
+
+      const encryptedBudget = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.bob.address)
+        .add128(1)
+        .encrypt();
+      await expect(
+        shadowLedgerExtension
+          .connect(signers.bob)
+          .setBudget(departmentId, 0, encryptedBudget.handles[0], encryptedBudget.inputProof),
+      ).to.be.revertedWith("ShadowLedger: only department admin");
+    });
+  });
+
+  describe("Fiscal Periods", function () {
+    const departmentId = 2n;
+
+    async function openCurrentPeriod() {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const tx = await shadowLedgerAudit.connect(signers.deployer).openFiscalPeriod(now - 3600, now + 3600);
+      await tx.wait();
+      return 1n;
+    }
+
+    beforeEach(async function () {
+      const tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+    });
+
+    it("should reject records booked into a closed period", async function () {
+      const periodId = await openCurrentPeriod();
+      await (await bookRecord(signers.alice, 0, 100, departmentId)).wait();
+
+      const tx = await shadowLedgerAudit.connect(signers.deployer).closeFiscalPeriod(periodId);
+      await tx.wait();
+
+      await expect(bookRecord(signers.alice, 0, 50, departmentId)).to.be.revertedWith(
+        "ShadowLedger: fiscal period closed",
+      );
+      await expect(shadowLedgerContract.connect(signers.alice).reverseRecord(1, "Late reversal")).to.be.revertedWith(
+        "ShadowLedger: fiscal period closed",
+      );
+    });
+
+    it("should snapshot department totals when a period closes", async function () {
+      const periodId = await openCurrentPeriod();
+      await (await bookRecord(signers.alice, 0, 100, departmentId)).wait();
+      await (await bookRecord(signers.alice, 0, 250, departmentId)).wait();
+
+      const periods = shadowLedgerAudit.connect(signers.deployer);
+      let tx = await periods.closeFiscalPeriod(periodId);
+      await expect(tx).to.emit(shadowLedgerContract, "FiscalPeriodClosed").withArgs(periodId, 1);
+
+      // Only the admins are granted the handles, so only they may read them
+      tx = await shadowLedgerContract.connect(signers.alice).addDepartmentMember(departmentId, signers.bob.address);
+      await tx.wait();
+      await expect(
+        shadowLedgerAudit.connect(signers.bob).getPeriodSnapshot(periodId, 1, departmentId),
+      ).to.be.revertedWith("ShadowLedger: only department admin or system admin");
+      await periods.getPeriodSnapshot(periodId, 1, departmentId);
+
+      const readSnapshot = async (closeNumber: number) => {
+        const snapshot = await shadowLedgerAudit
+          .connect(signers.alice)
+          .getPeriodSnapshot(periodId, closeNumber, departmentId);
+        const income = await fhevm.userDecryptEuint(
+          FhevmType.euint128,
+          snapshot[0],
+          shadowLedgerContractAddress,
+          signers.alice,
+        );
+        const expense = await fhevm.userDecryptEuint(
+          FhevmType.euint128,
+          snapshot[1],
+          shadowLedgerContractAddress,
+          signers.alice,
+        );
+        return [income, expense];
+      };
+      expect(await readSnapshot(1)).to.deep.eq([350n, 0n]);
+
+      // A later close keeps the earlier snapshot and takes a new one
+      tx = await periods.reopenFiscalPeriod(periodId, "Missing invoice");
+      await tx.wait();
+      await (await bookRecord(signers.alice, 0, 50, departmentId)).wait();
+      tx = await periods.closeFiscalPeriod(periodId);
+      await expect(tx).to.emit(shadowLedgerContract, "FiscalPeriodClosed").withArgs(periodId, 2);
+
+      expect(await readSnapshot(1)).to.deep.eq([350n, 0n]);
+      expect(await readSnapshot(2)).to.deep.eq([400n, 0n]);
+      await expect(
+        shadowLedgerAudit.connect(signers.alice).getPeriodSnapshot(periodId, 3, departmentId),
+      ).to.be.revertedWith("ShadowLedger: no period snapshot");
+    });
+
+    it("should only close a period once it has started", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const tx = await shadowLedgerAudit.connect(signers.deployer).openFiscalPeriod(now + 3600, now + 7200);
+      await tx.wait();
+
+      await expect(shadowLedgerAudit.connect(signers.deployer).closeFiscalPeriod(1)).to.be.revertedWith(
+        "ShadowLedger: period not started",
+      );
+    });
+
+    it("should accept records again after reopening with a reason", async function () {
+      const periodId = await openCurrentPeriod();
+
+      let tx = await shadowLedgerAudit.connect(signers.deployer).closeFiscalPeriod(periodId);
+      await tx.wait();
+
+      await expect(shadowLedgerAudit.connect(signers.deployer).reopenFiscalPeriod(periodId, "")).to.be.revertedWith(
+        "ShadowLedger: empty reason",
+      );
+
+      await expect(shadowLedgerAudit.connect(signers.deployer).reopenFiscalPeriod(periodId, "Missing invoice"))
+        .to.emit(shadowLedgerContract, "FiscalPeriodReopened")
+        .withArgs(periodId, "Missing invoice");
+
+      const period = await shadowLedgerAudit.getFiscalPeriod(periodId);
+      expect(period.closed).to.eq(false);
+      expect(period.closeCount).to.eq(1n);
+      expect(period.reopenReason).to.eq("Missing invoice");
+
+      tx = await bookRecord(signers.alice, 0, 75, departmentId);
+      await tx.wait();
+    });
+
+    it("should reject overlapping periods", async function () {
+      await openCurrentPeriod();
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+      await expect(shadowLedgerAudit.connect(signers.deployer).openFiscalPeriod(now, now + 7200)).to.be.revertedWith(
+        "ShadowLedger: overlapping fiscal period",
+      );
+    });
+
+    it("should restrict period management to the system admin", async function () {
+      await expect(shadowLedgerAudit.connect(signers.alice).openFiscalPeriod(0, 100)).to.be.revertedWith(
+        "ShadowLedger: only system admin",
+      );
+
+      const periodId = await openCurrentPeriod();
+      await expect(shadowLedgerAudit.connect(signers.alice).closeFiscalPeriod(periodId)).to.be.revertedWith(
+        "ShadowLedger: only system admin",
+      );
+    });
+  });
+
+  describe("Transfers", function () {
+    const sourceId = 2n;
+    const destinationId = 3n;
+
+    async function bookTransfer(clearAmount: number, toDepartmentId: bigint = destinationId) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(clearAmount)
+        .encrypt();
+
+      const tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .transfer(sourceId, toDepartmentId, encryptedAmount.handles[0], encryptedAmount.inputProof, "Shared services");
+      return tx.wait();
+    }
+
+    async function total(recordType: "Income" | "Expense", eliminateTransfers: boolean) {
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const calculate = recordType === "Income" ? contract.calculateTotalIncome : contract.calculateTotalExpense;
+      const handle = await calculate.staticCall([sourceId, destinationId], 0, 0, 0, 0, eliminateTransfers);
+      await (await calculate([sourceId, destinationId], 0, 0, 0, 0, eliminateTransfers)).wait();
+      return fhevm.userDecryptEuint(FhevmType.euint128, handle, shadowLedgerContractAddress, signers.alice);
+    }
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.deployer).createDepartment("Marketing", signers.bob.address);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.bob).addDepartmentMember(destinationId, signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerExtension.connect(signers.deployer).grantRollupAccess(signers.alice.address);
+      await tx.wait();
+    });
+
+    it("should book a linked expense and income pair", async function () {
+      await bookTransfer(300);
+
+      const transfer = await shadowLedgerContract.connect(signers.bob).getTransfer(1);
+      expect(transfer.fromDepartmentId).to.eq(sourceId);
+      expect(transfer.toDepartmentId).to.eq(destinationId);
+
+      const expenseLeg = await shadowLedgerContract.connect(signers.alice).getRecord(transfer.expenseRecordId);
+      const incomeLeg = await shadowLedgerContract.connect(signers.bob).getRecord(transfer.incomeRecordId);
+      expect(expenseLeg.recordType).to.eq(1);
+      expect(expenseLeg.departmentId).to.eq(sourceId);
+      expect(expenseLeg.transferId).to.eq(1);
+      expect(incomeLeg.recordType).to.eq(0);
+      expect(incomeLeg.departmentId).to.eq(destinationId);
+      expect(incomeLeg.transferId).to.eq(1);
+
+      // Both department admins can decrypt the shared amount
+      const asSource = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        expenseLeg.amount,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      const asDestination = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        incomeLeg.amount,
+        shadowLedgerContractAddress,
+        signers.bob,
+      );
+      expect(asSource).to.eq(300);
+      expect(asDestination).to.eq(300);
+    });
+
+    it("should eliminate internal transfers from consolidated totals", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1000)
+        .encrypt();
+      const tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, sourceId, 0, 0, "Sales");
+      await tx.wait();
+      await bookTransfer(300);
+
+      expect(await total("Income", false)).to.eq(1300);
+      expect(await total("Income", true)).to.eq(1000);
+      expect(await total("Expense", false)).to.eq(300);
+      expect(await total("Expense", true)).to.eq(0);
+    });
+
+    it("should keep transfers to departments outside the set", async function () {
+      await bookTransfer(300);
+
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const handle = await contract.calculateTotalExpense.staticCall([sourceId], 0, 0, 0, 0, true);
+      await (await contract.calculateTotalExpense([sourceId], 0, 0, 0, 0, true)).wait();
+      const expense = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        handle,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(expense).to.eq(300);
+    });
+
+    it("should reject invalid transfers and corrections of a leg", async function () {
+      await expect(bookTransfer(100, sourceId)).to.be.revertedWith("ShadowLedger: same department");
+      await expect(bookTransfer(100, 99n)).to.be.revertedWith("ShadowLedger: invalid department");
+
+      await bookTransfer(100);
+      await expect(shadowLedgerContract.connect(signers.alice).reverseRecord(1, "Undo")).to.be.revertedWith(
+        "ShadowLedger: cannot correct transfer",
+      );
+      await expect(shadowLedgerContract.connect(signers.charlie).getTransfer(1)).to.be.revertedWith(
+        "ShadowLedger: access denied",
+      );
+    });
+
+    it("should hold transfers out of a department with an approval policy until approved", async function () {
+      const encryptedThreshold = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1000)
+        .encrypt();
+      let tx = await shadowLedgerExtension
+        .connect(signers.alice)
+        .setApprovalPolicy(
+          sourceId,
+          encryptedThreshold.handles[0],
+          encryptedThreshold.inputProof,
+          [signers.charlie.address],
+          1,
+        );
+      await tx.wait();
+
+      // Under the threshold both legs count at once
+      await bookTransfer(200);
+      expect(await total("Expense", false)).to.eq(200);
+      expect(await total("Income", false)).to.eq(200);
+
+      // Above it neither leg counts until the expense leg is approved
+      await bookTransfer(5000);
+      const transfer = await shadowLedgerContract.connect(signers.alice).getTransfer(2);
+      const approval = await shadowLedgerExtension.connect(signers.alice).getRecordApproval(transfer.expenseRecordId);
+      expect(approval.status).to.eq(1); // Pending
+      expect(await total("Expense", false)).to.eq(200);
+      expect(await total("Income", false)).to.eq(200);
+
+      tx = await shadowLedgerExtension.connect(signers.charlie).approveRecord(transfer.expenseRecordId);
+      await tx.wait();
+      expect(await total("Expense", false)).to.eq(5200);
+      expect(await total("Income", false)).to.eq(5200);
+      expect(await total("Income", true)).to.eq(0);
+
+      // A rejected transfer drops out of both departments
+      await bookTransfer(300);
+      tx = await shadowLedgerExtension.connect(signers.charlie).rejectRecord(5, "Wrong department");
+      await tx.wait();
+      expect(await total("Expense", false)).to.eq(5200);
+      expect(await total("Income", false)).to.eq(5200);
+      expect(await total("Expense", true)).to.eq(0);
+    });
+  });
+
+  describe("Expense Approvals", function () {
+    const departmentId = 2n;
+
+    async function setPolicy(approvers: string[], requiredApprovals: number) {
+      const encryptedThreshold = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1000)
+        .encrypt();
+
+      const tx = await shadowLedgerExtension
+        .connect(signers.alice)
+        .setApprovalPolicy(
+          departmentId,
+          encryptedThreshold.handles[0],
+          encryptedThreshold.inputProof,
+          approvers,
+          requiredApprovals,
+        );
+      await tx.wait();
+    }
+
+    async function totalExpense() {
+      const contract = shadowLedgerContract.connect(signers.alice);
+      const handle = await contract.calculateTotalExpense.staticCall([departmentId], 0, 0, 0, 0, false);
+      await (await contract.calculateTotalExpense([departmentId], 0, 0, 0, 0, false)).wait();
+      return fhevm.userDecryptEuint(FhevmType.euint128, handle, shadowLedgerContractAddress, signers.alice);
+    }
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.alice).addDepartmentMember(departmentId, signers.bob.address);
+      await tx.wait();
+    });
+
+    it("should hold expenses above the threshold until approved", async function () {
+      await setPolicy([signers.charlie.address], 1);
+      await (await bookRecord(signers.bob, 1, 5000, departmentId)).wait();
+      await (await bookRecord(signers.bob, 1, 200, departmentId)).wait();
+
+      const large = await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1);
+      const small = await shadowLedgerExtension.connect(signers.alice).getRecordApproval(2);
+      expect(large.status).to.eq(1); // Pending
+      expect(small.status).to.eq(1);
+
+      // The threshold results are public so that expenses under it can be settled
+      expect(await fhevm.publicDecryptEbool(large.required)).to.eq(true);
+      expect(await fhevm.publicDecryptEbool(small.required)).to.eq(false);
+      expect(await totalExpense()).to.eq(200);
+
+      const tx = await shadowLedgerExtension.connect(signers.alice).approveRecord(1);
+      await tx.wait();
+
+      expect((await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1)).status).to.eq(2); // Approved
+      expect(await totalExpense()).to.eq(5200);
+    });
+
+    it("should settle expenses under the threshold as approved", async function () {
+      await setPolicy([signers.charlie.address], 1);
+      await (await bookRecord(signers.bob, 1, 200, departmentId)).wait();
+      await (await bookRecord(signers.bob, 1, 5000, departmentId)).wait();
+
+      const settle = async (recordId: number) => {
+        const approval = await shadowLedgerExtension.connect(signers.alice).getRecordApproval(recordId);
+        const decrypted = await fhevm.publicDecrypt([approval.required]);
+        return shadowLedgerExtension
+          .connect(signers.charlie)
+          .settleApproval(recordId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      };
+      await expect(settle(2)).to.be.revertedWith("ShadowLedger: approval required");
+      await expect(settle(1)).to.emit(shadowLedgerContract, "RecordSettled").withArgs(1);
+      await expect(settle(1)).to.be.revertedWith("ShadowLedger: record not pending");
+
+      expect((await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1)).status).to.eq(2); // Approved
+      expect(await totalExpense()).to.eq(200);
+
+      // Settled expenses can be corrected like any approved one
+      const tx = await shadowLedgerContract.connect(signers.bob).reverseRecord(1, "Duplicate");
+      await tx.wait();
+      expect(await totalExpense()).to.eq(0);
+    });
+
+    it("should require the approver quorum", async function () {
+      await setPolicy([signers.bob.address, signers.charlie.address], 2);
+      await (await bookRecord(signers.alice, 1, 5000, departmentId)).wait();
+
+      let tx = await shadowLedgerExtension.connect(signers.bob).approveRecord(1);
+      await tx.wait();
+      await expect(shadowLedgerExtension.connect(signers.bob).approveRecord(1)).to.be.revertedWith(
+        "ShadowLedger: already approved",
+      );
+      expect((await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1)).approvalCount).to.eq(1);
+      expect(await totalExpense()).to.eq(0);
+
+      tx = await shadowLedgerExtension.connect(signers.charlie).approveRecord(1);
+      await tx.wait();
+
+      const approval = await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1);
+      expect(approval.status).to.eq(2);
+      expect(approval.approvalCount).to.eq(2);
+      expect(await totalExpense()).to.eq(5000);
+    });
+
+    it("should drop rejected expenses from totals", async function () {
+      await setPolicy([signers.charlie.address], 1);
+      await (await bookRecord(signers.bob, 1, 200, departmentId)).wait();
+      expect(await totalExpense()).to.eq(200);
+
+      await expect(shadowLedgerExtension.connect(signers.alice).rejectRecord(1, "")).to.be.revertedWith(
+        "ShadowLedger: empty reason",
+      );
+      const tx = await shadowLedgerExtension.connect(signers.alice).rejectRecord(1, "No receipt");
+      await tx.wait();
+
+      expect((await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1)).status).to.eq(3); // Rejected
+      expect(await totalExpense()).to.eq(0);
+      await expect(shadowLedgerExtension.connect(signers.alice).approveRecord(1)).to.be.revertedWith(
+        "ShadowLedger: record not pending",
+      );
+    });
+
+    it("should let approvers review the admin's own expenses", async function () {
+      await setPolicy([signers.bob.address], 1);
+      await (await bookRecord(signers.alice, 1, 5000, departmentId)).wait();
+
+      await expect(shadowLedgerExtension.connect(signers.alice).approveRecord(1)).to.be.revertedWith(
+        "ShadowLedger: cannot review own record",
+      );
+      const tx = await shadowLedgerExtension.connect(signers.bob).approveRecord(1);
+      await tx.wait();
+
+      expect((await shadowLedgerExtension.connect(signers.alice).getRecordApproval(1)).status).to.eq(2); // Approved
+      expect(await totalExpense()).to.eq(5000);
+    });
+
+    it("should restrict who can review and correct pending expenses", async function () {
+      // Someone besides the admin must be able to review the admin's own expenses
+      await expect(setPolicy([], 0)).to.be.revertedWith("ShadowLedger: invalid approval quorum");
+      await expect(setPolicy([signers.alice.address], 1)).to.be.revertedWith("ShadowLedger: admin cannot be approver");
+      await expect(setPolicy([ethers.ZeroAddress], 1)).to.be.revertedWith("ShadowLedger: invalid approver");
+      await expect(setPolicy([signers.bob.address], 2)).to.be.revertedWith("ShadowLedger: invalid approval quorum");
+      await setPolicy([signers.bob.address], 1);
+      await (await bookRecord(signers.bob, 1, 5000, departmentId)).wait();
+
+      await expect(shadowLedgerExtension.connect(signers.bob).approveRecord(1)).to.be.revertedWith(
+        "ShadowLedger: cannot review own record",
+      );
+      await expect(shadowLedgerExtension.connect(signers.charlie).approveRecord(1)).to.be.revertedWith(
+        "ShadowLedger: only approver",
+      );
+      await expect(shadowLedgerContract.connect(signers.bob).reverseRecord(1, "Withdraw")).to.be.revertedWith(
+        "ShadowLedger: record not approved",
+      );
+    });
+
+    it("should leave only expense amendments to the admin", async function () {
+      await setPolicy([signers.charlie.address], 1);
+      const encryptedAmounts = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.bob.address)
+        .add128(300)
+        .add128(400)
+        .encrypt();
+      let tx = await shadowLedgerContract
+        .connect(signers.bob)
+        .createRecord(0, encryptedAmounts.handles[0], encryptedAmounts.inputProof, departmentId, 0, 0, "Income");
+      await tx.wait();
+
+      tx = await shadowLedgerContract
+        .connect(signers.bob)
+        .amendRecord(1, encryptedAmounts.handles[1], encryptedAmounts.inputProof, "Invoice corrected");
+      await expect(tx).to.emit(shadowLedgerContract, "RecordCorrected").withArgs(2, 1, 1, signers.bob.address);
+
+      await (await bookRecord(signers.bob, 1, 200, departmentId)).wait();
+      const approval = await shadowLedgerExtension.connect(signers.alice).getRecordApproval(3);
+      const decrypted = await fhevm.publicDecrypt([approval.required]);
+      tx = await shadowLedgerExtension
+        .connect(signers.charlie)
+        .settleApproval(3, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      await tx.wait();
+      await expect(
+        shadowLedgerContract
+          .connect(signers.bob)
+          .amendRecord(3, encryptedAmounts.handles[1], encryptedAmounts.inputProof, "Raised"),
+      ).to.be.revertedWith("ShadowLedger: only department admin can amend");
     });
   });
-});
 
+  describe("Calculation Access", function () {
+    const engineeringId = 2n;
+    const salesId = 3n;
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address);
+      await tx.wait();
+    });
+
+    it("should let members aggregate only their own departments", async function () {
+      const contract = shadowLedgerContract.connect(signers.alice);
+      await (await contract.calculateTotalIncome([engineeringId], 0, 0, 0, 0, false)).wait();
+
+      await expect(contract.calculateTotalIncome([salesId], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+      await expect(contract.calculateTotalExpense([salesId], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+      await expect(contract.calculateNetIncome([salesId], 0, 0, 0)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+      await expect(
+        shadowLedgerContract.connect(signers.charlie).calculateTotalIncome([engineeringId], 0, 0, 0, 0, false),
+      ).to.be.revertedWith("ShadowLedger: only department member");
+      await expect(contract.calculateTotalIncome([99n], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: invalid department",
+      );
+    });
+
+    it("should require a rollup grant to combine departments", async function () {
+      let tx = await shadowLedgerContract.connect(signers.bob).addDepartmentMember(salesId, signers.alice.address);
+      await tx.wait();
+
+      const contract = shadowLedgerContract.connect(signers.alice);
+      await expect(contract.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: rollup not granted",
+      );
+      await expect(contract.calculateNetIncome([engineeringId, salesId], 0, 0, 0)).to.be.revertedWith(
+        "ShadowLedger: rollup not granted",
+      );
+      // Listing the same department twice is not a rollup
+      await (await contract.calculateTotalIncome([engineeringId, engineeringId], 0, 0, 0, 0, false)).wait();
+
+      tx = await shadowLedgerExtension.connect(signers.deployer).grantRollupAccess(signers.alice.address);
+      await tx.wait();
+      expect(await shadowLedgerExtension.hasRollupAccess(signers.alice.address)).to.eq(true);
+      await (await contract.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, 0, false)).wait();
+
+      // A grant does not extend to departments the caller is not a member of
+      tx = await shadowLedgerContract.connect(signers.bob).removeDepartmentMember(salesId, signers.alice.address);
+      await tx.wait();
+      await expect(contract.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+
+      tx = await shadowLedgerExtension.connect(signers.deployer).revokeRollupAccess(signers.alice.address);
+      await tx.wait();
+      expect(await shadowLedgerExtension.hasRollupAccess(signers.alice.address)).to.eq(false);
+    });
+
+    it("should let only the system admin manage rollup grants", async function () {
+      const extension = shadowLedgerExtension.connect(signers.alice);
+      await expect(extension.grantRollupAccess(signers.alice.address)).to.be.revertedWith(
+        "ShadowLedger: only system admin",
+      );
+
+      const tx = await shadowLedgerExtension.connect(signers.deployer).grantRollupAccess(signers.alice.address);
+      await tx.wait();
+      await expect(extension.revokeRollupAccess(signers.alice.address)).to.be.revertedWith(
+        "ShadowLedger: only system admin",
+      );
+      await expect(
+        shadowLedgerExtension.connect(signers.deployer).grantRollupAccess(signers.alice.address),
+      ).to.be.revertedWith("ShadowLedger: rollup already granted");
+      await expect(
+        shadowLedgerExtension.connect(signers.deployer).revokeRollupAccess(signers.bob.address),
+      ).to.be.revertedWith("ShadowLedger: rollup not granted");
+    });
+
+    it("should let auditors aggregate the departments of their engagement", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.bob.address)
+        .add128(700)
+        .encrypt();
+      let tx = await shadowLedgerContract
+        .connect(signers.bob)
+        .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, salesId, 0, 0, "Sales");
+      await tx.wait();
+
+      tx = await shadowLedgerContract.connect(signers.deployer).addAuditor(signers.charlie.address);
+      await tx.wait();
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(signers.charlie.address, [engineeringId, salesId], 0, now, now + 3600);
+      await tx.wait();
+
+      const contract = shadowLedgerContract.connect(signers.charlie);
+      await expect(contract.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, now, false)).to.be.revertedWith(
+        "ShadowLedger: no audit relayer",
+      );
+      const relayer = (await ethers.getSigners())[4];
+      await (await shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(relayer.address)).wait();
+
+      // An open end is taken as the window's, and only the relayer is granted the result
+      const { result } = await calculationResult(
+        shadowLedgerContract,
+        await contract.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, 0, false),
+      );
+      const calculation = await shadowLedgerAudit.connect(signers.charlie).getCalculation(1);
+      expect(calculation.fromTimestamp).to.eq(0);
+      expect(calculation.toTimestamp).to.eq(now);
+      await expectDecryptDenied(signers.charlie, result);
+      const handles = await shadowLedgerAudit.connect(relayer).getAuditCalculation(1, 1);
+      expect(handles.result).to.eq(result);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, handles.result, shadowLedgerContractAddress, relayer),
+      ).to.eq(700);
+
+      // A period overlapping the window is cut down to it; one outside it is not covered
+      await (await contract.calculateNetIncome([salesId], 0, now - 60, now + 60)).wait();
+      expect((await shadowLedgerAudit.connect(signers.charlie).getCalculation(2)).toTimestamp).to.eq(now);
+      await expect(contract.calculateTotalIncome([salesId], 0, 0, now + 1, 0, false)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+    });
+  });
+
+  describe("Department Roles", function () {
+    const engineeringId = 2n;
+    const salesId = 3n;
+    const BOOKKEEPER = 1;
+    const VIEWER = 2;
+    const FINANCE_CONTROLLER = 4;
+
+    async function setRoles(admin: HardhatEthersSigner, departmentId: bigint, account: string, roles: number) {
+      await (await shadowLedgerContract.connect(admin).setDepartmentRoles(departmentId, account, roles)).wait();
+    }
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+      tx = await shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address);
+      await tx.wait();
+    });
+
+    it("should let a bookkeeper book records but not read them", async function () {
+      await (
+        await shadowLedgerContract.connect(signers.alice).addDepartmentMember(engineeringId, signers.bob.address)
+      ).wait();
+      await setRoles(signers.alice, engineeringId, signers.bob.address, BOOKKEEPER);
+
+      await (await bookRecord(signers.bob, 0, 100, engineeringId)).wait();
+
+      const asBob = shadowLedgerContract.connect(signers.bob);
+      await expect(asBob.getDepartmentRecords(engineeringId, 0, 10)).to.be.revertedWith("ShadowLedger: missing role");
+      await expect(asBob.getRecord(1)).to.be.revertedWith("ShadowLedger: access denied");
+      await expect(asBob.calculateTotalIncome([engineeringId], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: missing role",
+      );
+    });
+
+    it("should let a viewer read records and decrypt department totals without booking", async function () {
+      await (await bookRecord(signers.alice, 0, 250, engineeringId)).wait();
+      await setRoles(signers.alice, engineeringId, signers.charlie.address, VIEWER);
+
+      await expect(bookRecord(signers.charlie, 0, 10, engineeringId)).to.be.revertedWith("ShadowLedger: missing role");
+
+      const asCharlie = shadowLedgerContract.connect(signers.charlie);
+      expect(await asCharlie.getDepartmentRecords(engineeringId, 0, 10)).to.deep.eq([1n]);
+      await (await asCharlie.calculateTotalIncome([engineeringId], 0, 0, 0, 0, false)).wait();
+
+      const calculation = await shadowLedgerAudit.connect(signers.charlie).getCalculation(1);
+      const total = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        calculation.result,
+        shadowLedgerContractAddress,
+        signers.charlie,
+      );
+      expect(total).to.eq(250);
+    });
+
+    it("should let a finance controller of every department combine them without a rollup grant", async function () {
+      await (await bookRecord(signers.alice, 0, 100, engineeringId)).wait();
+      await (await bookRecord(signers.bob, 0, 50, salesId)).wait();
+
+      await setRoles(signers.alice, engineeringId, signers.charlie.address, FINANCE_CONTROLLER);
+      await setRoles(signers.bob, salesId, signers.charlie.address, VIEWER);
+
+      const asCharlie = shadowLedgerContract.connect(signers.charlie);
+      await expect(asCharlie.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, 0, false)).to.be.revertedWith(
+        "ShadowLedger: rollup not granted",
+      );
+
+      await setRoles(signers.bob, salesId, signers.charlie.address, FINANCE_CONTROLLER);
+      await (await asCharlie.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, 0, false)).wait();
+
+      const calculation = await shadowLedgerAudit.connect(signers.charlie).getCalculation(1);
+      const total = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        calculation.result,
+        shadowLedgerContractAddress,
+        signers.charlie,
+      );
+      expect(total).to.eq(150);
+      // A controller alone does not read the records themselves
+      await expect(asCharlie.getDepartmentRecords(engineeringId, 0, 10)).to.be.revertedWith(
+        "ShadowLedger: missing role",
+      );
+    });
+
+    it("should show the approval policy to viewers and finance controllers only", async function () {
+      const encryptedThreshold = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(1000)
+        .encrypt();
+      await (
+        await shadowLedgerExtension
+          .connect(signers.alice)
+          .setApprovalPolicy(
+            engineeringId,
+            encryptedThreshold.handles[0],
+            encryptedThreshold.inputProof,
+            [signers.bob.address],
+            1,
+          )
+      ).wait();
+
+      const asCharlie = shadowLedgerExtension.connect(signers.charlie);
+      await expect(asCharlie.getApprovalPolicy(engineeringId)).to.be.revertedWith(
+        "ShadowLedger: only department member",
+      );
+
+      await setRoles(signers.alice, engineeringId, signers.charlie.address, BOOKKEEPER);
+      await expect(asCharlie.getApprovalPolicy(engineeringId)).to.be.revertedWith("ShadowLedger: missing role");
+
+      await setRoles(signers.alice, engineeringId, signers.charlie.address, FINANCE_CONTROLLER);
+      expect((await asCharlie.getApprovalPolicy(engineeringId)).approvers).to.deep.eq([signers.bob.address]);
+
+      await setRoles(signers.alice, engineeringId, signers.charlie.address, VIEWER);
+      expect((await asCharlie.getApprovalPolicy(engineeringId)).requiredApprovals).to.eq(1);
+    });
+
+    it("should let only the department admin assign roles and clear them when a member leaves", async function () {
+      await expect(
+        shadowLedgerContract.connect(signers.bob).setDepartmentRoles(engineeringId, signers.charlie.address, VIEWER),
+      ).to.be.revertedWith("ShadowLedger: only department admin");
+      await expect(
+        shadowLedgerContract.connect(signers.alice).setDepartmentRoles(engineeringId, signers.charlie.address, 8),
+      ).to.be.revertedWith("ShadowLedger: invalid roles");
+
+      await (
+        await shadowLedgerContract.connect(signers.alice).addDepartmentMember(engineeringId, signers.bob.address)
+      ).wait();
+      await setRoles(signers.alice, engineeringId, signers.bob.address, VIEWER | FINANCE_CONTROLLER);
+      expect(await shadowLedgerContract.getRoleHolders(engineeringId)).to.deep.eq([signers.bob.address]);
+      expect(await shadowLedgerContract.getDepartmentRoles(engineeringId, signers.bob.address)).to.eq(6);
+      expect(await shadowLedgerContract.hasDepartmentRole(engineeringId, signers.bob.address, BOOKKEEPER)).to.eq(false);
+      // The admin always keeps the default member roles
+      expect(await shadowLedgerContract.hasDepartmentRole(engineeringId, signers.alice.address, BOOKKEEPER)).to.eq(
+        true,
+      );
+
+      await (
+        await shadowLedgerContract.connect(signers.alice).removeDepartmentMember(engineeringId, signers.bob.address)
+      ).wait();
+      expect(await shadowLedgerContract.getDepartmentRoles(engineeringId, signers.bob.address)).to.eq(0);
+      expect(await shadowLedgerContract.hasDepartmentRole(engineeringId, signers.bob.address, VIEWER)).to.eq(false);
+    });
+  });
+
+  describe("Calculation History", function () {
+    const departmentId = 2n;
+
+    beforeEach(async function () {
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+
+      for (const [recordType, clearAmount] of [
+        [0, 1000],
+        [1, 400],
+      ]) {
+        const encryptedAmount = await fhevm
+          .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+          .add128(clearAmount)
+          .encrypt();
+        tx = await shadowLedgerContract
+          .connect(signers.alice)
+          .createRecord(
+            recordType,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+            departmentId,
+            0,
+            0,
+            "Entry",
+          );
+        await tx.wait();
+      }
+    });
+
+    it("should store each calculation with its parameters", async function () {
+      const contract = shadowLedgerContract.connect(signers.alice);
+      await (await contract.calculateTotalExpense([departmentId], 0, 0, 10, 0, true)).wait();
+
+      const calculation = await shadowLedgerAudit.connect(signers.alice).getCalculation(1);
+      expect(calculation.calculationType).to.eq(1);
+      expect(calculation.departmentIds).to.deep.eq([departmentId]);
+      expect(calculation.projectId).to.eq(0);
+      expect(calculation.categoryId).to.eq(0);
+      expect(calculation.fromTimestamp).to.eq(10);
+      expect(calculation.toTimestamp).to.eq(0);
+      expect(calculation.eliminateTransfers).to.eq(true);
+      expect(calculation.requester).to.eq(signers.alice.address);
+
+      const result = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        calculation.result,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(result).to.eq(400);
+    });
+
+    it("should emit the result handles the transaction computed", async function () {
+      const tx = await shadowLedgerContract.connect(signers.alice).calculateNetIncome([departmentId], 0, 5, 0);
+      const receipt = await tx.wait();
+
+      const event = receipt!.logs
+        .map((log) => shadowLedgerContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "CalculationPerformed");
+      expect(event).to.not.eq(undefined);
+
+      const calculation = await shadowLedgerAudit.connect(signers.alice).getCalculation(1);
+      expect(event!.args.calculationId).to.eq(1);
+      expect(event!.args.requester).to.eq(signers.alice.address);
+      expect(event!.args.calculationType).to.eq(2);
+      expect(event!.args.result).to.eq(calculation.result);
+      expect(event!.args.nonNegative).to.eq(calculation.nonNegative);
+      expect(event!.args.departmentIds).to.deep.eq([departmentId]);
+      expect(event!.args.fromTimestamp).to.eq(5);
+
+      const magnitude = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        event!.args.result,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(magnitude).to.eq(600);
+    });
+
+    it("should store the sign of a net income calculation", async function () {
+      const tx = await shadowLedgerContract.connect(signers.alice).calculateNetIncome([departmentId], 0, 0, 0);
+      await tx.wait();
+
+      const calculation = await shadowLedgerAudit.connect(signers.alice).getCalculation(1);
+      expect(calculation.calculationType).to.eq(2);
+      const magnitude = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        calculation.result,
+        shadowLedgerContractAddress,
+        signers.alice,
+      );
+      expect(magnitude).to.eq(600);
+      expect(await fhevm.userDecryptEbool(calculation.nonNegative, shadowLedgerContractAddress, signers.alice)).to.eq(
+        true,
+      );
+    });
+
+    it("should list a requester's calculations with paging", async function () {
+      const contract = shadowLedgerContract.connect(signers.alice);
+      for (let i = 0; i < 3; i++) {
+        await (await contract.calculateTotalIncome([departmentId], 0, 0, 0, 0, false)).wait();
+      }
+
+      const audit = shadowLedgerAudit.connect(signers.alice);
+      expect(await audit.getCalculationCount(signers.alice.address)).to.eq(3);
+      expect(await audit.listCalculations(signers.alice.address, 0, 2)).to.deep.eq([1n, 2n]);
+      expect(await audit.listCalculations(signers.alice.address, 2, 10)).to.deep.eq([3n]);
+      expect(await audit.listCalculations(signers.alice.address, 5, 10)).to.deep.eq([]);
+    });
+
+    it("should restrict calculation history to the requester and engaged auditors", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      let tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .calculateTotalIncome([departmentId], 0, 0, 0, now, false);
+      await tx.wait();
+
+      const asBob = shadowLedgerAudit.connect(signers.bob);
+      await expect(asBob.getCalculation(1)).to.be.revertedWith("ShadowLedger: access denied");
+      await expect(asBob.listCalculations(signers.alice.address, 0, 10)).to.be.revertedWith(
+        "ShadowLedger: access denied",
+      );
+      await expect(asBob.getCalculationCount(signers.alice.address)).to.be.revertedWith("ShadowLedger: access denied");
+      await expect(asBob.getCalculation(3)).to.be.revertedWith("ShadowLedger: invalid calculation");
+
+      // Being an auditor is not enough without an engagement covering the department
+      tx = await shadowLedgerContract.connect(signers.deployer).addAuditor(signers.bob.address);
+      await tx.wait();
+      await expect(asBob.getCalculation(1)).to.be.revertedWith("ShadowLedger: access denied");
+      expect(await asBob.listCalculations(signers.alice.address, 0, 10)).to.deep.eq([]);
+      expect(await asBob.getCalculationCount(signers.alice.address)).to.eq(0);
+
+      // An open-ended calculation reaches past any engagement window
+      tx = await shadowLedgerContract.connect(signers.alice).calculateTotalIncome([departmentId], 0, 0, 0, 0, false);
+      await tx.wait();
+      tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(signers.bob.address, [departmentId], 0, now, now + 3600);
+      await tx.wait();
+      expect((await asBob.getCalculation(1)).requester).to.eq(signers.alice.address);
+      await expect(asBob.getCalculation(2)).to.be.revertedWith("ShadowLedger: access denied");
+      expect(await asBob.listCalculations(signers.alice.address, 0, 10)).to.deep.eq([1n]);
+      expect(await asBob.getCalculationCount(signers.alice.address)).to.eq(1);
+    });
+  });
+
+  describe("Audit Management", function () {
+    it("should add auditor", async function () {
+      const tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .addAuditor(signers.charlie.address);
+      await tx.wait();
+
+      const isAuditor = await shadowLedgerContract.isAuditor(signers.charlie.address);
+      expect(isAuditor).to.be.true;
+    });
+
+    it("should remove auditor", async function () {
+      // Add auditor first
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .addAuditor(signers.charlie.address);
+      await tx.wait();
+
+      // Remove auditor
+      tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .removeAuditor(signers.charlie.address);
+      await tx.wait();
+
+      const isAuditor = await shadowLedgerContract.isAuditor(signers.charlie.address);
+      expect(isAuditor).to.be.false;
+    });
+
+    it("should page all records in the auditor's engagements", async function () {
+      // Create department and record
+      let tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .createDepartment("Engineering", signers.alice.address);
+      await tx.wait();
+
+      const clearAmount = 1000;
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(shadowLedgerContractAddress, signers.alice.address)
+        .add128(clearAmount)
+        .encrypt();
+
+      tx = await shadowLedgerContract
+        .connect(signers.alice)
+        .createRecord(0, encryptedAmount.handles[0], encryptedAmount.inputProof, 2n, 0, 0, "Test");
+      await tx.wait();
+
+      // Add auditor
+      tx = await shadowLedgerContract
+        .connect(signers.deployer)
+        .addAuditor(signers.charlie.address);
+      await tx.wait();
+
+      // Records outside the auditor's engagements are left out of the page
+      const asAuditor = shadowLedgerContract.connect(signers.charlie);
+      expect(await asAuditor.getAllRecords(0, 10)).to.deep.eq([]);
+
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      tx = await shadowLedgerAudit
+        .connect(signers.deployer)
+        .createAuditEngagement(signers.charlie.address, [2n], 0, now, now + 3600);
+      await tx.wait();
+      expect(await asAuditor.getAllRecords(0, 10)).to.deep.eq([1n]);
+    });
+
+    describe("Engagements", function () {
+      let engineeringId: bigint;
+      let salesId: bigint;
+      let now: number;
+      let relayer: HardhatEthersSigner;
+
+      async function engage(departmentIds: bigint[], expiresAt: number) {
+        const tx = await shadowLedgerAudit
+          .connect(signers.deployer)
+          .createAuditEngagement(signers.charlie.address, departmentIds, 0, now, expiresAt);
+        await tx.wait();
+      }
+
+      async function advanceTime(seconds: number) {
+        await ethers.provider.send("evm_increaseTime", [seconds]);
+        await ethers.provider.send("evm_mine", []);
+      }
+
+      beforeEach(async function () {
+        let tx = await shadowLedgerContract
+          .connect(signers.deployer)
+          .createDepartment("Engineering", signers.alice.address);
+        await tx.wait();
+        tx = await shadowLedgerContract.connect(signers.deployer).createDepartment("Sales", signers.bob.address);
+        await tx.wait();
+        engineeringId = 2n;
+        salesId = 3n;
+
+        await (await bookRecord(signers.alice, 0, 1000, engineeringId)).wait();
+        await (await bookRecord(signers.bob, 0, 500, salesId)).wait();
+
+        tx = await shadowLedgerContract.connect(signers.deployer).addAuditor(signers.charlie.address);
+        await tx.wait();
+        now = (await ethers.provider.getBlock("latest"))!.timestamp;
+        relayer = (await ethers.getSigners())[4];
+      });
+
+      it("should validate engagements", async function () {
+        const contract = shadowLedgerAudit.connect(signers.deployer);
+        await expect(
+          shadowLedgerAudit
+            .connect(signers.alice)
+            .createAuditEngagement(signers.charlie.address, [engineeringId], 0, now, now + 3600),
+        ).to.be.revertedWith("ShadowLedger: only system admin");
+        await expect(
+          contract.createAuditEngagement(signers.bob.address, [engineeringId], 0, now, now + 3600),
+        ).to.be.revertedWith("ShadowLedger: not an auditor");
+        await expect(
+          contract.createAuditEngagement(signers.charlie.address, [], 0, now, now + 3600),
+        ).to.be.revertedWith("ShadowLedger: no departments");
+        await expect(
+          contract.createAuditEngagement(signers.charlie.address, [engineeringId], now, 0, now + 3600),
+        ).to.be.revertedWith("ShadowLedger: invalid period");
+        await expect(
+          contract.createAuditEngagement(signers.charlie.address, [engineeringId], 0, now, now),
+        ).to.be.revertedWith("ShadowLedger: invalid expiry");
+        await expect(
+          contract.createAuditEngagement(signers.charlie.address, [engineeringId, 99], 0, now, now + 3600),
+        ).to.be.revertedWith("ShadowLedger: invalid department");
+
+        await engage([engineeringId], now + 3600);
+        const engagement = await shadowLedgerAudit.getAuditEngagement(1);
+        expect(engagement.auditor).to.eq(signers.charlie.address);
+        expect(engagement.departmentIds).to.deep.eq([engineeringId]);
+        expect(engagement.toTimestamp).to.eq(now);
+        expect(engagement.expiresAt).to.eq(now + 3600);
+        expect(await shadowLedgerAudit.getAuditEngagementCount()).to.eq(1);
+        expect(await shadowLedgerAudit.getAuditorEngagements(signers.charlie.address)).to.deep.eq([1n]);
+      });
+
+      it("should set the audit relayer", async function () {
+        await expect(shadowLedgerAudit.connect(signers.alice).setAuditRelayer(relayer.address)).to.be.revertedWith(
+          "ShadowLedger: only system admin",
+        );
+        await expect(
+          shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(ethers.ZeroAddress),
+        ).to.be.revertedWith("ShadowLedger: invalid relayer");
+
+        await engage([engineeringId], now + 3600);
+        await expect(shadowLedgerAudit.connect(signers.charlie).openAuditRecords(1, [1])).to.be.revertedWith(
+          "ShadowLedger: no audit relayer",
+        );
+
+        await expect(shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(relayer.address))
+          .to.emit(shadowLedgerAudit, "AuditRelayerChanged")
+          .withArgs(relayer.address);
+        expect(await shadowLedgerAudit.getAuditRelayer()).to.eq(relayer.address);
+      });
+
+      it("should open only the records in scope, to the relayer", async function () {
+        await (await shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(relayer.address)).wait();
+        await engage([engineeringId], now + 3600);
+        await (await bookRecord(signers.alice, 0, 300, engineeringId)).wait();
+
+        const asAuditor = shadowLedgerContract.connect(signers.charlie);
+        const audit = shadowLedgerAudit.connect(signers.charlie);
+        await expect(shadowLedgerAudit.connect(signers.bob).openAuditRecords(1, [1])).to.be.revertedWith(
+          "ShadowLedger: only engagement auditor",
+        );
+        // Sales is not in the engagement, record 3 was booked after its window
+        await expect(audit.openAuditRecords(1, [2])).to.be.revertedWith("ShadowLedger: record out of scope");
+        await expect(audit.openAuditRecords(1, [3])).to.be.revertedWith("ShadowLedger: record out of scope");
+        await expect(asAuditor.getRecord(2)).to.be.revertedWith("ShadowLedger: access denied");
+
+        expect(await audit.isAuditRecordReadable(1, 1)).to.eq(false);
+        await (await audit.openAuditRecords(1, [1])).wait();
+        expect(await audit.isAuditRecordReadable(1, 1)).to.eq(true);
+
+        // The auditor is never granted the amount; the relayer decrypts it for them
+        const record = await asAuditor.getRecord(1);
+        await expectDecryptDenied(signers.charlie, record.amount);
+        await expect(audit.getAuditRecordAmount(1, 1)).to.be.revertedWith("ShadowLedger: only audit relayer");
+        await expect(shadowLedgerAudit.connect(relayer).getAuditRecordAmount(1, 3)).to.be.revertedWith(
+          "ShadowLedger: record not readable",
+        );
+        const handle = await shadowLedgerAudit.connect(relayer).getAuditRecordAmount(1, 1);
+        expect(handle).to.eq(record.amount);
+        const amount = await fhevm.userDecryptEuint(FhevmType.euint128, handle, shadowLedgerContractAddress, relayer);
+        expect(amount).to.eq(1000);
+
+        await expect(asAuditor.calculateTotalIncome([engineeringId, salesId], 0, 0, 0, now, false)).to.be.revertedWith(
+          "ShadowLedger: only department member",
+        );
+
+        // Engineering's record booked after the window is out of reach too
+        await expect(asAuditor.getRecord(3)).to.be.revertedWith("ShadowLedger: access denied");
+        await expect(asAuditor.getCorrectionChain(3)).to.be.revertedWith("ShadowLedger: access denied");
+        expect(await asAuditor.getAllRecords(0, 10)).to.deep.eq([1n]);
+        const views = await shadowLedgerExtension.connect(signers.charlie).getRecords([1, 3]);
+        expect(views.map((view) => view.record.id)).to.deep.eq([1n]);
+        expect(
+          await shadowLedgerExtension.connect(signers.charlie).getCreatorRecords(signers.alice.address, 0, 10),
+        ).to.deep.eq([1n]);
+      });
+
+      it("should relay values to the engagement auditor alone, while the engagement is live", async function () {
+        await (await shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(relayer.address)).wait();
+        await engage([engineeringId], now + 3600);
+        await (await shadowLedgerAudit.connect(signers.charlie).openAuditRecords(1, [1])).wait();
+        const tx = await shadowLedgerContract
+          .connect(signers.charlie)
+          .calculateTotalIncome([engineeringId], 0, 0, 0, 0, false);
+        await tx.wait();
+
+        const items: RelayItem[] = [
+          { kind: "record", recordId: "1" },
+          { kind: "calculation", calculationId: "1" },
+          { kind: "record", recordId: "2" },
+        ];
+        const chainId = Number((await ethers.provider.getNetwork()).chainId);
+        async function relay(signer: HardhatEthersSigner, overrides: Partial<RelayRequestMessage> = {}) {
+          const { privateKey, publicKey } = await createRelayKeyPair();
+          const message = JSON.stringify({
+            contract: shadowLedgerContractAddress,
+            chainId,
+            items,
+            publicKey,
+            issuedAt: Math.floor(Date.now() / 1000),
+            ...overrides,
+          });
+          const signature = await signer.signMessage(message);
+          const response = await handleRelayRequest(hre, shadowLedgerAudit.connect(relayer), relayer, {
+            message,
+            signature,
+          });
+          return openRelayResponse(privateKey, response);
+        }
+
+        // Record 2 is Sales', which the engagement does not include
+        const refused = { error: "not readable under a live engagement" };
+        expect(await relay(signers.charlie)).to.deep.eq([
+          { values: { amount: "1000" } },
+          { values: { result: "1000" } },
+          refused,
+        ]);
+        expect(await relay(signers.alice)).to.deep.eq([refused, refused, refused]);
+
+        for (const [overrides, reason] of [
+          [{ issuedAt: 0 }, "request expired"],
+          [{ contract: relayer.address }, "request is for another ledger"],
+          [{ chainId: 1 }, "request is for another ledger"],
+        ] as const) {
+          let error: Error | undefined;
+          try {
+            await relay(signers.charlie, overrides);
+          } catch (e) {
+            error = e as Error;
+          }
+          expect(error?.message).to.eq(reason);
+        }
+
+        await (await shadowLedgerAudit.connect(signers.deployer).revokeAuditEngagement(1)).wait();
+        expect(await relay(signers.charlie)).to.deep.eq([refused, refused, refused]);
+      });
+
+      it("should stop relaying opened records on expiry, revocation and auditor removal", async function () {
+        await (await shadowLedgerAudit.connect(signers.deployer).setAuditRelayer(relayer.address)).wait();
+        await engage([engineeringId], now + 3600);
+        await engage([salesId], now + 7200);
+        const asAuditor = shadowLedgerContract.connect(signers.charlie);
+        const audit = shadowLedgerAudit.connect(signers.charlie);
+        await (await audit.openAuditRecords(1, [1])).wait();
+        await (await audit.openAuditRecords(2, [2])).wait();
+
+        await advanceTime(3600);
+        expect(await audit.isAuditRecordReadable(1, 1)).to.eq(false);
+        expect(await audit.isAuditRecordReadable(2, 2)).to.eq(true);
+        await expect(shadowLedgerAudit.connect(relayer).getAuditRecordAmount(1, 1)).to.be.revertedWith(
+          "ShadowLedger: record not readable",
+        );
+        await expect(asAuditor.getRecord(1)).to.be.revertedWith("ShadowLedger: access denied");
+        await expect(audit.openAuditRecords(1, [1])).to.be.revertedWith("ShadowLedger: engagement not active");
+        await expect(asAuditor.calculateTotalIncome([engineeringId], 0, 0, 0, now, false)).to.be.revertedWith(
+          "ShadowLedger: only department member",
+        );
+
+        await expect(shadowLedgerAudit.connect(signers.alice).revokeAuditEngagement(2)).to.be.revertedWith(
+          "ShadowLedger: only system admin",
+        );
+        let tx = await shadowLedgerAudit.connect(signers.deployer).revokeAuditEngagement(2);
+        await tx.wait();
+        expect((await shadowLedgerAudit.getAuditEngagement(2)).revoked).to.eq(true);
+        expect(await audit.isAuditRecordReadable(2, 2)).to.eq(false);
+        await expect(shadowLedgerAudit.connect(relayer).getAuditRecordAmount(2, 2)).to.be.revertedWith(
+          "ShadowLedger: record not readable",
+        );
+        await expect(audit.openAuditRecords(2, [2])).to.be.revertedWith("ShadowLedger: engagement not active");
+        await expect(shadowLedgerAudit.connect(signers.deployer).revokeAuditEngagement(2)).to.be.revertedWith(
+          "ShadowLedger: engagement revoked",
+        );
+
+        now = (await ethers.provider.getBlock("latest"))!.timestamp;
+        await engage([salesId], now + 3600);
+        await (await audit.openAuditRecords(3, [2])).wait();
+        expect(await audit.isAuditRecordReadable(3, 2)).to.eq(true);
+        tx = await shadowLedgerContract.connect(signers.deployer).removeAuditor(signers.charlie.address);
+        await tx.wait();
+        expect(await audit.isAuditRecordReadable(3, 2)).to.eq(false);
+        await expect(shadowLedgerAudit.connect(relayer).getAuditRecordAmount(3, 2)).to.be.revertedWith(
+          "ShadowLedger: record not readable",
+        );
+        await expect(audit.openAuditRecords(3, [2])).to.be.revertedWith("ShadowLedger: engagement not active");
+
+        // Nothing opened along the way was ever decryptable by the auditor
+        const { amount } = await shadowLedgerContract.connect(signers.bob).getRecord(2);
+        await expectDecryptDenied(signers.charlie, amount);
+      });
+    });
+  });
+});
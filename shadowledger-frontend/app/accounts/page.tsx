@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { Category, RecordType, useShadowLedger } from "@/hooks/useShadowLedger";
+
+export default function AccountsPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState({
+    name: "",
+    recordType: 1 as RecordType,
+    parentId: "",
+  });
+
+  const isSystemAdmin =
+    shadowLedger.governance !== undefined &&
+    shadowLedger.governance.systemAdmin.toLowerCase() === accounts?.[0]?.toLowerCase();
+
+  const handleCreateCategory = async () => {
+    if (!formData.name) {
+      alert("Please enter a category name");
+      return;
+    }
+
+    await shadowLedger.createCategory(
+      formData.name,
+      BigInt(formData.parentId || "0"),
+      formData.recordType
+    );
+    setShowCreateForm(false);
+    setFormData({ name: "", recordType: formData.recordType, parentId: "" });
+  };
+
+  // Depth-first so children are listed under their parent
+  const flattenTree = (parentId: bigint, depth: number, recordType: RecordType): { category: Category; depth: number }[] =>
+    shadowLedger.categories
+      .filter((category) => category.parentId === parentId && category.recordType === recordType)
+      .flatMap((category) => [
+        { category, depth },
+        ...flattenTree(category.id, depth + 1, recordType),
+      ]);
+
+  const renderTree = (recordType: RecordType) => {
+    const rows = flattenTree(BigInt(0), 0, recordType);
+    if (rows.length === 0) {
+      return <p className="text-sm text-muted-foreground">No categories yet.</p>;
+    }
+
+    return (
+      <div className="space-y-1">
+        {rows.map(({ category, depth }) => (
+          <div
+            key={category.id.toString()}
+            className="flex items-center justify-between py-2 px-3 rounded-lg hover:bg-muted/50"
+            style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}
+          >
+            <span className="text-sm font-medium">
+              {depth > 0 && <span className="text-muted-foreground mr-2">└</span>}
+              {category.name}
+            </span>
+            <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
+              ID: {category.id.toString()}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Chart of Accounts</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to view the chart of accounts.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Chart of Accounts</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Chart of Accounts</span>
+            </h1>
+            <div className="flex gap-2">
+              <button
+                onClick={() => shadowLedger.refreshCategories()}
+                disabled={shadowLedger.isLoading}
+                className="btn-secondary text-sm"
+              >
+                {shadowLedger.isLoading ? "⏳ Loading..." : "🔄 Refresh"}
+              </button>
+              {isSystemAdmin && (
+                <button
+                  onClick={() => setShowCreateForm(!showCreateForm)}
+                  className={`btn-primary text-sm ${showCreateForm ? "bg-secondary text-secondary-foreground hover:bg-secondary/80" : ""}`}
+                >
+                  {showCreateForm ? "✕ Cancel" : "+ Add Category"}
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="text-muted-foreground">Categories for classifying income and expense records</p>
+        </div>
+
+        {showCreateForm && isSystemAdmin && (
+          <div className="card card-hover mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>🗂️</span> Add Category
+            </h2>
+            <div className="space-y-5">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Type</label>
+                <select
+                  value={formData.recordType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, recordType: Number(e.target.value) as RecordType, parentId: "" })
+                  }
+                  className="input-field"
+                >
+                  <option value={0}>💰 Income</option>
+                  <option value={1}>💸 Expense</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Parent Category <span className="text-muted-foreground font-normal">(optional)</span></label>
+                <select
+                  value={formData.parentId}
+                  onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                  className="input-field"
+                >
+                  <option value="">None (top level)</option>
+                  {flattenTree(BigInt(0), 0, formData.recordType).map(({ category, depth }) => (
+                    <option key={category.id.toString()} value={category.id.toString()}>
+                      {"— ".repeat(depth)}{category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="input-field"
+                  placeholder="e.g. Travel"
+                />
+              </div>
+              <button
+                onClick={handleCreateCategory}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary w-full"
+              >
+                {shadowLedger.isLoading ? "⏳ Creating..." : "✨ Add Category"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="card">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>💰</span> Income
+            </h2>
+            {renderTree(0)}
+          </div>
+          <div className="card">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>💸</span> Expense
+            </h2>
+            {renderTree(1)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { useShadowLedger } from "@/hooks/useShadowLedger";
+
+export default function AdminPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const governance = shadowLedger.governance;
+  const account = accounts?.[0]?.toLowerCase();
+  const isSystemAdmin = governance?.systemAdmin.toLowerCase() === account;
+  const isPendingSystemAdmin = governance?.pendingSystemAdmin.toLowerCase() === account;
+  const isMultiAdmin = governance !== undefined && governance.threshold > BigInt(0);
+  const isGovernanceAdmin = governance?.admins.some((admin) => admin.toLowerCase() === account) ?? false;
+  // Who may start or confirm a sensitive call under the current mode
+  const canActAsAdmin = isMultiAdmin ? isGovernanceAdmin : isSystemAdmin;
+
+  const [newSystemAdmin, setNewSystemAdmin] = useState("");
+  const [adminsInput, setAdminsInput] = useState("");
+  const [thresholdInput, setThresholdInput] = useState("");
+
+  // Addresses may be pasted separated by commas, semicolons, spaces or new lines
+  const governanceAdmins = adminsInput.split(/[\s,;]+/).filter((value) => value !== "");
+  const invalidGovernanceAdmins = governanceAdmins.filter(
+    (admin, i) =>
+      !ethers.isAddress(admin) ||
+      governanceAdmins.findIndex((other) => other.toLowerCase() === admin.toLowerCase()) < i
+  );
+  const threshold = Number(thresholdInput || "0");
+  const isGovernanceFormValid =
+    invalidGovernanceAdmins.length === 0 &&
+    Number.isInteger(threshold) &&
+    threshold <= governanceAdmins.length &&
+    (threshold === 0) === (governanceAdmins.length === 0);
+
+  const handleTransferSystemAdmin = async () => {
+    if (!ethers.isAddress(newSystemAdmin)) {
+      alert("Please enter a valid address");
+      return;
+    }
+
+    await shadowLedger.transferSystemAdmin(newSystemAdmin);
+    setNewSystemAdmin("");
+  };
+
+  const handleEditGovernance = () => {
+    setAdminsInput(governance?.admins.join("\n") ?? "");
+    setThresholdInput(governance ? governance.threshold.toString() : "");
+  };
+
+  const handleUpdateGovernance = async () => {
+    if (!isGovernanceFormValid) return;
+    if (
+      threshold === 0 &&
+      !confirm("Turn multi-admin mode off? The system admin will act alone again.")
+    ) {
+      return;
+    }
+
+    await shadowLedger.updateGovernance(governanceAdmins, BigInt(threshold));
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Administration</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to manage system administration.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Administration</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Administration</span>
+            </h1>
+            <button
+              onClick={() => shadowLedger.refreshGovernance()}
+              disabled={shadowLedger.isLoading}
+              className="btn-secondary text-sm"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <p className="text-muted-foreground">System admin handover and multi-admin governance</p>
+        </div>
+
+        {isPendingSystemAdmin && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm">
+                🎖️ You have been nominated as the system admin.
+              </p>
+              <button
+                onClick={() => shadowLedger.acceptSystemAdmin()}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary text-sm whitespace-nowrap"
+              >
+                ✅ Accept System Admin Role
+              </button>
+            </div>
+          </div>
+        )}
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        <div className="card card-hover mb-6">
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+            <span>🛡️</span> System Admin
+          </h2>
+          {!governance ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <div className="space-y-5">
+              <div className="space-y-2 text-sm">
+                <p>
+                  <span className="text-muted-foreground">Current: </span>
+                  <span className="font-mono text-xs">{governance.systemAdmin}</span>
+                  {isSystemAdmin && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                {governance.pendingSystemAdmin !== ethers.ZeroAddress && (
+                  <div className="flex justify-between items-center border rounded-lg px-4 py-2">
+                    <span>
+                      Waiting for <span className="font-mono text-xs">{governance.pendingSystemAdmin}</span> to accept
+                    </span>
+                    {canActAsAdmin && (
+                      <button
+                        onClick={() => shadowLedger.transferSystemAdmin("")}
+                        disabled={shadowLedger.isLoading}
+                        className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              {canActAsAdmin && (
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Hand over system admin role</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newSystemAdmin}
+                      onChange={(e) => setNewSystemAdmin(e.target.value)}
+                      className="input-field flex-1 font-mono"
+                      placeholder="0x..."
+                    />
+                    <button
+                      onClick={handleTransferSystemAdmin}
+                      disabled={shadowLedger.isLoading || !newSystemAdmin}
+                      className="btn-secondary text-sm whitespace-nowrap"
+                    >
+                      📨 Nominate
+                    </button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    The nominee becomes system admin once they accept.
+                    {isMultiAdmin && " In multi-admin mode the nomination needs the usual confirmations."}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="card card-hover mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <span>🗝️</span> Multi-Admin Mode
+            </h2>
+            {canActAsAdmin && (
+              <button
+                onClick={handleEditGovernance}
+                className="btn-secondary text-sm"
+              >
+                ✏️ Edit
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground mb-6">
+            When on, creating departments, adding or removing auditors, handing over the system admin role and
+            changing these settings need confirmations from several governance admins. Each admin confirms by
+            sending the same call.
+          </p>
+          {governance && (
+            <div className="text-sm space-y-1 mb-6">
+              {isMultiAdmin ? (
+                <>
+                  <p>
+                    <span className="font-semibold">
+                      {governance.threshold.toString()} of {governance.admins.length}
+                    </span>{" "}
+                    admins must confirm
+                  </p>
+                  {governance.admins.map((admin) => (
+                    <p key={admin} className="font-mono text-xs">
+                      {admin}
+                      {admin.toLowerCase() === account && <span className="font-sans text-muted-foreground"> (you)</span>}
+                    </p>
+                  ))}
+                </>
+              ) : (
+                <p className="text-muted-foreground">Off. The system admin acts alone.</p>
+              )}
+            </div>
+          )}
+          {canActAsAdmin && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Governance admins</label>
+                <textarea
+                  value={adminsInput}
+                  onChange={(e) => setAdminsInput(e.target.value)}
+                  className="input-field font-mono text-xs h-28"
+                  placeholder={"One address per line; leave empty to turn multi-admin mode off\n0x...\n0x..."}
+                />
+                {invalidGovernanceAdmins.length > 0 && (
+                  <p className="text-xs mt-2 text-red-600 dark:text-red-400">
+                    Invalid or repeated: {invalidGovernanceAdmins.join(", ")}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Confirmations required</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={governanceAdmins.length}
+                  value={thresholdInput}
+                  onChange={(e) => setThresholdInput(e.target.value)}
+                  className="input-field sm:w-40"
+                  placeholder="0"
+                />
+              </div>
+              <button
+                onClick={handleUpdateGovernance}
+                disabled={shadowLedger.isLoading || !isGovernanceFormValid}
+                className="btn-primary w-full"
+              >
+                {isMultiAdmin ? "🗳️ Confirm Change" : "💾 Save"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+            <span>📋</span> Admin Actions
+          </h2>
+          {shadowLedger.adminActions.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">🗳️</div>
+              <p className="text-muted-foreground">No admin actions yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {shadowLedger.adminActions.map((action) => {
+                const isOpen = !action.executed && !action.lapsed;
+                const hasConfirmed = action.confirmedBy.some((admin) => admin.toLowerCase() === account);
+                return (
+                  <div
+                    key={action.id.toString()}
+                    className={`border rounded-lg p-4 ${isOpen ? "" : "opacity-60"}`}
+                  >
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="text-sm space-y-1 min-w-0">
+                        <p className="font-mono text-xs break-all">
+                          #{action.id.toString()} {action.call}
+                        </p>
+                        <p className="text-muted-foreground">
+                          Proposed by <span className="font-mono text-xs">{action.proposer}</span> on{" "}
+                          {new Date(Number(action.createdAt) * 1000).toLocaleString()}
+                        </p>
+                        <p>
+                          {action.executed
+                            ? "✅ Executed"
+                            : action.lapsed
+                              ? "⌛ Lapsed: the admin set changed before it was confirmed"
+                              : `⏳ ${action.confirmations.toString()} of ${governance?.threshold.toString()} confirmations`}
+                        </p>
+                      </div>
+                      {isOpen && isGovernanceAdmin && (
+                        <button
+                          onClick={() => shadowLedger.confirmAdminAction(action.id)}
+                          disabled={shadowLedger.isLoading || hasConfirmed}
+                          className="text-xs px-3 py-1.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 whitespace-nowrap"
+                        >
+                          {hasConfirmed ? "Confirmed" : "🗳️ Confirm"}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,554 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { ApprovalPolicy, Record, RecordScope, useShadowLedger } from "@/hooks/useShadowLedger";
+
+const STATUS_LABELS = ["", "Pending", "Approved", "Rejected"];
+const PAGE_SIZE = 50;
+
+export default function ApprovalsPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const account = accounts?.[0]?.toLowerCase();
+
+  const [reviewDepartmentIds, setReviewDepartmentIds] = useState<bigint[]>([]);
+  const [inbox, setInbox] = useState<Record[]>([]);
+  const [mySubmissions, setMySubmissions] = useState<Record[]>([]);
+  const [isLoadingRecords, setIsLoadingRecords] = useState(false);
+  const [decryptedAmounts, setDecryptedAmounts] = useState<Map<bigint, bigint>>(new Map());
+  const [thresholdResults, setThresholdResults] = useState<Map<bigint, boolean>>(new Map());
+  const [rejecting, setRejecting] = useState<{ recordId: bigint; reason: string } | undefined>(undefined);
+
+  const [policyDepartmentId, setPolicyDepartmentId] = useState<string>("");
+  const [policy, setPolicy] = useState<ApprovalPolicy | undefined>(undefined);
+  const [policyThreshold, setPolicyThreshold] = useState<bigint | undefined>(undefined);
+  const [policyForm, setPolicyForm] = useState({ threshold: "", approvers: "", requiredApprovals: "1" });
+
+  const adminDepartments = shadowLedger.departments.filter(
+    (dept) => dept.admin.toLowerCase() === account
+  );
+
+  const departmentNames = new Map(
+    shadowLedger.departments.map((dept) => [dept.id.toString(), dept.name])
+  );
+
+  const { loadRecordPage } = shadowLedger;
+
+  // Every page of one index, since held expenses can sit anywhere in it
+  const loadScope = useCallback(
+    async (scope: RecordScope) => {
+      const scopeRecords: Record[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const result = await loadRecordPage(scope, offset, PAGE_SIZE);
+        if (!result) break;
+        scopeRecords.push(...result.records);
+        if (BigInt(offset + PAGE_SIZE) >= result.total) break;
+      }
+      return scopeRecords;
+    },
+    [loadRecordPage]
+  );
+
+  // Department admins and listed approvers review pending expenses, but never their own
+  const loadRecords = useCallback(async () => {
+    if (!account) return;
+
+    setIsLoadingRecords(true);
+    try {
+      const reviewed: Record[] = [];
+      for (const departmentId of reviewDepartmentIds) {
+        reviewed.push(...(await loadScope({ kind: "department", departmentId })));
+      }
+      const submitted = await loadScope({ kind: "creator", creator: account });
+
+      setInbox(
+        reviewed.filter((record) => record.approvalStatus === 1 && record.creator.toLowerCase() !== account)
+      );
+      setMySubmissions(submitted.filter((record) => record.approvalStatus !== 0));
+    } finally {
+      setIsLoadingRecords(false);
+    }
+  }, [account, reviewDepartmentIds, loadScope]);
+
+  useEffect(() => {
+    if (shadowLedger.canInteract) {
+      loadRecords();
+    }
+  }, [shadowLedger.canInteract, loadRecords]);
+
+  useEffect(() => {
+    if (!account || !shadowLedger.canInteract) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const ids: bigint[] = [];
+      for (const dept of shadowLedger.departments) {
+        if (await shadowLedger.isApprover(dept.id, account)) {
+          ids.push(dept.id);
+        }
+      }
+      if (!cancelled) {
+        setReviewDepartmentIds(ids);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [account, shadowLedger.canInteract, shadowLedger.departments]);
+
+  const handleDecryptAmount = async (record: Record) => {
+    const decrypted = await shadowLedger.decryptAmount(record.amountHandle);
+    if (decrypted !== undefined) {
+      setDecryptedAmounts((prev) => new Map(prev).set(record.id, decrypted));
+    }
+  };
+
+  const handleCheckThreshold = async (record: Record) => {
+    const required = await shadowLedger.decryptFlag(record.approvalRequiredHandle);
+    if (required !== undefined) {
+      setThresholdResults((prev) => new Map(prev).set(record.id, required));
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    if (!rejecting.reason.trim()) {
+      alert("Please give a reason for the rejection");
+      return;
+    }
+
+    await shadowLedger.rejectRecord(rejecting.recordId, rejecting.reason.trim());
+    setRejecting(undefined);
+    await loadRecords();
+  };
+
+  const handleApprove = async (record: Record) => {
+    await shadowLedger.approveRecord(record.id);
+    await loadRecords();
+  };
+
+  // Expenses under the threshold are settled on booking; this catches any left pending
+  const handleSettle = async (record: Record) => {
+    if (await shadowLedger.settleApproval(record.id)) {
+      await loadRecords();
+    }
+  };
+
+  const loadPolicy = async (departmentId: string) => {
+    setPolicyDepartmentId(departmentId);
+    setPolicy(undefined);
+    setPolicyThreshold(undefined);
+    if (!departmentId) return;
+
+    const loaded = await shadowLedger.getApprovalPolicy(BigInt(departmentId));
+    setPolicy(loaded);
+    setPolicyForm({
+      threshold: "",
+      approvers: loaded ? loaded.approvers.join("\n") : "",
+      requiredApprovals: loaded ? loaded.requiredApprovals.toString() : "1",
+    });
+  };
+
+  const handleDecryptThreshold = async () => {
+    if (!policy) return;
+
+    const decrypted = await shadowLedger.decryptAmount(policy.thresholdHandle);
+    if (decrypted !== undefined) {
+      setPolicyThreshold(decrypted);
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    if (!policyDepartmentId || !policyForm.threshold) {
+      alert("Please select a department and enter a threshold");
+      return;
+    }
+
+    const approvers = policyForm.approvers
+      .split(/[\s,]+/)
+      .map((address) => address.trim())
+      .filter(Boolean);
+    const invalid = approvers.find((address) => !ethers.isAddress(address));
+    if (invalid) {
+      alert(`Invalid approver address: ${invalid}`);
+      return;
+    }
+
+    // The admin cannot review their own expenses, so someone else must be able to
+    if (approvers.length === 0) {
+      alert("Please enter at least one approver besides the department admin");
+      return;
+    }
+    if (approvers.some((address) => address.toLowerCase() === account)) {
+      alert("The department admin cannot be an approver");
+      return;
+    }
+
+    const requiredApprovals = Number(policyForm.requiredApprovals);
+    if (requiredApprovals < 1 || requiredApprovals > approvers.length) {
+      alert(`Required approvals must be between 1 and ${approvers.length}`);
+      return;
+    }
+
+    await shadowLedger.setApprovalPolicy(
+      BigInt(policyDepartmentId),
+      BigInt(policyForm.threshold),
+      approvers,
+      BigInt(requiredApprovals)
+    );
+    await loadPolicy(policyDepartmentId);
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Approvals</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to review pending expenses.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Approvals</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Approvals</span>
+            </h1>
+            <button
+              onClick={loadRecords}
+              disabled={shadowLedger.isLoading || isLoadingRecords}
+              className="btn-secondary text-sm"
+            >
+              {isLoadingRecords ? "⏳ Loading..." : "🔄 Refresh"}
+            </button>
+          </div>
+          <p className="text-muted-foreground">Review expenses held for approval</p>
+        </div>
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        <div className="card mb-6">
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+            <span>📥</span> Inbox
+          </h2>
+          {inbox.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">✅</div>
+              <p className="text-muted-foreground">Nothing waiting for your review.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {inbox.map((record) => (
+                <div key={record.id.toString()} className="card bg-gradient-to-br from-muted/30 to-muted/10">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
+                          #{record.id.toString()}
+                        </span>
+                        <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
+                          {departmentNames.get(record.departmentId.toString()) ?? `Dept #${record.departmentId.toString()}`}
+                        </span>
+                        {record.approvalCount > BigInt(0) && (
+                          <span className="text-xs text-muted-foreground">
+                            {record.approvalCount.toString()} approval(s) so far
+                          </span>
+                        )}
+                      </div>
+                      <p className="font-medium mb-1">{record.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Submitted by <span className="font-mono">{record.creator}</span> on{" "}
+                        {new Date(Number(record.timestamp) * 1000).toLocaleString()}
+                      </p>
+                      <div className="flex flex-wrap gap-2 mt-3 text-sm">
+                        {decryptedAmounts.has(record.id) ? (
+                          <span className="font-semibold">Amount: {decryptedAmounts.get(record.id)!.toString()}</span>
+                        ) : (
+                          <button
+                            onClick={() => handleDecryptAmount(record)}
+                            className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                          >
+                            🔓 Decrypt amount
+                          </button>
+                        )}
+                        {thresholdResults.has(record.id) ? (
+                          thresholdResults.get(record.id) ? (
+                            <span className="text-amber-600">Above threshold: held until approved</span>
+                          ) : (
+                            <>
+                              <span className="text-green-600">Under threshold: already counted</span>
+                              <button
+                                onClick={() => handleSettle(record)}
+                                disabled={shadowLedger.isLoading}
+                                className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                              >
+                                ✓ Settle
+                              </button>
+                            </>
+                          )
+                        ) : (
+                          <button
+                            onClick={() => handleCheckThreshold(record)}
+                            className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                          >
+                            🔍 Check threshold
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleApprove(record)}
+                        disabled={shadowLedger.isLoading}
+                        className="btn-primary text-sm"
+                      >
+                        ✓ Approve
+                      </button>
+                      <button
+                        onClick={() => setRejecting({ recordId: record.id, reason: "" })}
+                        disabled={shadowLedger.isLoading}
+                        className="btn-secondary text-sm"
+                      >
+                        ✕ Reject
+                      </button>
+                    </div>
+                  </div>
+                  {rejecting?.recordId === record.id && (
+                    <div className="mt-4 flex gap-2 border-t pt-4">
+                      <input
+                        type="text"
+                        value={rejecting.reason}
+                        onChange={(e) => setRejecting({ ...rejecting, reason: e.target.value })}
+                        className="input-field"
+                        placeholder="Reason for rejection"
+                      />
+                      <button
+                        onClick={handleReject}
+                        disabled={shadowLedger.isLoading}
+                        className="btn-primary text-sm"
+                      >
+                        Confirm
+                      </button>
+                      <button
+                        onClick={() => setRejecting(undefined)}
+                        className="btn-secondary text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {mySubmissions.length > 0 && (
+          <div className="card mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>📤</span> My Submissions
+            </h2>
+            <div className="space-y-2">
+              {mySubmissions.map((record) => (
+                <div
+                  key={record.id.toString()}
+                  className="flex items-center justify-between py-2 px-3 rounded-lg hover:bg-muted/50"
+                >
+                  <span className="text-sm">
+                    <span className="text-muted-foreground mr-2">#{record.id.toString()}</span>
+                    {record.description}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {record.approvalStatus === 1 && (
+                      <button
+                        onClick={() => handleSettle(record)}
+                        disabled={shadowLedger.isLoading}
+                        className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                      >
+                        ✓ Settle if under threshold
+                      </button>
+                    )}
+                    <span className="text-xs bg-muted px-2 py-1 rounded-full">
+                      {STATUS_LABELS[record.approvalStatus]}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {adminDepartments.length > 0 && (
+          <div className="card">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>⚙️</span> Approval Policy
+            </h2>
+            <div className="space-y-5">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Department</label>
+                <select
+                  value={policyDepartmentId}
+                  onChange={(e) => loadPolicy(e.target.value)}
+                  className="input-field"
+                >
+                  <option value="">Select a department</option>
+                  {adminDepartments.map((dept) => (
+                    <option key={dept.id.toString()} value={dept.id.toString()}>
+                      {dept.name} (ID: {dept.id.toString()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {policyDepartmentId && (
+                <>
+                  <div className="text-sm text-muted-foreground">
+                    {policy ? (
+                      <div className="flex items-center gap-3">
+                        <span>
+                          Current policy: department admin or {policy.requiredApprovals.toString()} of{" "}
+                          {policy.approvers.length} approvers
+                        </span>
+                        {policyThreshold !== undefined ? (
+                          <span className="font-semibold text-foreground">Threshold: {policyThreshold.toString()}</span>
+                        ) : (
+                          <button
+                            onClick={handleDecryptThreshold}
+                            className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                          >
+                            🔓 Decrypt threshold
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      "No approval policy yet: expenses are booked directly."
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Threshold</label>
+                    <input
+                      type="number"
+                      value={policyForm.threshold}
+                      onChange={(e) => setPolicyForm({ ...policyForm, threshold: e.target.value })}
+                      className="input-field"
+                      placeholder="Expenses above this amount need approval"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
+                      <span>🔒</span> The threshold is encrypted; submitters cannot see it
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Approvers <span className="text-muted-foreground font-normal">(one address per line, not the admin)</span></label>
+                    <textarea
+                      value={policyForm.approvers}
+                      onChange={(e) => setPolicyForm({ ...policyForm, approvers: e.target.value })}
+                      className="input-field font-mono min-h-24"
+                      placeholder="Reviews the department admin's own expenses"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Required Approvals</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={policyForm.requiredApprovals}
+                      onChange={(e) => setPolicyForm({ ...policyForm, requiredApprovals: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSavePolicy}
+                    disabled={shadowLedger.isLoading}
+                    className="btn-primary w-full"
+                  >
+                    {shadowLedger.isLoading ? "⏳ Saving..." : "💾 Save Policy"}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,42 @@
 "use client";
 
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useShadowLedger } from "@/hooks/useShadowLedger";
+import {
+  AuditEngagement,
+  describeAdminConfirmation,
+  getPendingAdminConfirmation,
+  Record,
+  useShadowLedger,
+} from "@/hooks/useShadowLedger";
 import { ethers } from "ethers";
 import { useState, useEffect } from "react";
 import { ShadowLedgerAddresses } from "@/abi/ShadowLedgerAddresses";
 import { ShadowLedgerABI } from "@/abi/ShadowLedgerABI";
+import { RecordExport } from "@/components/RecordExport";
+
+// Records opened per transaction, to stay well inside the block gas limit
+const OPEN_BATCH_SIZE = 50;
+// Records per audit relayer request, one wallet signature each
+const RELAY_BATCH_SIZE = 100;
+// Ledger ids scanned per page; records outside the auditor's engagements are dropped
+const PAGE_SIZE = 50;
+
+const formatDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleDateString();
+
+// Date inputs give local days; a window runs from the start of its first day
+// to the end of its last
+const dayStart = (value: string) => BigInt(Math.floor(new Date(`${value}T00:00:00`).getTime() / 1000));
+const dayEnd = (value: string) => BigInt(Math.floor(new Date(`${value}T23:59:59`).getTime() / 1000));
+
+const isInEngagement = (record: Record, engagement: AuditEngagement) =>
+  engagement.departmentIds.includes(record.departmentId) &&
+  record.timestamp >= engagement.fromTimestamp &&
+  record.timestamp <= engagement.toTimestamp;
 
 export default function AuditPage() {
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
   const {
     provider,
     chainId,
@@ -36,6 +62,7 @@ export default function AuditPage() {
   const shadowLedger = useShadowLedger({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -45,27 +72,56 @@ export default function AuditPage() {
   });
 
   const [isAuditor, setIsAuditor] = useState<boolean | undefined>(undefined);
-  const [allRecords, setAllRecords] = useState<
-    Array<{
-      id: bigint;
-      recordType: 0 | 1;
-      amountHandle: string;
-      amountDecrypted?: bigint;
-      departmentId: bigint;
-      projectId: bigint;
-      description: string;
-      timestamp: bigint;
-      creator: string;
-    }>
-  >([]);
+  const [allRecords, setAllRecords] = useState<Record[]>([]);
+  // Ledger offset the next page starts at, and the ledger size when last read
+  const [nextOffset, setNextOffset] = useState(0);
+  const [ledgerSize, setLedgerSize] = useState<bigint | undefined>(undefined);
   const [isLoadingAudit, setIsLoadingAudit] = useState(false);
-  const [decryptingRecordId, setDecryptingRecordId] = useState<bigint | undefined>(undefined);
   
   // Add auditor functionality
   const [newAuditorAddress, setNewAuditorAddress] = useState<string>("");
   const [isAddingAuditor, setIsAddingAuditor] = useState(false);
   const [addAuditorMessage, setAddAuditorMessage] = useState<string>("");
 
+  // Engagements scope an auditor to some departments and a time window until they expire
+  const [engagements, setEngagements] = useState<AuditEngagement[]>([]);
+  const [engagementAuditor, setEngagementAuditor] = useState("");
+  const [engagementDepartmentIds, setEngagementDepartmentIds] = useState<string[]>([]);
+  const [engagementFrom, setEngagementFrom] = useState("");
+  const [engagementTo, setEngagementTo] = useState("");
+  const [engagementExpires, setEngagementExpires] = useState("");
+  // Empty while browsing every record the auditor's engagements cover
+  const [selectedEngagementId, setSelectedEngagementId] = useState("");
+  const [isDecryptingRecords, setIsDecryptingRecords] = useState(false);
+  // Holds the grants of opened records and decrypts them for engagement auditors
+  const [auditRelayer, setAuditRelayer] = useState<string>(ethers.ZeroAddress);
+  const [newRelayerAddress, setNewRelayerAddress] = useState("");
+
+  const account = accounts?.[0]?.toLowerCase();
+  const governance = shadowLedger.governance;
+  const canManageAudits =
+    governance !== undefined &&
+    (governance.threshold > BigInt(0)
+      ? governance.admins.some((admin) => admin.toLowerCase() === account)
+      : governance.systemAdmin.toLowerCase() === account);
+  const myEngagements = engagements.filter((e) => e.auditor.toLowerCase() === account);
+  const selectedEngagement = myEngagements.find((e) => e.id.toString() === selectedEngagementId);
+  const visibleRecords = selectedEngagement
+    ? allRecords.filter((record) => isInEngagement(record, selectedEngagement))
+    : allRecords;
+
+  const { loadAuditEngagements, getAuditRelayer } = shadowLedger;
+  const hasAuditRelayer = auditRelayer !== ethers.ZeroAddress;
+
+  const refreshEngagements = async () => {
+    setEngagements(await loadAuditEngagements());
+    setAuditRelayer(await getAuditRelayer());
+  };
+
+  // Rollup grants let non-auditors combine several of their departments in one calculation
+  const [rollupAddress, setRollupAddress] = useState<string>("");
+  const [rollupStatus, setRollupStatus] = useState<boolean | undefined>(undefined);
+
   const checkAuditorStatus = async () => {
     if (!shadowLedger.contractAddress || shadowLedger.contractAddress === ethers.ZeroAddress || !accounts?.[0] || !ethersReadonlyProvider) {
       setIsAuditor(false);
@@ -86,68 +142,68 @@ export default function AuditPage() {
     }
   };
 
-  const loadAllRecords = async () => {
-    if (!shadowLedger.contractAddress || !ethersReadonlyProvider || !isAuditor) return;
+  const hasMoreRecords = ledgerSize !== undefined && BigInt(nextOffset) < ledgerSize;
+
+  // Starts over from the first page, or appends the next one
+  const loadRecordPage = async (reset: boolean) => {
+    if (!isAuditor) return;
 
+    const offset = reset ? 0 : nextOffset;
     setIsLoadingAudit(true);
     try {
-      const contract = new ethers.Contract(
-        shadowLedger.contractAddress,
-        ShadowLedgerABI.abi,
-        ethersReadonlyProvider
-      );
-
-      const recordCount = await contract.getRecordCount();
-      const recordsList = [];
-
-      for (let i = BigInt(1); i <= recordCount; i++) {
-        try {
-          const recordData = await contract.getRecord(i);
-          recordsList.push({
-            id: BigInt(i),
-            recordType: Number(recordData[1]) as 0 | 1,
-            amountHandle: recordData[2],
-            departmentId: BigInt(recordData[3]),
-            projectId: BigInt(recordData[4]),
-            description: recordData[5],
-            timestamp: BigInt(recordData[6]),
-            creator: recordData[7],
-          });
-        } catch {
-          // Skip inaccessible records
-        }
-      }
+      const page = await shadowLedger.loadRecordPage({ kind: "audit" }, offset, PAGE_SIZE);
+      if (!page) return;
 
-      setAllRecords(recordsList);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      alert(`Failed to load records: ${errorMessage}`);
+      setAllRecords((prev) => (reset ? page.records : [...prev, ...page.records]));
+      setNextOffset(offset + PAGE_SIZE);
+      setLedgerSize(page.total);
     } finally {
       setIsLoadingAudit(false);
     }
   };
 
-  const handleDecryptRecord = async (recordId: bigint, handle: string) => {
-    if (!fhevmInstance || !ethersSigner) return;
-
-    setDecryptingRecordId(recordId);
-    try {
-      const decrypted = await shadowLedger.decryptAmount(handle);
-      if (decrypted !== undefined) {
-        setAllRecords((prev) =>
-          prev.map((r) =>
-            r.id === recordId
-              ? { ...r, amountDecrypted: decrypted }
-              : r
-          )
-        );
+  // Opens the records the relayer cannot read yet, under the live engagement
+  // covering each, then has it decrypt them all. Records no live engagement
+  // covers stay encrypted.
+  const relayAmounts = async (records: Record[]): Promise<Map<string, bigint> | undefined> => {
+    const toOpen = new Map<bigint, bigint[]>();
+    for (const record of records) {
+      const engagement = myEngagements.find((e) => e.active && isInEngagement(record, e));
+      if (engagement && !(await shadowLedger.isAuditRecordReadable(engagement.id, record.id))) {
+        toOpen.set(engagement.id, [...(toOpen.get(engagement.id) ?? []), record.id]);
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      alert(`Decryption failed: ${errorMessage}`);
-    } finally {
-      setDecryptingRecordId(undefined);
     }
+    for (const [engagementId, recordIds] of toOpen) {
+      for (let i = 0; i < recordIds.length; i += OPEN_BATCH_SIZE) {
+        if (!(await shadowLedger.openAuditRecords(engagementId, recordIds.slice(i, i + OPEN_BATCH_SIZE)))) {
+          return undefined;
+        }
+      }
+    }
+
+    const amounts = new Map<string, bigint>();
+    for (let i = 0; i < records.length; i += RELAY_BATCH_SIZE) {
+      const batch = records.slice(i, i + RELAY_BATCH_SIZE);
+      const results = await shadowLedger.relayAuditValues(
+        batch.map((record) => ({ kind: "record" as const, recordId: record.id.toString() }))
+      );
+      if (!results) return undefined;
+
+      results.forEach((result, j) => {
+        if ("values" in result) {
+          amounts.set(batch[j].amountHandle, BigInt(result.values.amount));
+        }
+      });
+    }
+    return amounts;
+  };
+
+  const handleDecrypted = (amounts: Map<string, bigint>) => {
+    setAllRecords((prev) =>
+      prev.map((r) =>
+        amounts.has(r.amountHandle) ? { ...r, amountDecrypted: amounts.get(r.amountHandle) } : r
+      )
+    );
   };
 
   const handleAddAuditor = async () => {
@@ -175,8 +231,9 @@ export default function AuditPage() {
       const tx = await contract.addAuditor(newAuditorAddress.trim());
       setAddAuditorMessage(`Transaction submitted: ${tx.hash.slice(0, 10)}...`);
       
-      await tx.wait();
-      setAddAuditorMessage("Auditor added successfully!");
+      const receipt = await tx.wait();
+      const pending = getPendingAdminConfirmation(receipt, contract.interface);
+      setAddAuditorMessage(pending ? describeAdminConfirmation(pending) : "Auditor added successfully!");
       setNewAuditorAddress("");
       
       // Refresh auditor status if the added address is the current user
@@ -187,6 +244,10 @@ export default function AuditPage() {
       const errorMessage = error instanceof Error ? error.message : String(error);
       if (errorMessage.includes("only system admin")) {
         setAddAuditorMessage("Error: Only system admin can add auditors");
+      } else if (errorMessage.includes("only governance admin")) {
+        setAddAuditorMessage("Error: Only governance admins can add auditors in multi-admin mode");
+      } else if (errorMessage.includes("already confirmed")) {
+        setAddAuditorMessage("Error: You have already confirmed adding this auditor");
       } else if (errorMessage.includes("already auditor")) {
         setAddAuditorMessage("Error: This address is already an auditor");
       } else if (errorMessage.includes("invalid auditor")) {
@@ -199,6 +260,82 @@ export default function AuditPage() {
     }
   };
 
+  const handleCreateEngagement = async () => {
+    if (!ethers.isAddress(engagementAuditor.trim())) {
+      alert("Please enter a valid auditor address");
+      return;
+    }
+    if (engagementDepartmentIds.length === 0 || !engagementTo || !engagementExpires) {
+      alert("Please pick departments, the end of the period and the expiry date");
+      return;
+    }
+    // Without a start the window runs from the first record, which budgets need
+    const fromTimestamp = engagementFrom ? dayStart(engagementFrom) : BigInt(0);
+    const toTimestamp = dayEnd(engagementTo);
+    if (fromTimestamp > toTimestamp) {
+      alert("The period must start before it ends");
+      return;
+    }
+
+    await shadowLedger.createAuditEngagement(
+      engagementAuditor.trim(),
+      engagementDepartmentIds.map(BigInt),
+      fromTimestamp,
+      toTimestamp,
+      dayEnd(engagementExpires)
+    );
+    await refreshEngagements();
+  };
+
+  const handleRevokeEngagement = async (engagementId: bigint) => {
+    if (!confirm(`Revoke engagement #${engagementId.toString()}? The auditor cannot open any more records.`)) {
+      return;
+    }
+
+    await shadowLedger.revokeAuditEngagement(engagementId);
+    await refreshEngagements();
+  };
+
+  const handleSetRelayer = async () => {
+    if (!ethers.isAddress(newRelayerAddress.trim())) {
+      alert("Please enter a valid relayer address");
+      return;
+    }
+
+    await shadowLedger.setAuditRelayer(newRelayerAddress.trim());
+    setNewRelayerAddress("");
+    setAuditRelayer(await getAuditRelayer());
+  };
+
+  const handleDecryptVisible = async () => {
+    setIsDecryptingRecords(true);
+    try {
+      const amounts = await relayAmounts(visibleRecords.filter((r) => r.amountDecrypted === undefined));
+      if (amounts) {
+        handleDecrypted(amounts);
+      }
+    } finally {
+      setIsDecryptingRecords(false);
+    }
+  };
+
+  const handleRollupAccess = async (action: "grant" | "revoke" | "check") => {
+    const address = rollupAddress.trim();
+    if (!ethers.isAddress(address)) {
+      alert("Please enter a valid address");
+      return;
+    }
+
+    if (action === "grant") {
+      await shadowLedger.grantRollupAccess(address);
+    } else if (action === "revoke") {
+      await shadowLedger.revokeRollupAccess(address);
+    }
+
+    const access = await shadowLedger.getCalculationAccess(address);
+    setRollupStatus(access.hasRollupAccess);
+  };
+
   useEffect(() => {
     if (isConnected && accounts?.[0] && shadowLedger.contractAddress && shadowLedger.contractAddress !== ethers.ZeroAddress && ethersReadonlyProvider) {
       checkAuditorStatus();
@@ -209,6 +346,12 @@ export default function AuditPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isConnected, accounts, shadowLedger.contractAddress, ethersReadonlyProvider]);
 
+  useEffect(() => {
+    if (!shadowLedger.isDeployed) return;
+    loadAuditEngagements().then(setEngagements);
+    getAuditRelayer().then(setAuditRelayer);
+  }, [shadowLedger.isDeployed, loadAuditEngagements, getAuditRelayer]);
+
   if (!isConnected) {
     return (
       <div className="min-h-screen p-8">
@@ -273,7 +416,8 @@ export default function AuditPage() {
             <span>👤</span> Add Auditor
           </h2>
           <p className="text-sm text-muted-foreground mb-4">
-            System administrators can add new auditors. Only authorized auditors can view and decrypt all records.
+            System administrators can add new auditors. Auditors read records and calculate totals only within an
+            audit engagement.
           </p>
           <div className="flex gap-2">
             <input
@@ -303,6 +447,228 @@ export default function AuditPage() {
           )}
         </div>
 
+        <div className="card card-hover mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <span>📅</span> Audit Engagements
+            </h2>
+            <button
+              onClick={refreshEngagements}
+              className="btn-secondary text-sm"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            An engagement lets an auditor read the records some departments booked within a period, and calculate
+            their totals, until it expires. Leave the start empty to cover budgets too, as their spending runs from
+            the first record. Decryption grants cannot be taken back, so auditors never get one: the records they
+            open, their totals and the budgets they evaluate are granted to the audit relayer, which decrypts them
+            for the auditor only while the engagement is live. Expiry, revocation or removing the auditor ends their
+            access, as long as the relayer operator runs the relayer unchanged.
+          </p>
+          <div className="border rounded-lg p-4 mb-6 text-sm">
+            <p className="mb-2">
+              <span className="font-semibold">Audit relayer: </span>
+              {hasAuditRelayer ? (
+                <span className="font-mono text-xs">{auditRelayer}</span>
+              ) : (
+                <span className="text-muted-foreground">not set, auditors cannot decrypt anything yet</span>
+              )}
+            </p>
+            {canManageAudits && (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newRelayerAddress}
+                  onChange={(e) => setNewRelayerAddress(e.target.value)}
+                  placeholder="Relayer address (0x...)"
+                  className="input-field flex-1 font-mono"
+                />
+                <button
+                  onClick={handleSetRelayer}
+                  disabled={shadowLedger.isLoading || !newRelayerAddress.trim()}
+                  className="btn-secondary whitespace-nowrap"
+                >
+                  🔁 Set Relayer
+                </button>
+              </div>
+            )}
+          </div>
+          {canManageAudits && (
+            <div className="border rounded-lg p-4 mb-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Auditor</label>
+                <input
+                  type="text"
+                  value={engagementAuditor}
+                  onChange={(e) => setEngagementAuditor(e.target.value)}
+                  placeholder="0x..."
+                  className="input-field font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Departments</label>
+                <div className="flex flex-wrap gap-3">
+                  {shadowLedger.departments.map((dept) => (
+                    <label key={dept.id.toString()} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={engagementDepartmentIds.includes(dept.id.toString())}
+                        onChange={(e) =>
+                          setEngagementDepartmentIds((prev) =>
+                            e.target.checked
+                              ? [...prev, dept.id.toString()]
+                              : prev.filter((id) => id !== dept.id.toString())
+                          )
+                        }
+                      />
+                      {dept.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Records from (optional)</label>
+                  <input
+                    type="date"
+                    value={engagementFrom}
+                    onChange={(e) => setEngagementFrom(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Records to</label>
+                  <input
+                    type="date"
+                    value={engagementTo}
+                    onChange={(e) => setEngagementTo(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Access expires</label>
+                  <input
+                    type="date"
+                    value={engagementExpires}
+                    onChange={(e) => setEngagementExpires(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={handleCreateEngagement}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary w-full"
+              >
+                ➕ Create Engagement
+              </button>
+            </div>
+          )}
+          {engagements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No engagements yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {engagements.map((engagement) => (
+                <div
+                  key={engagement.id.toString()}
+                  className={`border rounded-lg p-4 ${engagement.active ? "" : "opacity-60"}`}
+                >
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="text-sm space-y-1 min-w-0">
+                      <p>
+                        <span className="font-semibold">#{engagement.id.toString()}</span>{" "}
+                        <span className="font-mono text-xs">{engagement.auditor}</span>
+                        {engagement.auditor.toLowerCase() === account && (
+                          <span className="text-muted-foreground"> (you)</span>
+                        )}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {engagement.departmentIds
+                          .map((id) => shadowLedger.departments.find((dept) => dept.id === id)?.name ?? `#${id}`)
+                          .join(", ")}{" "}
+                        · records {formatDate(engagement.fromTimestamp)} – {formatDate(engagement.toTimestamp)}
+                      </p>
+                      <p>
+                        {engagement.active
+                          ? `✅ Active until ${formatDate(engagement.expiresAt)}`
+                          : engagement.revoked
+                            ? "⛔ Revoked"
+                            : `⌛ Ended ${formatDate(engagement.expiresAt)}`}
+                      </p>
+                    </div>
+                    {canManageAudits && engagement.active && (
+                      <button
+                        onClick={() => handleRevokeEngagement(engagement.id)}
+                        disabled={shadowLedger.isLoading}
+                        className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="card card-hover mb-6">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <span>🧮</span> Rollup Access
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Members can only run calculations on their own departments. System administrators can grant an account
+            rollup access to combine several of its departments in one calculation. Auditors can aggregate the departments
+            of a live engagement over a period inside its window.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={rollupAddress}
+              onChange={(e) => {
+                setRollupAddress(e.target.value);
+                setRollupStatus(undefined);
+              }}
+              placeholder="Enter account address (0x...)"
+              className="input-field flex-1 font-mono"
+              disabled={shadowLedger.isLoading}
+            />
+            <button
+              onClick={() => handleRollupAccess("check")}
+              disabled={shadowLedger.isLoading || !rollupAddress.trim()}
+              className="btn-secondary"
+            >
+              🔍 Check
+            </button>
+            <button
+              onClick={() => handleRollupAccess("grant")}
+              disabled={shadowLedger.isLoading || !rollupAddress.trim()}
+              className="btn-secondary"
+            >
+              ➕ Grant
+            </button>
+            <button
+              onClick={() => handleRollupAccess("revoke")}
+              disabled={shadowLedger.isLoading || !rollupAddress.trim()}
+              className="btn-secondary"
+            >
+              ➖ Revoke
+            </button>
+          </div>
+          {rollupStatus !== undefined && (
+            <p className="text-sm mt-3 px-3 py-2 rounded-lg bg-primary/5 text-muted-foreground border border-primary/20">
+              {rollupStatus ? "This account has rollup access." : "This account has no rollup access."}
+            </p>
+          )}
+          {shadowLedger.message && (
+            <p className="text-sm mt-3 px-3 py-2 rounded-lg bg-primary/5 text-muted-foreground border border-primary/20">
+              {shadowLedger.message}
+            </p>
+          )}
+        </div>
+
         {/* Auditor-only sections */}
         {!isAuditor ? (
           <div className="card">
@@ -312,7 +678,7 @@ export default function AuditPage() {
                 You are not authorized as an auditor.
               </p>
               <p className="text-sm text-muted-foreground">
-                Only authorized auditors can view and decrypt all records.
+                Auditors read the records of their engagements and have the audit relayer decrypt them.
               </p>
               <p className="text-sm text-muted-foreground mt-4">
                 If you are a system administrator, you can add yourself or others as auditors using the form above.
@@ -325,33 +691,83 @@ export default function AuditPage() {
               <h2 className="text-xl font-semibold flex items-center gap-2">
                 <span>📋</span> Audit Records
               </h2>
-              <button
-                onClick={loadAllRecords}
-                disabled={isLoadingAudit}
-                className="btn-primary"
-              >
-                {isLoadingAudit ? "⏳ Loading..." : "📥 Load All Records"}
-              </button>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={selectedEngagementId}
+                  onChange={(e) => setSelectedEngagementId(e.target.value)}
+                  className="input-field sm:w-64"
+                >
+                  <option value="">All engaged records</option>
+                  {myEngagements.map((engagement) => (
+                    <option key={engagement.id.toString()} value={engagement.id.toString()}>
+                      Engagement #{engagement.id.toString()}
+                      {engagement.active ? "" : " (ended)"}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDecryptVisible}
+                  disabled={
+                    isDecryptingRecords ||
+                    shadowLedger.isLoading ||
+                    !hasAuditRelayer ||
+                    visibleRecords.every((r) => r.amountDecrypted !== undefined)
+                  }
+                  className="btn-secondary text-sm whitespace-nowrap"
+                >
+                  {isDecryptingRecords ? "⏳ Decrypting..." : "🔓 Decrypt All Visible"}
+                </button>
+                <RecordExport
+                  records={visibleRecords}
+                  departments={shadowLedger.departments}
+                  projects={shadowLedger.projects}
+                  categories={shadowLedger.categories}
+                  decryptAmounts={(handles) =>
+                    relayAmounts(visibleRecords.filter((record) => handles.includes(record.amountHandle)))
+                  }
+                  onDecrypted={handleDecrypted}
+                  exportedBy={accounts?.[0]}
+                  chainId={chainId}
+                  chainName={shadowLedger.chainName}
+                  contractAddress={shadowLedger.contractAddress}
+                />
+                <button
+                  onClick={() => loadRecordPage(true)}
+                  disabled={isLoadingAudit}
+                  className="btn-primary"
+                >
+                  {isLoadingAudit ? "⏳ Loading..." : "📥 Load Records"}
+                </button>
+              </div>
             </div>
 
             <div className="card">
               <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
-                <span>🔍</span> All Records (Audit View)
+                <span>🔍</span> {selectedEngagement ? `Engagement #${selectedEngagement.id.toString()} Records` : "All Records (Audit View)"}
               </h2>
-              {isLoadingAudit ? (
+              <p className="text-sm text-muted-foreground mb-4">
+                Amounts come from the audit relayer. Records it cannot read yet are first opened to it under the
+                live engagement covering them, one transaction per batch; it only releases them while that engagement
+                is active.
+              </p>
+              {isLoadingAudit && allRecords.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="animate-spin text-3xl mb-2">⏳</div>
-                  <p className="text-muted-foreground">Loading records...</p>
+                  <p className="text-muted-foreground">
+                    Loading records...
+                    {shadowLedger.recordsProgress &&
+                      ` ${shadowLedger.recordsProgress.loaded} / ${shadowLedger.recordsProgress.total}`}
+                  </p>
                 </div>
-              ) : allRecords.length === 0 ? (
+              ) : visibleRecords.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="text-5xl mb-4">📝</div>
                   <p className="text-muted-foreground mb-4">No records loaded.</p>
-                  <p className="text-sm text-muted-foreground">Click &quot;Load All Records&quot; to view.</p>
+                  <p className="text-sm text-muted-foreground">Click &quot;Load Records&quot; to view.</p>
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {allRecords.map((record) => (
+                  {visibleRecords.map((record) => (
                     <div
                       key={record.id.toString()}
                       className="card card-hover bg-muted/30"
@@ -395,14 +811,7 @@ export default function AuditPage() {
                               <p className="font-mono text-sm bg-muted/50 p-2 rounded mb-2">
                                 {record.amountHandle.slice(0, 12)}...
                               </p>
-                              <p className="text-xs text-muted-foreground mb-2">Encrypted</p>
-                              <button
-                                onClick={() => handleDecryptRecord(record.id, record.amountHandle)}
-                                disabled={decryptingRecordId === record.id}
-                                className="text-xs px-3 py-1.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
-                              >
-                                {decryptingRecordId === record.id ? "⏳ Decrypting..." : "🔓 Decrypt"}
-                              </button>
+                              <p className="text-xs text-muted-foreground">Encrypted</p>
                             </>
                           )}
                         </div>
@@ -411,6 +820,19 @@ export default function AuditPage() {
                   ))}
                 </div>
               )}
+              {hasMoreRecords && (
+                <div className="text-center mt-6">
+                  <button
+                    onClick={() => loadRecordPage(false)}
+                    disabled={isLoadingAudit}
+                    className="btn-secondary text-sm"
+                  >
+                    {isLoadingAudit
+                      ? "⏳ Loading..."
+                      : `⬇️ Load More (${nextOffset} of ${ledgerSize?.toString()} ledger entries read)`}
+                  </button>
+                </div>
+              )}
             </div>
           </>
         )}
@@ -1,16 +1,42 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { ethers } from "ethers";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useShadowLedger } from "@/hooks/useShadowLedger";
+import {
+  CalculationAccess,
+  CalculationType,
+  canCombineDepartments,
+  getCalculableDepartments,
+  getCalculationResult,
+  getCategoryPath,
+  isRelayedCalculation,
+  SavedCalculation,
+  useShadowLedger,
+} from "@/hooks/useShadowLedger";
+
+const CALCULATION_LABELS: { [type in CalculationType]: string } = {
+  0: "💰 Total Income",
+  1: "💸 Total Expense",
+  2: "📊 Net Income",
+};
+
+const formatPeriod = (fromTimestamp: bigint, toTimestamp: bigint) => {
+  if (fromTimestamp === BigInt(0) && toTimestamp === BigInt(0)) {
+    return "All time";
+  }
+  const format = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleDateString();
+  const from = fromTimestamp === BigInt(0) ? "…" : format(fromTimestamp);
+  const to = toTimestamp === BigInt(0) ? "…" : format(toTimestamp);
+  return `${from} – ${to}`;
+};
 import { ShadowLedgerAddresses } from "@/abi/ShadowLedgerAddresses";
 import { ShadowLedgerABI } from "@/abi/ShadowLedgerABI";
 
 export default function CalculationsPage() {
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
   const {
     provider,
     chainId,
@@ -36,6 +62,7 @@ export default function CalculationsPage() {
   const shadowLedger = useShadowLedger({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -47,10 +74,47 @@ export default function CalculationsPage() {
   const [calculationType, setCalculationType] = useState<"income" | "expense" | "net">("income");
   const [selectedDepartmentIds, setSelectedDepartmentIds] = useState<string[]>([]);
   const [projectId, setProjectId] = useState<string>("");
+  const [categoryId, setCategoryId] = useState<string>("");
+  const [eliminateTransfers, setEliminateTransfers] = useState(false);
+  const [fromDate, setFromDate] = useState<string>("");
+  const [toDate, setToDate] = useState<string>("");
   const [resultHandle, setResultHandle] = useState<string | undefined>(undefined);
+  // Net income comes back as a magnitude plus an encrypted "not negative" flag
+  const [resultSignHandle, setResultSignHandle] = useState<string | undefined>(undefined);
   const [resultDecrypted, setResultDecrypted] = useState<bigint | undefined>(undefined);
+  // Set when the fresh result was granted to the audit relayer rather than the account
+  const [relayedCalculationId, setRelayedCalculationId] = useState<bigint | undefined>(undefined);
   const [isCalculating, setIsCalculating] = useState(false);
   const [message, setMessage] = useState<string>("");
+  const [access, setAccess] = useState<CalculationAccess | undefined>(undefined);
+  // Decrypted results of saved calculations, by calculation id
+  const [savedDecrypted, setSavedDecrypted] = useState<{ [id: string]: bigint }>({});
+
+  const account = accounts?.[0];
+  const { getCalculationAccess } = shadowLedger;
+
+  useEffect(() => {
+    if (!account || !shadowLedger.isDeployed) {
+      setAccess(undefined);
+      return;
+    }
+    getCalculationAccess(account)
+      .then(setAccess)
+      .catch(() => setAccess(undefined));
+  }, [account, shadowLedger.isDeployed, getCalculationAccess]);
+
+  useEffect(() => {
+    if (shadowLedger.canInteract) {
+      shadowLedger.refreshCalculations();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shadowLedger.canInteract, shadowLedger.contractAddress]);
+
+  const calculableDepartments = getCalculableDepartments(shadowLedger.departments, account, access);
+  const selectedDepartments = calculableDepartments.filter((dept) =>
+    selectedDepartmentIds.includes(dept.id.toString())
+  );
+  const canRollUp = canCombineDepartments(calculableDepartments, account, access);
 
   const handleDepartmentToggle = (departmentId: string) => {
     setSelectedDepartmentIds((prev) =>
@@ -58,8 +122,18 @@ export default function CalculationsPage() {
         ? prev.filter((id) => id !== departmentId)
         : [...prev, departmentId]
     );
+
+    // A project only has records in its own department
+    const selectedProject = shadowLedger.projects.find((p) => p.id.toString() === projectId);
+    if (selectedProject && selectedProject.departmentId.toString() === departmentId) {
+      setProjectId("");
+    }
   };
 
+  const selectableProjects = shadowLedger.projects.filter((p) =>
+    selectedDepartmentIds.includes(p.departmentId.toString())
+  );
+
   const handleCalculate = async () => {
     if (!shadowLedger.contractAddress || !ethersSigner) return;
 
@@ -68,11 +142,33 @@ export default function CalculationsPage() {
       return;
     }
 
+    if (!canCombineDepartments(selectedDepartments, account, access)) {
+      alert(
+        "Combining these departments requires a rollup grant from the system admin, or the finance controller role in each"
+      );
+      return;
+    }
+
     const deptIds = selectedDepartmentIds.map((id) => BigInt(id));
 
+    // Date inputs are local calendar days; 0 leaves that side of the period open
+    const fromTimestamp = fromDate
+      ? BigInt(Math.floor(new Date(`${fromDate}T00:00:00`).getTime() / 1000))
+      : BigInt(0);
+    const toTimestamp = toDate
+      ? BigInt(Math.floor(new Date(`${toDate}T23:59:59`).getTime() / 1000))
+      : BigInt(0);
+
+    if (fromTimestamp !== BigInt(0) && toTimestamp !== BigInt(0) && fromTimestamp > toTimestamp) {
+      alert("The start date must be before the end date");
+      return;
+    }
+
     setIsCalculating(true);
     setResultHandle(undefined);
+    setResultSignHandle(undefined);
     setResultDecrypted(undefined);
+    setRelayedCalculationId(undefined);
 
     try {
       const contract = new ethers.Contract(
@@ -83,63 +179,59 @@ export default function CalculationsPage() {
 
       setMessage("Submitting calculation transaction...");
 
-      let txResponse: unknown;
+      // Net income spans both record types and nets out internal transfers on
+      // its own, so it takes neither a category nor the elimination flag
+      let tx: ethers.TransactionResponse;
       if (calculationType === "income") {
-        txResponse = await contract.calculateTotalIncome(
+        tx = await contract.calculateTotalIncome(
           deptIds,
-          BigInt(projectId || "0")
+          BigInt(projectId || "0"),
+          BigInt(categoryId || "0"),
+          fromTimestamp,
+          toTimestamp,
+          eliminateTransfers
         );
       } else if (calculationType === "expense") {
-        txResponse = await contract.calculateTotalExpense(
+        tx = await contract.calculateTotalExpense(
           deptIds,
-          BigInt(projectId || "0")
+          BigInt(projectId || "0"),
+          BigInt(categoryId || "0"),
+          fromTimestamp,
+          toTimestamp,
+          eliminateTransfers
         );
       } else {
-        txResponse = await contract.calculateNetIncome(
+        tx = await contract.calculateNetIncome(
           deptIds,
-          BigInt(projectId || "0")
+          BigInt(projectId || "0"),
+          fromTimestamp,
+          toTimestamp
         );
       }
 
-      // Check if the result is a transaction response or a direct handle
-      let result: string;
-      if (txResponse && typeof txResponse === "object" && "hash" in txResponse) {
-        // It's a transaction response, wait for it and get the return value
-        const tx = txResponse as ethers.TransactionResponse;
-        setMessage(`Waiting for transaction: ${tx.hash}...`);
-        const receipt = await tx.wait();
-        
-        if (!receipt) {
-          throw new Error("Transaction receipt not found");
-        }
-
-        // In ethers v6, for functions with return values, we need to call the function
-        // again as a static call to get the return value, or decode it from the transaction
-        // For FHEVM functions returning euint128, the handle is the return value
-        // We'll need to call it again after the transaction is confirmed
-        setMessage("Transaction confirmed. Getting result handle...");
-        
-        // Call the function again as a static call to get the return value
-        // Note: This works because the state has been updated by the previous transaction
-        const staticResult = await contract[calculationType === "income" ? "calculateTotalIncome" : calculationType === "expense" ? "calculateTotalExpense" : "calculateNetIncome"].staticCall(
-          deptIds,
-          BigInt(projectId || "0")
-        );
-        
-        result = staticResult as string;
-      } else {
-        // Direct return value (handle)
-        result = txResponse as string;
+      setMessage(`Waiting for transaction: ${tx.hash}...`);
+      const receipt = await tx.wait();
+
+      if (!receipt) {
+        throw new Error("Transaction receipt not found");
       }
 
-      // In FHEVM, functions returning euint128 return the handle directly as a string (bytes32)
-      // The result should be a hex string representing the handle
-      if (typeof result !== "string") {
-        throw new Error(`Unexpected result type: ${typeof result}. Expected string (handle).`);
+      // The event carries the handles this transaction computed and allowed;
+      // re-running the query would only yield an ephemeral copy
+      const calculation = getCalculationResult(receipt, contract.interface);
+      if (!calculation) {
+        throw new Error("CalculationPerformed event not found in the receipt");
       }
 
-      setResultHandle(result);
+      if (calculationType === "net") {
+        setResultSignHandle(calculation.nonNegativeHandle);
+      }
+      setResultHandle(calculation.resultHandle);
+      if (isRelayedCalculation(deptIds, access)) {
+        setRelayedCalculationId(calculation.calculationId);
+      }
       setMessage("Calculation completed successfully!");
+      await shadowLedger.refreshCalculations();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       setMessage(`Calculation failed: ${errorMessage}`);
@@ -152,12 +244,55 @@ export default function CalculationsPage() {
   const handleDecryptResult = async () => {
     if (!resultHandle || !fhevmInstance || !ethersSigner) return;
 
+    if (relayedCalculationId !== undefined) {
+      const relayed = await shadowLedger.relayCalculation(relayedCalculationId);
+      if (relayed !== undefined) {
+        setResultDecrypted(relayed);
+      }
+      return;
+    }
+
     const decrypted = await shadowLedger.decryptAmount(resultHandle);
-    if (decrypted !== undefined) {
+    if (decrypted === undefined) return;
+
+    if (resultSignHandle) {
+      const nonNegative = await shadowLedger.decryptFlag(resultSignHandle);
+      if (nonNegative === undefined) return;
+      setResultDecrypted(nonNegative ? decrypted : -decrypted);
+    } else {
       setResultDecrypted(decrypted);
     }
   };
 
+  const handleDecryptSaved = async (calculation: SavedCalculation) => {
+    if (!fhevmInstance || !ethersSigner) return;
+
+    if (isRelayedCalculation(calculation.departmentIds, access)) {
+      const relayed = await shadowLedger.relayCalculation(calculation.id);
+      if (relayed !== undefined) {
+        setSavedDecrypted((prev) => ({ ...prev, [calculation.id.toString()]: relayed }));
+      }
+      return;
+    }
+
+    const decrypted = await shadowLedger.decryptAmount(calculation.resultHandle);
+    if (decrypted === undefined) return;
+
+    let value = decrypted;
+    if (calculation.calculationType === 2) {
+      const nonNegative = await shadowLedger.decryptFlag(calculation.nonNegativeHandle);
+      if (nonNegative === undefined) return;
+      value = nonNegative ? decrypted : -decrypted;
+    }
+    setSavedDecrypted((prev) => ({ ...prev, [calculation.id.toString()]: value }));
+  };
+
+  const departmentName = (departmentId: bigint) =>
+    shadowLedger.departments.find((dept) => dept.id === departmentId)?.name ?? `#${departmentId.toString()}`;
+
+  const projectName = (projectId: bigint) =>
+    shadowLedger.projects.find((project) => project.id === projectId)?.name ?? `#${projectId.toString()}`;
+
   if (!isConnected) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
@@ -226,7 +361,10 @@ export default function CalculationsPage() {
               <label className="block text-sm font-semibold mb-2">Calculation Type</label>
               <select
                 value={calculationType}
-                onChange={(e) => setCalculationType(e.target.value as "income" | "expense" | "net")}
+                onChange={(e) => {
+                  setCalculationType(e.target.value as "income" | "expense" | "net");
+                  setCategoryId("");
+                }}
                 className="input-field"
               >
                 <option value="income">💰 Total Income</option>
@@ -242,9 +380,13 @@ export default function CalculationsPage() {
                 <div className="input-field bg-muted text-muted-foreground cursor-not-allowed">
                   No departments available. Please create a department first.
                 </div>
+              ) : calculableDepartments.length === 0 ? (
+                <div className="input-field bg-muted text-muted-foreground cursor-not-allowed">
+                  You are not a member of any department. Only members and auditors can run calculations.
+                </div>
               ) : (
                 <div className="input-field p-3 max-h-48 overflow-y-auto space-y-2">
-                  {shadowLedger.departments.map((dept) => (
+                  {calculableDepartments.map((dept) => (
                     <label
                       key={dept.id.toString()}
                       className="flex items-center space-x-3 py-2 px-3 cursor-pointer hover:bg-muted/50 rounded-lg transition-colors"
@@ -267,16 +409,90 @@ export default function CalculationsPage() {
                   Selected: {selectedDepartmentIds.length} department(s)
                 </p>
               )}
+              {!canRollUp && calculableDepartments.length > 1 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Combining several departments requires a rollup grant from the system admin, or the finance
+                  controller role in each.
+                </p>
+              )}
+              {access && access.auditedDepartmentIds.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  As an auditor, pick only the departments of one engagement; the period is narrowed to its window.
+                  Your totals are decrypted by the audit relayer while the engagement is live.
+                </p>
+              )}
             </div>
             <div>
-              <label className="block text-sm font-semibold mb-2">Project ID <span className="text-muted-foreground font-normal">(0 for all)</span></label>
-              <input
-                type="number"
+              <label className="block text-sm font-semibold mb-2">Project</label>
+              <select
                 value={projectId}
                 onChange={(e) => setProjectId(e.target.value)}
                 className="input-field"
-                placeholder="0"
-              />
+              >
+                <option value="">All projects</option>
+                {selectableProjects.map((project) => (
+                  <option key={project.id.toString()} value={project.id.toString()}>
+                    {project.name}{project.archived ? " (archived)" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {calculationType !== "net" && (
+              <div>
+                <label className="block text-sm font-semibold mb-2">Category <span className="text-muted-foreground font-normal">(includes subcategories)</span></label>
+                <select
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  className="input-field"
+                >
+                  <option value="">All categories</option>
+                  {shadowLedger.categories
+                    .filter((category) => category.recordType === (calculationType === "income" ? 0 : 1))
+                    .map((category) => (
+                      <option key={category.id.toString()} value={category.id.toString()}>
+                        {getCategoryPath(shadowLedger.categories, category.id)}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
+            {calculationType !== "net" && !projectId && !categoryId && (
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={eliminateTransfers}
+                  onChange={(e) => setEliminateTransfers(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm font-medium">
+                  Eliminate internal transfers <span className="text-muted-foreground font-normal">(between the selected departments)</span>
+                </span>
+              </label>
+            )}
+            <div>
+              <label className="block text-sm font-semibold mb-2">Period <span className="text-muted-foreground font-normal">(leave empty for all time)</span></label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <span className="block text-xs text-muted-foreground mb-1">From</span>
+                  <input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-muted-foreground mb-1">To</span>
+                  <input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+              </div>
             </div>
             <button
               onClick={handleCalculate}
@@ -296,7 +512,9 @@ export default function CalculationsPage() {
             <div className="space-y-3">
               {resultDecrypted !== undefined ? (
                 <div>
-                  <p className="text-4xl font-bold mb-2">{resultDecrypted.toString()}</p>
+                  <p className={`text-4xl font-bold mb-2 ${resultDecrypted < BigInt(0) ? "text-red-600 dark:text-red-400" : ""}`}>
+                    {resultDecrypted.toString()}
+                  </p>
                   <p className="text-xs text-muted-foreground bg-green-100 dark:bg-green-900/30 px-2 py-1 rounded-full inline-block">
                     Decrypted
                   </p>
@@ -316,6 +534,67 @@ export default function CalculationsPage() {
             </div>
           </div>
         )}
+
+        <div className="card mt-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <span>🗂️</span> Saved Calculations
+            </h2>
+            <button
+              onClick={() => shadowLedger.refreshCalculations()}
+              className="btn-secondary text-sm"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          {shadowLedger.calculations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No calculations yet. Every calculation you run is stored here with its parameters.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {shadowLedger.calculations.map((calculation) => {
+                const decrypted = savedDecrypted[calculation.id.toString()];
+                return (
+                  <div
+                    key={calculation.id.toString()}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg bg-muted/30"
+                  >
+                    <div className="space-y-1 text-sm">
+                      <p className="font-semibold">
+                        {CALCULATION_LABELS[calculation.calculationType]}
+                        <span className="text-muted-foreground font-normal"> · #{calculation.id.toString()}</span>
+                      </p>
+                      <p className="text-muted-foreground">
+                        {calculation.departmentIds.map(departmentName).join(", ")}
+                        {calculation.projectId !== BigInt(0) && ` · Project: ${projectName(calculation.projectId)}`}
+                        {calculation.categoryId !== BigInt(0) &&
+                          ` · Category: ${getCategoryPath(shadowLedger.categories, calculation.categoryId)}`}
+                        {calculation.eliminateTransfers && " · Transfers eliminated"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatPeriod(calculation.fromTimestamp, calculation.toTimestamp)} · Run{" "}
+                        {new Date(Number(calculation.timestamp) * 1000).toLocaleString()}
+                      </p>
+                    </div>
+                    {decrypted !== undefined ? (
+                      <p className={`text-2xl font-bold ${decrypted < BigInt(0) ? "text-red-600 dark:text-red-400" : ""}`}>
+                        {decrypted.toString()}
+                      </p>
+                    ) : (
+                      <button
+                        onClick={() => handleDecryptSaved(calculation)}
+                        className="btn-secondary text-sm"
+                      >
+                        🔓 Decrypt
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -5,14 +5,52 @@ import { useState, useEffect } from "react";
 import { ethers } from "ethers";
 import { useMetaMask } from "@/hooks/metamask/useMetaMaskProvider";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useShadowLedger } from "@/hooks/useShadowLedger";
+import {
+  CalculationAccess,
+  canCombineDepartments,
+  getCalculableDepartments,
+  getCalculationResult,
+  isRelayedCalculation,
+  Record,
+  useShadowLedger,
+} from "@/hooks/useShadowLedger";
 import { ShadowLedgerABI } from "@/abi/ShadowLedgerABI";
 
+type PeriodPreset = "all" | "month" | "quarter" | "year";
+
+const RECENT_RECORDS = 5;
+
+const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
+  { value: "month", label: "This Month" },
+  { value: "quarter", label: "This Quarter" },
+  { value: "year", label: "This Year" },
+  { value: "all", label: "All Time" },
+];
+
+// Returns [fromTimestamp, toTimestamp] in seconds; 0 leaves a side open
+function getPeriodBounds(period: PeriodPreset): [bigint, bigint] {
+  if (period === "all") {
+    return [BigInt(0), BigInt(0)];
+  }
+
+  const now = new Date();
+  let start: Date;
+  if (period === "month") {
+    start = new Date(now.getFullYear(), now.getMonth(), 1);
+  } else if (period === "quarter") {
+    start = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+  } else {
+    start = new Date(now.getFullYear(), 0, 1);
+  }
+
+  return [BigInt(Math.floor(start.getTime() / 1000)), BigInt(0)];
+}
+
 export default function DashboardPage() {
   const { isConnected, accounts, chainId, connect } = useMetaMask();
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
   const {
     provider,
     ethersSigner,
@@ -34,6 +72,7 @@ export default function DashboardPage() {
   const shadowLedger = useShadowLedger({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -45,18 +84,73 @@ export default function DashboardPage() {
   const [totalIncomeHandle, setTotalIncomeHandle] = useState<string | undefined>(undefined);
   const [totalExpenseHandle, setTotalExpenseHandle] = useState<string | undefined>(undefined);
   const [netIncomeHandle, setNetIncomeHandle] = useState<string | undefined>(undefined);
+  const [netIncomeSignHandle, setNetIncomeSignHandle] = useState<string | undefined>(undefined);
   const [totalIncomeDecrypted, setTotalIncomeDecrypted] = useState<bigint | undefined>(undefined);
   const [totalExpenseDecrypted, setTotalExpenseDecrypted] = useState<bigint | undefined>(undefined);
   const [netIncomeDecrypted, setNetIncomeDecrypted] = useState<bigint | undefined>(undefined);
+  // Totals granted to the audit relayer rather than the account, by type
+  const [relayedCalculationIds, setRelayedCalculationIds] = useState<{ [type: string]: bigint }>({});
+  const [period, setPeriod] = useState<PeriodPreset>("all");
   const [isCalculating, setIsCalculating] = useState(false);
   const [calculationMessage, setCalculationMessage] = useState<string>("");
+  const [access, setAccess] = useState<CalculationAccess | undefined>(undefined);
+  const [recentRecords, setRecentRecords] = useState<Record[] | undefined>(undefined);
+
+  const account = accounts?.[0];
+  const { getCalculationAccess } = shadowLedger;
+
+  useEffect(() => {
+    if (!account || !shadowLedger.isDeployed) {
+      setAccess(undefined);
+      return;
+    }
+    getCalculationAccess(account)
+      .then(setAccess)
+      .catch(() => setAccess(undefined));
+  }, [account, shadowLedger.isDeployed, getCalculationAccess]);
+
+  const { loadRecordPage } = shadowLedger;
+
+  // The last records the account booked, newest first, from the tail of its creator index
+  useEffect(() => {
+    if (!account || !shadowLedger.canInteract) {
+      setRecentRecords(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const scope = { kind: "creator" as const, creator: account };
+      const head = await loadRecordPage(scope, 0, 0);
+      const result =
+        head && (await loadRecordPage(scope, Math.max(0, Number(head.total) - RECENT_RECORDS), RECENT_RECORDS));
+      if (!cancelled) {
+        setRecentRecords(result ? [...result.records].reverse() : []);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [account, shadowLedger.canInteract, loadRecordPage]);
+
+  // Totals cover the departments the account may aggregate
+  const calculableDepartments = getCalculableDepartments(shadowLedger.departments, account, access);
 
   const calculateTotal = async (type: "income" | "expense" | "net") => {
-    if (!shadowLedger.contractAddress || !ethersSigner || shadowLedger.departments.length === 0) {
+    if (!shadowLedger.contractAddress || !ethersSigner || calculableDepartments.length === 0) {
       setCalculationMessage("No departments available for calculation");
       return;
     }
 
+    if (!canCombineDepartments(calculableDepartments, account, access)) {
+      setCalculationMessage(
+        "Totals across several departments require a rollup grant from the system admin, or the finance controller role in each"
+      );
+      return;
+    }
+
     setIsCalculating(true);
     setCalculationMessage(`Calculating total ${type}...`);
 
@@ -67,54 +161,57 @@ export default function DashboardPage() {
         ethersSigner
       );
 
-      // Get all department IDs
-      const allDeptIds = shadowLedger.departments.map((dept) => dept.id);
+      const allDeptIds = calculableDepartments.map((dept) => dept.id);
+      const [fromTimestamp, toTimestamp] = getPeriodBounds(period);
 
-      let txResponse: unknown;
+      let tx: ethers.TransactionResponse;
       if (type === "income") {
-        txResponse = await contract.calculateTotalIncome(
+        tx = await contract.calculateTotalIncome(
           allDeptIds,
-          BigInt(0) // 0 means all projects
+          BigInt(0), // 0 means all projects
+          BigInt(0), // 0 means all categories
+          fromTimestamp,
+          toTimestamp,
+          true // organization-wide totals exclude transfers between departments
         );
       } else if (type === "expense") {
-        txResponse = await contract.calculateTotalExpense(
+        tx = await contract.calculateTotalExpense(
           allDeptIds,
-          BigInt(0)
+          BigInt(0),
+          BigInt(0),
+          fromTimestamp,
+          toTimestamp,
+          true
         );
       } else {
-        txResponse = await contract.calculateNetIncome(
+        tx = await contract.calculateNetIncome(
           allDeptIds,
-          BigInt(0)
+          BigInt(0),
+          fromTimestamp,
+          toTimestamp
         );
       }
 
-      // Check if the result is a transaction response or a direct handle
-      let result: string;
-      if (txResponse && typeof txResponse === "object" && "hash" in txResponse) {
-        // It's a transaction response, wait for it and get the return value
-        const tx = txResponse as ethers.TransactionResponse;
-        setCalculationMessage(`Waiting for transaction: ${tx.hash.slice(0, 10)}...`);
-        const receipt = await tx.wait();
-        
-        if (!receipt) {
-          throw new Error("Transaction receipt not found");
-        }
+      setCalculationMessage(`Waiting for transaction: ${tx.hash.slice(0, 10)}...`);
+      const receipt = await tx.wait();
 
-        // Call the function again as a static call to get the return value
-        setCalculationMessage("Getting result handle...");
-        const staticResult = await contract[type === "income" ? "calculateTotalIncome" : type === "expense" ? "calculateTotalExpense" : "calculateNetIncome"].staticCall(
-          allDeptIds,
-          BigInt(0)
-        );
-        
-        result = staticResult as string;
-      } else {
-        // Direct return value (handle)
-        result = txResponse as string;
+      if (!receipt) {
+        throw new Error("Transaction receipt not found");
       }
 
-      if (typeof result !== "string") {
-        throw new Error(`Unexpected result type: ${typeof result}. Expected string (handle).`);
+      // Read the handles this transaction computed from its event
+      const calculation = getCalculationResult(receipt, contract.interface);
+      if (!calculation) {
+        throw new Error("CalculationPerformed event not found in the receipt");
+      }
+
+      const result = calculation.resultHandle;
+      if (isRelayedCalculation(allDeptIds, access)) {
+        setRelayedCalculationIds((prev) => ({ ...prev, [type]: calculation.calculationId }));
+      }
+      if (type === "net") {
+        // Net income comes back as a magnitude plus a non-negative flag
+        setNetIncomeSignHandle(calculation.nonNegativeHandle);
       }
 
       if (type === "income") {
@@ -134,6 +231,18 @@ export default function DashboardPage() {
     }
   };
 
+  const handlePeriodChange = (newPeriod: PeriodPreset) => {
+    setPeriod(newPeriod);
+    setTotalIncomeHandle(undefined);
+    setTotalExpenseHandle(undefined);
+    setNetIncomeHandle(undefined);
+    setNetIncomeSignHandle(undefined);
+    setTotalIncomeDecrypted(undefined);
+    setTotalExpenseDecrypted(undefined);
+    setNetIncomeDecrypted(undefined);
+    setRelayedCalculationIds({});
+  };
+
   const handleDecryptTotal = async (type: "income" | "expense" | "net") => {
     if (!fhevmInstance || !ethersSigner) return;
 
@@ -148,12 +257,31 @@ export default function DashboardPage() {
 
     if (!handle) return;
 
+    const relayedId = relayedCalculationIds[type];
+    if (relayedId !== undefined) {
+      const relayed = await shadowLedger.relayCalculation(relayedId);
+      if (relayed === undefined) return;
+      if (type === "income") {
+        setTotalIncomeDecrypted(relayed);
+      } else if (type === "expense") {
+        setTotalExpenseDecrypted(relayed);
+      } else {
+        setNetIncomeDecrypted(relayed);
+      }
+      return;
+    }
+
     const decrypted = await shadowLedger.decryptAmount(handle);
     if (decrypted !== undefined) {
       if (type === "income") {
         setTotalIncomeDecrypted(decrypted);
       } else if (type === "expense") {
         setTotalExpenseDecrypted(decrypted);
+      } else if (netIncomeSignHandle) {
+        const nonNegative = await shadowLedger.decryptFlag(netIncomeSignHandle);
+        if (nonNegative !== undefined) {
+          setNetIncomeDecrypted(nonNegative ? decrypted : -decrypted);
+        }
       } else {
         setNetIncomeDecrypted(decrypted);
       }
@@ -213,6 +341,24 @@ export default function DashboardPage() {
               </div>
             )}
 
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold mr-2">Period:</span>
+              {PERIOD_PRESETS.map((preset) => (
+                <button
+                  key={preset.value}
+                  onClick={() => handlePeriodChange(preset.value)}
+                  disabled={isCalculating}
+                  className={`text-sm px-3 py-1.5 rounded-lg transition-colors ${
+                    period === preset.value
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="card card-hover bg-gradient-to-br from-green-50 to-green-100/50 dark:from-green-950/20 dark:to-green-900/10 border-green-200 dark:border-green-800">
                 <div className="flex items-center justify-between mb-4">
@@ -255,7 +401,7 @@ export default function DashboardPage() {
                     <p className="text-3xl font-bold text-muted-foreground mb-3">--</p>
                     <button
                       onClick={() => calculateTotal("income")}
-                      disabled={isCalculating || shadowLedger.departments.length === 0}
+                      disabled={isCalculating || calculableDepartments.length === 0}
                       className="btn-secondary text-sm w-full"
                     >
                       Calculate
@@ -304,7 +450,7 @@ export default function DashboardPage() {
                     <p className="text-3xl font-bold text-muted-foreground mb-3">--</p>
                     <button
                       onClick={() => calculateTotal("expense")}
-                      disabled={isCalculating || shadowLedger.departments.length === 0}
+                      disabled={isCalculating || calculableDepartments.length === 0}
                       className="btn-secondary text-sm w-full"
                     >
                       Calculate
@@ -357,7 +503,7 @@ export default function DashboardPage() {
                     <p className="text-3xl font-bold text-muted-foreground mb-3">--</p>
                     <button
                       onClick={() => calculateTotal("net")}
-                      disabled={isCalculating || shadowLedger.departments.length === 0}
+                      disabled={isCalculating || calculableDepartments.length === 0}
                       className="btn-secondary text-sm w-full"
                     >
                       Calculate
@@ -371,12 +517,12 @@ export default function DashboardPage() {
               <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
                 <span>📋</span> Recent Records
               </h2>
-              {shadowLedger.isLoading ? (
+              {recentRecords === undefined ? (
                 <div className="text-center py-8">
                   <div className="animate-spin text-3xl mb-2">⏳</div>
                   <p className="text-muted-foreground">Loading records...</p>
                 </div>
-              ) : shadowLedger.records.length === 0 ? (
+              ) : recentRecords.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="text-5xl mb-4">📝</div>
                   <p className="text-muted-foreground mb-4">No records yet.</p>
@@ -389,7 +535,7 @@ export default function DashboardPage() {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {shadowLedger.records.slice(0, 5).map((record) => (
+                  {recentRecords.map((record) => (
                     <div 
                       key={record.id.toString()} 
                       className="border rounded-lg p-4 hover:bg-muted/50 transition-colors"
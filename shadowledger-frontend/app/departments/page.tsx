@@ -1,13 +1,14 @@
 "use client";
 
 import { useState } from "react";
+import { ethers } from "ethers";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useShadowLedger } from "@/hooks/useShadowLedger";
+import { Budget, MemberChangeResult, useShadowLedger } from "@/hooks/useShadowLedger";
 
 export default function DepartmentsPage() {
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
   const {
     provider,
     chainId,
@@ -33,6 +34,7 @@ export default function DepartmentsPage() {
   const shadowLedger = useShadowLedger({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -58,6 +60,198 @@ export default function DepartmentsPage() {
     setFormData({ name: "", admin: accounts?.[0] || "" });
   };
 
+  const [budgetForm, setBudgetForm] = useState({
+    departmentId: "",
+    projectId: "",
+    amount: "",
+  });
+  const [budget, setBudget] = useState<Budget | undefined>(undefined);
+  const [budgetDecrypted, setBudgetDecrypted] = useState<
+    { amount: bigint; spent: bigint; remaining: bigint; overBudget: boolean } | undefined
+  >(undefined);
+  const [isDecryptingBudget, setIsDecryptingBudget] = useState(false);
+
+  const selectedBudgetDepartment = shadowLedger.departments.find(
+    (dept) => dept.id.toString() === budgetForm.departmentId
+  );
+  const isSelectedDepartmentAdmin =
+    selectedBudgetDepartment !== undefined &&
+    selectedBudgetDepartment.admin.toLowerCase() === accounts?.[0]?.toLowerCase();
+
+  const loadBudget = async () => {
+    if (!budgetForm.departmentId) return;
+
+    setBudgetDecrypted(undefined);
+    const loaded = await shadowLedger.getBudget(
+      BigInt(budgetForm.departmentId),
+      BigInt(budgetForm.projectId || "0")
+    );
+    setBudget(loaded);
+  };
+
+  const handleSetBudget = async () => {
+    if (!budgetForm.departmentId || !budgetForm.amount) {
+      alert("Please select a department and enter a budget");
+      return;
+    }
+
+    await shadowLedger.setBudget(
+      BigInt(budgetForm.departmentId),
+      BigInt(budgetForm.projectId || "0"),
+      BigInt(budgetForm.amount)
+    );
+    setBudgetForm({ ...budgetForm, amount: "" });
+    await loadBudget();
+  };
+
+  const handleEvaluateBudget = async () => {
+    if (!budgetForm.departmentId) {
+      alert("Please select a department");
+      return;
+    }
+
+    await shadowLedger.evaluateBudget(
+      BigInt(budgetForm.departmentId),
+      BigInt(budgetForm.projectId || "0")
+    );
+    await loadBudget();
+  };
+
+  const handleDecryptBudget = async () => {
+    if (!budget) return;
+
+    setIsDecryptingBudget(true);
+    try {
+      // Budgets an auditor evaluated are granted to the audit relayer instead
+      if (!isSelectedDepartmentAdmin) {
+        const relayed = await shadowLedger.relayBudget(budget.departmentId, budget.projectId);
+        if (relayed) {
+          setBudgetDecrypted(relayed);
+        }
+        return;
+      }
+
+      const amount = await shadowLedger.decryptAmount(budget.amountHandle);
+      const spent = await shadowLedger.decryptAmount(budget.spentHandle);
+      const remaining = await shadowLedger.decryptAmount(budget.remainingHandle);
+      const overBudget = await shadowLedger.decryptFlag(budget.overBudgetHandle);
+
+      if (
+        amount !== undefined &&
+        spent !== undefined &&
+        remaining !== undefined &&
+        overBudget !== undefined
+      ) {
+        setBudgetDecrypted({ amount, spent, remaining, overBudget });
+      }
+    } finally {
+      setIsDecryptingBudget(false);
+    }
+  };
+
+  // Member management for departments the connected account administers
+  const [managedDepartmentId, setManagedDepartmentId] = useState<bigint | undefined>(undefined);
+  const [memberInput, setMemberInput] = useState("");
+  const [memberResults, setMemberResults] = useState<MemberChangeResult[]>([]);
+
+  const managedDepartment = shadowLedger.departments.find((dept) => dept.id === managedDepartmentId);
+
+  // Addresses may be pasted separated by commas, semicolons, spaces or new lines
+  const pastedMembers = memberInput
+    .split(/[\s,;]+/)
+    .filter((value) => value !== "")
+    .map((value, i, values) => {
+      const lower = value.toLowerCase();
+      let problem: string | undefined;
+      if (!ethers.isAddress(value)) {
+        problem = "Not a valid address";
+      } else if (values.findIndex((other) => other.toLowerCase() === lower) < i) {
+        problem = "Listed twice";
+      } else if (managedDepartment?.members.some((member) => member.toLowerCase() === lower)) {
+        problem = "Already a member of this department";
+      }
+      return { address: value, problem };
+    });
+  const membersToAdd = pastedMembers.filter((entry) => !entry.problem).map((entry) => entry.address);
+
+  const handleManageMembers = (departmentId: bigint) => {
+    setManagedDepartmentId(managedDepartmentId === departmentId ? undefined : departmentId);
+    setMemberInput("");
+    setMemberResults([]);
+  };
+
+  const handleAddMembers = async () => {
+    if (!managedDepartment || membersToAdd.length === 0) return;
+
+    const results = await shadowLedger.addDepartmentMembers(managedDepartment.id, membersToAdd);
+    setMemberResults(results);
+    // Keep only what still needs attention in the input
+    const failed = new Set(results.filter((result) => !result.ok).map((result) => result.member));
+    setMemberInput(membersToAdd.filter((member) => failed.has(member)).join("\n"));
+  };
+
+  const handleRemoveMember = async (member: string) => {
+    if (!managedDepartment) return;
+    if (!confirm(`Remove ${member} from ${managedDepartment.name}?`)) return;
+
+    const result = await shadowLedger.removeDepartmentMember(managedDepartment.id, member);
+    setMemberResults(result ? [result] : []);
+  };
+
+  // Rename, archive and admin handover; open to the department admin and the system admin
+  const account = accounts?.[0]?.toLowerCase();
+  const isSystemAdmin = shadowLedger.governance?.systemAdmin.toLowerCase() === account;
+  const nominatedDepartments = shadowLedger.departments.filter(
+    (dept) => dept.pendingAdmin.toLowerCase() === account
+  );
+
+  const [settingsDepartmentId, setSettingsDepartmentId] = useState<bigint | undefined>(undefined);
+  const [renameInput, setRenameInput] = useState("");
+  const [newAdminInput, setNewAdminInput] = useState("");
+
+  const settingsDepartment = shadowLedger.departments.find((dept) => dept.id === settingsDepartmentId);
+  const isSettingsDepartmentAdmin = settingsDepartment?.admin.toLowerCase() === account;
+  const hasPendingAdmin = settingsDepartment !== undefined && settingsDepartment.pendingAdmin !== ethers.ZeroAddress;
+
+  const handleDepartmentSettings = (departmentId: bigint) => {
+    const department = shadowLedger.departments.find((dept) => dept.id === departmentId);
+    setSettingsDepartmentId(settingsDepartmentId === departmentId ? undefined : departmentId);
+    setRenameInput(department?.name ?? "");
+    setNewAdminInput("");
+  };
+
+  const handleRenameDepartment = async () => {
+    if (!settingsDepartment || !renameInput.trim()) return;
+    await shadowLedger.renameDepartment(settingsDepartment.id, renameInput.trim());
+  };
+
+  const handleArchiveDepartment = async () => {
+    if (!settingsDepartment) return;
+    if (
+      !confirm(
+        `Archive ${settingsDepartment.name}? No new records can be booked to it. Its history stays in reports. This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    await shadowLedger.archiveDepartment(settingsDepartment.id);
+  };
+
+  const handleChangeAdmin = async () => {
+    if (!settingsDepartment || !ethers.isAddress(newAdminInput)) {
+      alert("Please enter a valid address");
+      return;
+    }
+
+    if (isSettingsDepartmentAdmin) {
+      await shadowLedger.transferDepartmentAdmin(settingsDepartment.id, newAdminInput);
+    } else {
+      if (!confirm(`Replace the admin of ${settingsDepartment.name} without their consent?`)) return;
+      await shadowLedger.overrideDepartmentAdmin(settingsDepartment.id, newAdminInput);
+    }
+    setNewAdminInput("");
+  };
+
   if (!isConnected) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
@@ -109,10 +303,10 @@ export default function DepartmentsPage() {
             <div className="flex gap-2">
               <button
                 onClick={() => shadowLedger.refreshDepartments()}
-                disabled={shadowLedger.isLoading}
+                disabled={shadowLedger.isLoadingDepartments}
                 className="btn-secondary text-sm"
               >
-                {shadowLedger.isLoading ? "⏳ Loading..." : "🔄 Refresh"}
+                {shadowLedger.isLoadingDepartments ? "⏳ Loading..." : "🔄 Refresh"}
               </button>
               <button
                 onClick={() => setShowCreateForm(!showCreateForm)}
@@ -162,6 +356,24 @@ export default function DepartmentsPage() {
           </div>
         )}
 
+        {nominatedDepartments.map((dept) => (
+          <div key={dept.id.toString()} className="card bg-primary/5 border-primary/20 mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm">
+                🎖️ You have been nominated as admin of <span className="font-semibold">{dept.name}</span>.
+                Accepting makes you its admin and a member.
+              </p>
+              <button
+                onClick={() => shadowLedger.acceptDepartmentAdmin(dept.id)}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary text-sm whitespace-nowrap"
+              >
+                ✅ Accept Admin Role
+              </button>
+            </div>
+          </div>
+        ))}
+
         {shadowLedger.message && (
           <div className="card bg-primary/5 border-primary/20 mb-6">
             <p className="text-sm flex items-center gap-2">
@@ -171,6 +383,311 @@ export default function DepartmentsPage() {
           </div>
         )}
 
+        <div className="card card-hover mb-6">
+          <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+            <span>💼</span> Budgets
+          </h2>
+          <p className="text-sm text-muted-foreground mb-6">
+            Budgets are encrypted. Only the department admin can view them; auditors whose live engagement covers
+            the department from its first record get them through the audit relayer.
+          </p>
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Department</label>
+                <select
+                  value={budgetForm.departmentId}
+                  onChange={(e) => {
+                    setBudgetForm({ ...budgetForm, departmentId: e.target.value, projectId: "" });
+                    setBudget(undefined);
+                    setBudgetDecrypted(undefined);
+                  }}
+                  className="input-field"
+                >
+                  <option value="">Select a department</option>
+                  {shadowLedger.departments.map((dept) => (
+                    <option key={dept.id.toString()} value={dept.id.toString()}>
+                      {dept.name} (ID: {dept.id.toString()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Project</label>
+                <select
+                  value={budgetForm.projectId}
+                  onChange={(e) => {
+                    setBudgetForm({ ...budgetForm, projectId: e.target.value });
+                    setBudget(undefined);
+                    setBudgetDecrypted(undefined);
+                  }}
+                  disabled={!budgetForm.departmentId}
+                  className="input-field"
+                >
+                  <option value="">Whole department</option>
+                  {shadowLedger.projects
+                    .filter((project) => project.departmentId.toString() === budgetForm.departmentId)
+                    .map((project) => (
+                      <option key={project.id.toString()} value={project.id.toString()}>
+                        {project.name}{project.archived ? " (archived)" : ""}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+            {isSelectedDepartmentAdmin && (
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={budgetForm.amount}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, amount: e.target.value })}
+                  className="input-field flex-1"
+                  placeholder="Budget amount"
+                />
+                <button
+                  onClick={handleSetBudget}
+                  disabled={shadowLedger.isLoading}
+                  className="btn-primary"
+                >
+                  🔒 Set Budget
+                </button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={loadBudget}
+                disabled={shadowLedger.isLoading || !budgetForm.departmentId}
+                className="btn-secondary text-sm"
+              >
+                📥 Load Budget
+              </button>
+              <button
+                onClick={handleEvaluateBudget}
+                disabled={shadowLedger.isLoading || !budgetForm.departmentId}
+                className="btn-secondary text-sm"
+              >
+                🔄 Re-evaluate
+              </button>
+            </div>
+            {budget && (
+              <div className="border rounded-lg p-4">
+                {budgetDecrypted ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Budget</p>
+                      <p className="text-2xl font-bold">{budgetDecrypted.amount.toString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Spent</p>
+                      <p className="text-2xl font-bold text-red-700 dark:text-red-400">{budgetDecrypted.spent.toString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Remaining</p>
+                      <p className="text-2xl font-bold text-green-700 dark:text-green-400">{budgetDecrypted.remaining.toString()}</p>
+                    </div>
+                    {budgetDecrypted.overBudget && (
+                      <p className="sm:col-span-3 text-sm px-3 py-2 rounded-lg bg-destructive/10 text-destructive border border-destructive/20">
+                        ⚠️ Over budget
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm text-muted-foreground">
+                      Evaluated {new Date(Number(budget.evaluatedAt) * 1000).toLocaleString()}
+                    </p>
+                    <button
+                      onClick={handleDecryptBudget}
+                      disabled={isDecryptingBudget}
+                      className="text-xs px-3 py-1.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                    >
+                      {isDecryptingBudget ? "⏳ Decrypting..." : "🔓 Decrypt"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {managedDepartment && (
+          <div className="card card-hover mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>👥</span> Members of {managedDepartment.name}
+            </h2>
+            <div className="space-y-2 mb-6">
+              {managedDepartment.members.map((member) => (
+                <div key={member} className="flex justify-between items-center border rounded-lg px-4 py-2">
+                  <span className="font-mono text-sm">{member}</span>
+                  {member.toLowerCase() === managedDepartment.admin.toLowerCase() ? (
+                    <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">Admin</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      disabled={shadowLedger.isLoading}
+                      className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <label className="block text-sm font-semibold mb-2">Add members</label>
+            <textarea
+              value={memberInput}
+              onChange={(e) => {
+                setMemberInput(e.target.value);
+                setMemberResults([]);
+              }}
+              className="input-field font-mono text-xs h-28"
+              placeholder={"Paste one or more addresses\n0x...\n0x..."}
+            />
+            {pastedMembers.some((entry) => entry.problem) && (
+              <ul className="text-xs mt-2 space-y-1">
+                {pastedMembers
+                  .filter((entry) => entry.problem)
+                  .map((entry, i) => (
+                    <li key={i} className="text-red-600 dark:text-red-400">
+                      <span className="font-mono">{entry.address}</span>: {entry.problem}
+                    </li>
+                  ))}
+              </ul>
+            )}
+            <button
+              onClick={handleAddMembers}
+              disabled={shadowLedger.isLoading || membersToAdd.length === 0}
+              className="btn-primary w-full mt-4"
+            >
+              {shadowLedger.isLoading
+                ? "⏳ Updating..."
+                : `+ Add ${membersToAdd.length} ${membersToAdd.length === 1 ? "Member" : "Members"}`}
+            </button>
+            {memberResults.length > 0 && (
+              <ul className="text-xs mt-4 space-y-1">
+                {memberResults.map((result, i) => (
+                  <li
+                    key={i}
+                    className={result.ok ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}
+                  >
+                    <span className="font-mono">{result.member}</span>: {result.ok ? "Done" : result.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {settingsDepartment && (
+          <div className="card card-hover mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>⚙️</span> Settings for {settingsDepartment.name}
+            </h2>
+            <div className="space-y-6">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Name</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={renameInput}
+                    onChange={(e) => setRenameInput(e.target.value)}
+                    className="input-field flex-1"
+                    placeholder="Department name"
+                  />
+                  <button
+                    onClick={handleRenameDepartment}
+                    disabled={
+                      shadowLedger.isLoading || !renameInput.trim() || renameInput.trim() === settingsDepartment.name
+                    }
+                    className="btn-secondary text-sm"
+                  >
+                    ✏️ Rename
+                  </button>
+                </div>
+              </div>
+
+              {(isSettingsDepartmentAdmin || isSystemAdmin) && (
+                <div>
+                  <label className="block text-sm font-semibold mb-2">
+                    {isSettingsDepartmentAdmin ? "Hand over admin role" : "Replace admin"}
+                  </label>
+                  {hasPendingAdmin && (
+                    <div className="flex justify-between items-center border rounded-lg px-4 py-2 mb-2">
+                      <span className="text-sm">
+                        Waiting for <span className="font-mono text-xs">{settingsDepartment.pendingAdmin}</span> to
+                        accept
+                      </span>
+                      {isSettingsDepartmentAdmin && (
+                        <button
+                          onClick={() => shadowLedger.transferDepartmentAdmin(settingsDepartment.id, "")}
+                          disabled={shadowLedger.isLoading}
+                          className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newAdminInput}
+                      onChange={(e) => setNewAdminInput(e.target.value)}
+                      className="input-field flex-1 font-mono"
+                      placeholder="0x..."
+                    />
+                    <button
+                      onClick={handleChangeAdmin}
+                      disabled={shadowLedger.isLoading || !newAdminInput}
+                      className="btn-secondary text-sm whitespace-nowrap"
+                    >
+                      {isSettingsDepartmentAdmin ? "📨 Nominate" : "🔁 Replace Now"}
+                    </button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {isSettingsDepartmentAdmin
+                      ? "The nominee becomes admin once they accept. You stay a member of the department."
+                      : "The new admin takes over at once. The current admin stays a member."}
+                  </p>
+                </div>
+              )}
+
+              {isSettingsDepartmentAdmin && (
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Record access</label>
+                  <button
+                    onClick={() => shadowLedger.grantDepartmentRecords(settingsDepartment.id)}
+                    disabled={shadowLedger.isLoading}
+                    className="btn-secondary text-sm"
+                  >
+                    🔑 Grant Me Record Access
+                  </button>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Accepting a handover does this for you. Run it if the system admin made you admin, to decrypt the
+                    submitted expenses, transfers and project budgets your predecessor could.
+                  </p>
+                </div>
+              )}
+
+              {isSystemAdmin && !settingsDepartment.archived && (
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Archive</label>
+                  <button
+                    onClick={handleArchiveDepartment}
+                    disabled={shadowLedger.isLoading}
+                    className="btn-secondary text-sm"
+                  >
+                    📦 Archive Department
+                  </button>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Archived departments take no new records or projects. Existing records stay in reports.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="card">
           <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
             <span>📋</span> Department List
@@ -195,9 +712,16 @@ export default function DepartmentsPage() {
                 >
                   <div className="flex items-start justify-between mb-3">
                     <h3 className="text-lg font-semibold">{dept.name}</h3>
-                    <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
-                      ID: {dept.id.toString()}
-                    </span>
+                    <div className="flex gap-2">
+                      {dept.archived && (
+                        <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full">
+                          Archived
+                        </span>
+                      )}
+                      <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
+                        ID: {dept.id.toString()}
+                      </span>
+                    </div>
                   </div>
                   <div className="space-y-2 text-sm">
                     <p className="text-muted-foreground">
@@ -207,6 +731,32 @@ export default function DepartmentsPage() {
                     <p className="text-muted-foreground">
                       <span className="font-medium">Members:</span> {dept.members.length}
                     </p>
+                    {dept.pendingAdmin !== ethers.ZeroAddress && (
+                      <p className="text-muted-foreground">
+                        <span className="font-medium">Pending admin:</span>{" "}
+                        <span className="font-mono">
+                          {dept.pendingAdmin.slice(0, 6)}...{dept.pendingAdmin.slice(-4)}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 mt-4">
+                    {dept.admin.toLowerCase() === account && (
+                      <button
+                        onClick={() => handleManageMembers(dept.id)}
+                        className="btn-secondary text-sm"
+                      >
+                        {managedDepartmentId === dept.id ? "✕ Close" : "👥 Manage Members"}
+                      </button>
+                    )}
+                    {(dept.admin.toLowerCase() === account || isSystemAdmin) && (
+                      <button
+                        onClick={() => handleDepartmentSettings(dept.id)}
+                        className="btn-secondary text-sm"
+                      >
+                        {settingsDepartmentId === dept.id ? "✕ Close" : "⚙️ Settings"}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
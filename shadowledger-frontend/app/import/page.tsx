@@ -0,0 +1,616 @@
+"use client";
+
+import { useState } from "react";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import {
+  Department,
+  getEffectiveRoles,
+  Project,
+  RecordInput,
+  RecordInputResult,
+  RecordType,
+  ROLE_BOOKKEEPER,
+  useShadowLedger,
+} from "@/hooks/useShadowLedger";
+
+type Field = "recordType" | "amount" | "department" | "project" | "description";
+
+const FIELDS: { field: Field; label: string; required: boolean; hint: string }[] = [
+  { field: "recordType", label: "Type", required: false, hint: "income/expense; if unmapped, a negative amount is an expense" },
+  { field: "amount", label: "Amount", required: true, hint: "whole units, e.g. 1200 or -85" },
+  { field: "department", label: "Department", required: true, hint: "department ID or name" },
+  { field: "project", label: "Project", required: false, hint: "project ID or name within the department" },
+  { field: "description", label: "Description", required: true, hint: "free text" },
+];
+
+// Header names that are mapped to a field without asking
+const FIELD_ALIASES: { [field in Field]: string[] } = {
+  recordType: ["type", "record type", "kind", "direction"],
+  amount: ["amount", "value", "sum", "total"],
+  department: ["department", "dept", "department id", "cost center"],
+  project: ["project", "project id"],
+  description: ["description", "memo", "details", "narrative", "reference"],
+};
+
+const TYPE_VALUES: { [value: string]: RecordType } = {
+  income: 0,
+  in: 0,
+  credit: 0,
+  "0": 0,
+  expense: 1,
+  out: 1,
+  debit: 1,
+  "1": 1,
+};
+
+type Mapping = { [field in Field]: number }; // column index, -1 when unmapped
+
+type ImportRow = {
+  line: number; // 1-based line in the file, for reporting
+  input?: RecordInput;
+  errors: string[];
+  result?: RecordInputResult;
+};
+
+// Splits CSV text into rows of cells. Handles quoted cells with embedded
+// delimiters, doubled quotes and line breaks.
+const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+// Picks whichever of comma, semicolon or tab appears most in the first line
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+const guessMapping = (headers: string[]): Mapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping = {} as Mapping;
+  for (const { field } of FIELDS) {
+    mapping[field] = normalized.findIndex((header) => FIELD_ALIASES[field].includes(header));
+  }
+  return mapping;
+};
+
+const findDepartment = (departments: Department[], value: string) => {
+  const key = value.trim().toLowerCase();
+  return departments.find((dept) => dept.id.toString() === key || dept.name.toLowerCase() === key);
+};
+
+const findProject = (projects: Project[], departmentId: bigint, value: string) => {
+  const key = value.trim().toLowerCase();
+  return projects.find(
+    (project) =>
+      project.departmentId === departmentId &&
+      (project.id.toString() === key || project.name.toLowerCase() === key)
+  );
+};
+
+// Largest amount an encrypted uint128 can hold
+const MAX_AMOUNT = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+// Checks one CSV line against the loaded departments and projects. Amounts
+// are whole units; spaces, underscores and apostrophes may group digits.
+// Commas and periods are rejected, as "12,50" and "1,250" read differently
+// by locale.
+const validateRow = (
+  cells: string[],
+  line: number,
+  mapping: Mapping,
+  bookkeepingDepartments: Department[],
+  departments: Department[],
+  projects: Project[]
+): ImportRow => {
+  const cell = (field: Field) => (mapping[field] >= 0 ? (cells[mapping[field]] ?? "").trim() : "");
+  const errors: string[] = [];
+
+  const rawAmount = cell("amount").replace(/[\s_']/g, "");
+  let amount: bigint | undefined;
+  if (/[,.]/.test(rawAmount)) {
+    errors.push(`Amount "${cell("amount")}" has a decimal or thousands separator; use whole units`);
+  } else if (!/^[+-]?\d+$/.test(rawAmount)) {
+    errors.push(rawAmount ? `Amount "${cell("amount")}" is not a whole number` : "Missing amount");
+  } else {
+    amount = BigInt(rawAmount);
+    if (amount === BigInt(0)) errors.push("Amount is zero");
+    if (amount > MAX_AMOUNT || -amount > MAX_AMOUNT) errors.push("Amount is too large to encrypt");
+  }
+
+  let recordType: RecordType | undefined;
+  if (mapping.recordType >= 0) {
+    recordType = TYPE_VALUES[cell("recordType").toLowerCase()];
+    if (recordType === undefined) errors.push(`Unknown type "${cell("recordType")}"`);
+    if (amount !== undefined && amount < BigInt(0)) errors.push("Negative amount with an explicit type");
+  } else if (amount !== undefined) {
+    recordType = amount < BigInt(0) ? 1 : 0;
+  }
+
+  const department = findDepartment(departments, cell("department"));
+  if (!cell("department")) {
+    errors.push("Missing department");
+  } else if (!department) {
+    errors.push(`Unknown department "${cell("department")}"`);
+  } else if (!bookkeepingDepartments.some((dept) => dept.id === department.id)) {
+    errors.push(`Not a bookkeeper in ${department.name}`);
+  } else if (department.archived) {
+    errors.push(`Department ${department.name} is archived`);
+  }
+
+  let projectId = BigInt(0);
+  if (cell("project") && department) {
+    const project = findProject(projects, department.id, cell("project"));
+    if (!project) {
+      errors.push(`Project "${cell("project")}" is not in ${department.name}`);
+    } else if (project.archived) {
+      errors.push(`Project ${project.name} is archived`);
+    } else {
+      projectId = project.id;
+    }
+  }
+
+  const description = cell("description");
+  if (!description) errors.push("Missing description");
+
+  if (errors.length > 0 || amount === undefined || recordType === undefined || !department) {
+    return { line, errors };
+  }
+
+  return {
+    line,
+    errors,
+    input: {
+      recordType,
+      amount: amount < BigInt(0) ? -amount : amount,
+      departmentId: department.id,
+      projectId,
+      categoryId: BigInt(0),
+      description,
+    },
+  };
+};
+
+export default function ImportPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const account = accounts?.[0]?.toLowerCase();
+
+  // Departments the account may book records in
+  const bookkeepingDepartments = shadowLedger.departments.filter(
+    (dept) => (getEffectiveRoles(dept, account) & ROLE_BOOKKEEPER) !== 0
+  );
+
+  // Wizard: paste or upload, map columns, then preview and submit
+  const [step, setStep] = useState<"source" | "mapping" | "preview">("source");
+  const [csvText, setCsvText] = useState("");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Mapping>(guessMapping([]));
+  const [rows, setRows] = useState<ImportRow[]>([]);
+
+  const headers = hasHeader && table.length > 0
+    ? table[0]
+    : (table[0] ?? []).map((_, i) => `Column ${i + 1}`);
+  const dataRows = hasHeader ? table.slice(1) : table;
+  const firstDataLine = hasHeader ? 2 : 1;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+  };
+
+  const handleParse = () => {
+    const parsed = parseCsv(csvText, detectDelimiter(csvText));
+    if (parsed.length === 0 || (hasHeader && parsed.length < 2)) {
+      alert("No data rows found");
+      return;
+    }
+    setTable(parsed);
+    setMapping(hasHeader ? guessMapping(parsed[0]) : guessMapping([]));
+    setStep("mapping");
+  };
+
+  const handleValidate = () => {
+    const missing = FIELDS.filter(({ field, required }) => required && mapping[field] < 0);
+    if (missing.length > 0) {
+      alert(`Please map: ${missing.map(({ label }) => label).join(", ")}`);
+      return;
+    }
+    setRows(
+      dataRows.map((cells, i) =>
+        validateRow(
+          cells,
+          firstDataLine + i,
+          mapping,
+          bookkeepingDepartments,
+          shadowLedger.departments,
+          shadowLedger.projects
+        )
+      )
+    );
+    setStep("preview");
+  };
+
+  // Submits the given rows and records each outcome on its row
+  const submitRows = async (lines: number[]) => {
+    const pending = rows.filter((row) => row.input && lines.includes(row.line));
+    if (pending.length === 0) return;
+
+    const results = await shadowLedger.createRecordsBatch(pending.map((row) => row.input!));
+    if (results.length === 0) return;
+
+    // Lines a cancelled run never submitted stay ready to submit again
+    const byLine = new Map(
+      pending
+        .map((row, i) => [row.line, results[i]] as const)
+        .filter(([, result]) => result.recordId !== undefined || result.error)
+    );
+    setRows((prev) =>
+      prev.map((row) => (byLine.has(row.line) ? { ...row, result: byLine.get(row.line) } : row))
+    );
+  };
+
+  const validRows = rows.filter((row) => row.input);
+  const unsubmittedRows = validRows.filter((row) => !row.result);
+  const failedRows = validRows.filter((row) => row.result?.error);
+  const createdRows = validRows.filter((row) => row.result?.recordId !== undefined);
+
+  const handleReset = () => {
+    setStep("source");
+    setCsvText("");
+    setTable([]);
+    setRows([]);
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Import</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to import records.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Import</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Import</span>
+            </h1>
+            {step !== "source" && (
+              <button
+                onClick={handleReset}
+                disabled={shadowLedger.isLoading}
+                className="btn-secondary text-sm"
+              >
+                ✕ Start Over
+              </button>
+            )}
+          </div>
+          <p className="text-muted-foreground">
+            Book bank and ERP exports from CSV; amounts are encrypted in the browser before submission
+          </p>
+        </div>
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        {step === "source" && (
+          <div className="card card-hover">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>📄</span> 1. Choose a CSV File
+            </h2>
+            <div className="space-y-5">
+              <div>
+                <label className="block text-sm font-semibold mb-2">File</label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv,text/plain"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Or paste CSV</label>
+                <textarea
+                  value={csvText}
+                  onChange={(e) => setCsvText(e.target.value)}
+                  className="input-field font-mono text-xs h-48"
+                  placeholder={"type,amount,department,project,description\nexpense,1200,Engineering,,Office rent"}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                />
+                First row is a header
+              </label>
+              <button
+                onClick={handleParse}
+                disabled={!csvText.trim()}
+                className="btn-primary w-full"
+              >
+                Next: Map Columns
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "mapping" && (
+          <div className="card card-hover">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>🧭</span> 2. Map Columns
+            </h2>
+            <p className="text-sm text-muted-foreground mb-5">
+              {dataRows.length} data rows, {headers.length} columns
+            </p>
+            <div className="space-y-5">
+              {FIELDS.map(({ field, label, required, hint }) => (
+                <div key={field}>
+                  <label className="block text-sm font-semibold mb-2">
+                    {label}{" "}
+                    {!required && <span className="text-muted-foreground font-normal">(optional)</span>}
+                  </label>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                    className="input-field"
+                  >
+                    <option value={-1}>Not mapped</option>
+                    {headers.map((header, i) => (
+                      <option key={i} value={i}>
+                        {header} (e.g. {dataRows[0]?.[i] ?? ""})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">{hint}</p>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setStep("source")}
+                  className="btn-secondary"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleValidate}
+                  className="btn-primary flex-1"
+                >
+                  Next: Validate and Preview
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="card">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-6">
+              <h2 className="text-xl font-semibold flex items-center gap-2">
+                <span>🔍</span> 3. Preview and Submit
+              </h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setStep("mapping")}
+                  disabled={shadowLedger.isLoading || createdRows.length > 0}
+                  className="btn-secondary text-sm"
+                >
+                  Back
+                </button>
+                {failedRows.length > 0 && (
+                  <button
+                    onClick={() => submitRows(failedRows.map((row) => row.line))}
+                    disabled={shadowLedger.isLoading}
+                    className="btn-secondary text-sm"
+                  >
+                    🔁 Retry {failedRows.length} Failed
+                  </button>
+                )}
+                <button
+                  onClick={() => submitRows(unsubmittedRows.map((row) => row.line))}
+                  disabled={shadowLedger.isLoading || unsubmittedRows.length === 0}
+                  className="btn-primary text-sm"
+                >
+                  🔒 Encrypt and Submit {unsubmittedRows.length} Rows
+                </button>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground mb-4">
+              {validRows.length} valid, {rows.length - validRows.length} with errors (skipped),{" "}
+              {createdRows.length} created, {failedRows.length} failed
+            </p>
+
+            {shadowLedger.batchProgress && (
+              <div className="mb-4">
+                <p className="text-sm mb-2">
+                  Chunk {shadowLedger.batchProgress.chunk} of {shadowLedger.batchProgress.chunks},{" "}
+                  {shadowLedger.batchProgress.submitted} / {shadowLedger.batchProgress.total} rows submitted
+                </p>
+                <div className="h-2 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{
+                      width: `${(100 * shadowLedger.batchProgress.submitted) / shadowLedger.batchProgress.total}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4">Line</th>
+                    <th className="py-2 pr-4">Type</th>
+                    <th className="py-2 pr-4">Amount</th>
+                    <th className="py-2 pr-4">Department</th>
+                    <th className="py-2 pr-4">Project</th>
+                    <th className="py-2 pr-4">Description</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.line} className="border-b align-top">
+                      <td className="py-2 pr-4 text-muted-foreground">{row.line}</td>
+                      {row.input ? (
+                        <>
+                          <td className="py-2 pr-4">{row.input.recordType === 0 ? "💰 Income" : "💸 Expense"}</td>
+                          <td className="py-2 pr-4 font-mono">{row.input.amount.toString()}</td>
+                          <td className="py-2 pr-4">
+                            {shadowLedger.departments.find((dept) => dept.id === row.input!.departmentId)?.name}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {row.input.projectId === BigInt(0)
+                              ? "None"
+                              : shadowLedger.projects.find((project) => project.id === row.input!.projectId)?.name}
+                          </td>
+                          <td className="py-2 pr-4">{row.input.description}</td>
+                        </>
+                      ) : (
+                        <td colSpan={5} className="py-2 pr-4 text-muted-foreground font-mono text-xs">
+                          {dataRows[row.line - firstDataLine]?.join(" | ")}
+                        </td>
+                      )}
+                      <td className="py-2">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600 dark:text-red-400">{row.errors.join("; ")}</span>
+                        ) : row.result?.recordId !== undefined ? (
+                          <span className="text-green-600 dark:text-green-400">
+                            ✓ Record #{row.result.recordId.toString()}
+                          </span>
+                        ) : row.result?.error ? (
+                          <span className="text-red-600 dark:text-red-400">✕ {row.result.error}</span>
+                        ) : (
+                          <span className="text-muted-foreground">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
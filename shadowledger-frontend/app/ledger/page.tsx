@@ -1,13 +1,23 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useShadowLedger } from "@/hooks/useShadowLedger";
+import {
+  getCategoryPath,
+  getEffectiveRoles,
+  Record,
+  RecordScope,
+  ROLE_VIEWER,
+  useShadowLedger,
+} from "@/hooks/useShadowLedger";
+import { RecordExport } from "@/components/RecordExport";
+
+const PAGE_SIZE = 20;
 
 export default function LedgerPage() {
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
   const {
     provider,
     chainId,
@@ -34,6 +44,7 @@ export default function LedgerPage() {
   const shadowLedger = useShadowLedger({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -42,12 +53,77 @@ export default function LedgerPage() {
     sameSigner,
   });
 
+  const account = accounts?.[0]?.toLowerCase();
+
+  // Departments whose records the account may read
+  const viewableDepartments = shadowLedger.departments.filter(
+    (dept) => (getEffectiveRoles(dept, account) & ROLE_VIEWER) !== 0
+  );
+
+  // Archived departments take no new records
+  const openDepartments = shadowLedger.departments.filter((dept) => !dept.archived);
+
+  const viewableProjects = shadowLedger.projects.filter((project) =>
+    viewableDepartments.some((dept) => dept.id === project.departmentId)
+  );
+
+  // Records are read one page at a time from an on-chain index: a department,
+  // a project, or the records the connected account created.
+  // Keys are "department:<id>", "project:<id>" or "creator".
+  const [scopeKey, setScopeKey] = useState<string>("");
+  const [page, setPage] = useState(0);
+  const [pageRecords, setPageRecords] = useState<Record[]>([]);
+  const [totalRecords, setTotalRecords] = useState<bigint>(BigInt(0));
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+
+  const effectiveScopeKey =
+    scopeKey || (viewableDepartments.length > 0 ? `department:${viewableDepartments[0].id.toString()}` : "creator");
+
+  const pageCount = Math.max(1, Math.ceil(Number(totalRecords) / PAGE_SIZE));
+
+  const { loadRecordPage } = shadowLedger;
+
+  const loadPage = useCallback(async () => {
+    if (!account) return;
+
+    const [kind, id] = effectiveScopeKey.split(":");
+    const scope: RecordScope =
+      kind === "department"
+        ? { kind: "department", departmentId: BigInt(id) }
+        : kind === "project"
+          ? { kind: "project", projectId: BigInt(id) }
+          : { kind: "creator", creator: account };
+
+    setIsLoadingPage(true);
+    try {
+      const result = await loadRecordPage(scope, page * PAGE_SIZE, PAGE_SIZE);
+      if (result) {
+        setPageRecords(result.records);
+        setTotalRecords(result.total);
+      }
+    } finally {
+      setIsLoadingPage(false);
+    }
+  }, [account, effectiveScopeKey, page, loadRecordPage]);
+
+  useEffect(() => {
+    if (shadowLedger.canInteract) {
+      loadPage();
+    }
+  }, [shadowLedger.canInteract, loadPage]);
+
+  const handleScopeChange = (key: string) => {
+    setScopeKey(key);
+    setPage(0);
+  };
+
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [formData, setFormData] = useState({
     recordType: 0 as 0 | 1,
     amount: "",
     departmentId: "",
     projectId: "",
+    categoryId: "",
     description: "",
   });
 
@@ -67,6 +143,7 @@ export default function LedgerPage() {
       BigInt(formData.amount),
       BigInt(formData.departmentId),
       BigInt(formData.projectId || "0"),
+      BigInt(formData.categoryId || "0"),
       formData.description
     );
 
@@ -76,19 +153,138 @@ export default function LedgerPage() {
       amount: "",
       departmentId: "",
       projectId: "",
+      categoryId: "",
       description: "",
     });
+    await loadPage();
+  };
+
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [transferData, setTransferData] = useState({
+    fromDepartmentId: "",
+    toDepartmentId: "",
+    amount: "",
+    description: "",
+  });
+
+  const handleTransfer = async () => {
+    if (!transferData.fromDepartmentId || !transferData.toDepartmentId || !transferData.amount || !transferData.description) {
+      alert("Please fill in all required fields");
+      return;
+    }
+
+    await shadowLedger.transfer(
+      BigInt(transferData.fromDepartmentId),
+      BigInt(transferData.toDepartmentId),
+      BigInt(transferData.amount),
+      transferData.description
+    );
+
+    setShowTransferForm(false);
+    setTransferData({ fromDepartmentId: "", toDepartmentId: "", amount: "", description: "" });
+    await loadPage();
+  };
+
+  const [correction, setCorrection] = useState<
+    { recordId: bigint; mode: "amend" | "reverse" } | undefined
+  >(undefined);
+  const [correctionData, setCorrectionData] = useState({
+    amount: "",
+    description: "",
+  });
+
+  const projectNames = new Map(
+    shadowLedger.projects.map((p) => [p.id.toString(), p.name])
+  );
+
+  // Chains are followed as far as the loaded page reaches; the badges still
+  // name the neighbouring entries
+  const recordsById = new Map(
+    pageRecords.map((r) => [r.id.toString(), r])
+  );
+
+  const getCorrectionChain = (record: Record) => {
+    let original = record;
+    while (original.correctsRecordId !== BigInt(0)) {
+      const previous = recordsById.get(original.correctsRecordId.toString());
+      if (!previous) break;
+      original = previous;
+    }
+
+    const chain = [original.id];
+    let current = original;
+    while (current.correctedByRecordId !== BigInt(0)) {
+      const next = recordsById.get(current.correctedByRecordId.toString());
+      if (!next) break;
+      chain.push(next.id);
+      current = next;
+    }
+    return chain;
   };
 
-  const handleDecrypt = async (record: typeof shadowLedger.records[0]) => {
+  const handleSubmitCorrection = async () => {
+    if (!correction) return;
+
+    if (!correctionData.description || (correction.mode === "amend" && !correctionData.amount)) {
+      alert("Please fill in all required fields");
+      return;
+    }
+
+    if (correction.mode === "amend") {
+      await shadowLedger.amendRecord(
+        correction.recordId,
+        BigInt(correctionData.amount),
+        correctionData.description
+      );
+    } else {
+      await shadowLedger.reverseRecord(correction.recordId, correctionData.description);
+    }
+
+    setCorrection(undefined);
+    setCorrectionData({ amount: "", description: "" });
+    await loadPage();
+  };
+
+  const handleDecrypt = async (record: Record) => {
     if (record.amountDecrypted !== undefined) return;
 
     const decrypted = await shadowLedger.decryptAmount(record.amountHandle);
     if (decrypted !== undefined) {
-      const updatedRecords = shadowLedger.records.map((r) =>
-        r.id === record.id ? { ...r, amountDecrypted: decrypted } : r
+      setPageRecords((prev) =>
+        prev.map((r) => (r.id === record.id ? { ...r, amountDecrypted: decrypted } : r))
       );
-      // Note: This is a simplified update. In production, you'd want to manage this state properly.
+    }
+  };
+
+  const handleDecrypted = (amounts: Map<string, bigint>) => {
+    setPageRecords((prev) =>
+      prev.map((r) =>
+        amounts.has(r.amountHandle) ? { ...r, amountDecrypted: amounts.get(r.amountHandle) } : r
+      )
+    );
+  };
+
+  const [isDecryptingAll, setIsDecryptingAll] = useState(false);
+
+  const decryptProgressLabel = shadowLedger.decryptProgress
+    ? `${shadowLedger.decryptProgress.done} / ${shadowLedger.decryptProgress.total}`
+    : "";
+
+  // One signature for every encrypted amount on screen
+  const handleDecryptAll = async () => {
+    const handles = pageRecords
+      .filter((r) => r.amountDecrypted === undefined)
+      .map((r) => r.amountHandle);
+    if (handles.length === 0) return;
+
+    setIsDecryptingAll(true);
+    try {
+      const amounts = await shadowLedger.decryptAmounts(handles);
+      if (amounts) {
+        handleDecrypted(amounts);
+      }
+    } finally {
+      setIsDecryptingAll(false);
     }
   };
 
@@ -140,12 +336,26 @@ export default function LedgerPage() {
             <h1 className="text-4xl sm:text-5xl font-bold">
               <span className="gradient-text">Ledger</span>
             </h1>
-            <button
-              onClick={() => setShowCreateForm(!showCreateForm)}
-              className={`btn-primary ${showCreateForm ? "bg-secondary text-secondary-foreground hover:bg-secondary/80" : ""}`}
-            >
-              {showCreateForm ? "✕ Cancel" : "+ Add Record"}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setShowTransferForm(!showTransferForm);
+                  setShowCreateForm(false);
+                }}
+                className="btn-secondary"
+              >
+                {showTransferForm ? "✕ Cancel" : "⇄ Transfer"}
+              </button>
+              <button
+                onClick={() => {
+                  setShowCreateForm(!showCreateForm);
+                  setShowTransferForm(false);
+                }}
+                className={`btn-primary ${showCreateForm ? "bg-secondary text-secondary-foreground hover:bg-secondary/80" : ""}`}
+              >
+                {showCreateForm ? "✕ Cancel" : "+ Add Record"}
+              </button>
+            </div>
           </div>
           <p className="text-muted-foreground">Create and manage encrypted financial records</p>
         </div>
@@ -161,7 +371,8 @@ export default function LedgerPage() {
                 <select
                   value={formData.recordType}
                   onChange={(e) =>
-                    setFormData({ ...formData, recordType: Number(e.target.value) as 0 | 1 })
+                    // Categories belong to one record type, so switching type clears the selection
+                    setFormData({ ...formData, recordType: Number(e.target.value) as 0 | 1, categoryId: "" })
                   }
                   className="input-field"
                 >
@@ -191,11 +402,11 @@ export default function LedgerPage() {
                 ) : (
                   <select
                     value={formData.departmentId}
-                    onChange={(e) => setFormData({ ...formData, departmentId: e.target.value })}
+                    onChange={(e) => setFormData({ ...formData, departmentId: e.target.value, projectId: "" })}
                     className="input-field"
                   >
                     <option value="">Select a department</option>
-                    {shadowLedger.departments.map((dept) => (
+                    {openDepartments.map((dept) => (
                       <option key={dept.id.toString()} value={dept.id.toString()}>
                         {dept.name} (ID: {dept.id.toString()})
                       </option>
@@ -204,14 +415,39 @@ export default function LedgerPage() {
                 )}
               </div>
               <div>
-                <label className="block text-sm font-semibold mb-2">Project ID <span className="text-muted-foreground font-normal">(optional)</span></label>
-                <input
-                  type="number"
+                <label className="block text-sm font-semibold mb-2">Project <span className="text-muted-foreground font-normal">(optional)</span></label>
+                <select
                   value={formData.projectId}
                   onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                  disabled={!formData.departmentId}
                   className="input-field"
-                  placeholder="Enter project ID (0 for none)"
-                />
+                >
+                  <option value="">No project</option>
+                  {shadowLedger.projects
+                    .filter((project) => project.departmentId.toString() === formData.departmentId && !project.archived)
+                    .map((project) => (
+                      <option key={project.id.toString()} value={project.id.toString()}>
+                        {project.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Category <span className="text-muted-foreground font-normal">(optional)</span></label>
+                <select
+                  value={formData.categoryId}
+                  onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                  className="input-field"
+                >
+                  <option value="">Uncategorized</option>
+                  {shadowLedger.categories
+                    .filter((category) => category.recordType === formData.recordType)
+                    .map((category) => (
+                      <option key={category.id.toString()} value={category.id.toString()}>
+                        {getCategoryPath(shadowLedger.categories, category.id)}
+                      </option>
+                    ))}
+                </select>
               </div>
               <div>
                 <label className="block text-sm font-semibold mb-2">Description</label>
@@ -234,6 +470,80 @@ export default function LedgerPage() {
           </div>
         )}
 
+        {showTransferForm && (
+          <div className="card card-hover mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>⇄</span> Transfer Between Departments
+            </h2>
+            <div className="space-y-5">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-semibold mb-2">From</label>
+                  <select
+                    value={transferData.fromDepartmentId}
+                    onChange={(e) => setTransferData({ ...transferData, fromDepartmentId: e.target.value })}
+                    className="input-field"
+                  >
+                    <option value="">Select a department</option>
+                    {openDepartments.map((dept) => (
+                      <option key={dept.id.toString()} value={dept.id.toString()}>
+                        {dept.name} (ID: {dept.id.toString()})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold mb-2">To</label>
+                  <select
+                    value={transferData.toDepartmentId}
+                    onChange={(e) => setTransferData({ ...transferData, toDepartmentId: e.target.value })}
+                    className="input-field"
+                  >
+                    <option value="">Select a department</option>
+                    {openDepartments
+                      .filter((dept) => dept.id.toString() !== transferData.fromDepartmentId)
+                      .map((dept) => (
+                        <option key={dept.id.toString()} value={dept.id.toString()}>
+                          {dept.name} (ID: {dept.id.toString()})
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Amount</label>
+                <input
+                  type="number"
+                  value={transferData.amount}
+                  onChange={(e) => setTransferData({ ...transferData, amount: e.target.value })}
+                  className="input-field"
+                  placeholder="Enter amount"
+                />
+                <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
+                  <span>🔒</span> Booked as an expense of the source and income of the destination
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Description</label>
+                <input
+                  type="text"
+                  value={transferData.description}
+                  onChange={(e) => setTransferData({ ...transferData, description: e.target.value })}
+                  className="input-field"
+                  placeholder="Enter description"
+                />
+              </div>
+              <button
+                onClick={handleTransfer}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary w-full"
+              >
+                {shadowLedger.isLoading ? "⏳ Booking..." : "⇄ Book Transfer"}
+              </button>
+            </div>
+          </div>
+        )}
+
         {shadowLedger.message && (
           <div className="card bg-primary/5 border-primary/20 mb-6">
             <p className="text-sm flex items-center gap-2">
@@ -244,15 +554,56 @@ export default function LedgerPage() {
         )}
 
         <div className="card">
-          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
-            <span>📋</span> Records
-          </h2>
-          {shadowLedger.isLoading ? (
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-6">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <span>📋</span> Records
+              <span className="text-sm text-muted-foreground font-normal">({totalRecords.toString()})</span>
+            </h2>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button
+                onClick={handleDecryptAll}
+                disabled={isDecryptingAll || pageRecords.every((r) => r.amountDecrypted !== undefined)}
+                className="btn-secondary text-sm whitespace-nowrap"
+              >
+                {isDecryptingAll ? `⏳ Decrypting... ${decryptProgressLabel}` : "🔓 Decrypt All Visible"}
+              </button>
+              <RecordExport
+                records={pageRecords}
+                departments={shadowLedger.departments}
+                projects={shadowLedger.projects}
+                categories={shadowLedger.categories}
+                decryptAmounts={shadowLedger.decryptAmounts}
+                onDecrypted={handleDecrypted}
+                exportedBy={accounts?.[0]}
+                chainId={chainId}
+                chainName={shadowLedger.chainName}
+                contractAddress={shadowLedger.contractAddress}
+              />
+              <select
+                value={effectiveScopeKey}
+                onChange={(e) => handleScopeChange(e.target.value)}
+                className="input-field sm:w-72"
+              >
+                {viewableDepartments.map((dept) => (
+                  <option key={`department:${dept.id.toString()}`} value={`department:${dept.id.toString()}`}>
+                    Department: {dept.name}
+                  </option>
+                ))}
+                {viewableProjects.map((project) => (
+                  <option key={`project:${project.id.toString()}`} value={`project:${project.id.toString()}`}>
+                    Project: {project.name}
+                  </option>
+                ))}
+                <option value="creator">Created by me</option>
+              </select>
+            </div>
+          </div>
+          {isLoadingPage ? (
             <div className="text-center py-12">
               <div className="animate-spin text-3xl mb-2">⏳</div>
               <p className="text-muted-foreground">Loading records...</p>
             </div>
-          ) : shadowLedger.records.length === 0 ? (
+          ) : pageRecords.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-5xl mb-4">📝</div>
               <p className="text-muted-foreground mb-4">No records found.</p>
@@ -260,7 +611,7 @@ export default function LedgerPage() {
             </div>
           ) : (
             <div className="space-y-3">
-              {shadowLedger.records.map((record) => (
+              {pageRecords.map((record) => (
                 <div
                   key={record.id.toString()}
                   className="border rounded-lg p-4 hover:bg-muted/50 transition-colors card-hover"
@@ -278,11 +629,100 @@ export default function LedgerPage() {
                         <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
                           #{record.id.toString()}
                         </span>
+                        {record.kind === 1 && (
+                          <span className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                            ✏️ Amends #{record.correctsRecordId.toString()}
+                          </span>
+                        )}
+                        {record.kind === 2 && (
+                          <span className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                            ↩️ Reverses #{record.correctsRecordId.toString()}
+                          </span>
+                        )}
+                        {record.approvalStatus === 1 && (
+                          <span className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                            ⏳ Pending approval
+                          </span>
+                        )}
+                        {record.approvalStatus === 3 && (
+                          <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded line-through">
+                            Rejected
+                          </span>
+                        )}
+                        {record.transferId !== BigInt(0) && (
+                          <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">
+                            ⇄ Transfer #{record.transferId.toString()}
+                          </span>
+                        )}
+                        {record.correctedByRecordId !== BigInt(0) && (
+                          <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded line-through">
+                            Superseded by #{record.correctedByRecordId.toString()}
+                          </span>
+                        )}
                       </div>
                       <p className="font-medium mb-1">{record.description}</p>
                       <p className="text-xs text-muted-foreground">
-                        Dept: {record.departmentId.toString()} | Project: {record.projectId.toString()}
+                        Dept: {record.departmentId.toString()} | Project: {record.projectId === BigInt(0) ? "None" : projectNames.get(record.projectId.toString()) ?? `#${record.projectId.toString()}`}
+                        {record.categoryId !== BigInt(0) && (
+                          <> | Category: {getCategoryPath(shadowLedger.categories, record.categoryId) || `#${record.categoryId.toString()}`}</>
+                        )}
                       </p>
+                      {getCorrectionChain(record).length > 1 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Chain: {getCorrectionChain(record).map((id) => `#${id.toString()}`).join(" → ")}
+                        </p>
+                      )}
+                      {record.kind !== 2 && record.correctedByRecordId === BigInt(0) && record.transferId === BigInt(0) && record.approvalStatus !== 1 && record.approvalStatus !== 3 && (
+                        <div className="flex gap-2 mt-3">
+                          <button
+                            onClick={() => setCorrection({ recordId: record.id, mode: "amend" })}
+                            className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                          >
+                            ✏️ Amend
+                          </button>
+                          <button
+                            onClick={() => setCorrection({ recordId: record.id, mode: "reverse" })}
+                            className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                          >
+                            ↩️ Reverse
+                          </button>
+                        </div>
+                      )}
+                      {correction?.recordId === record.id && (
+                        <div className="mt-3 space-y-3 border-t pt-3">
+                          {correction.mode === "amend" && (
+                            <input
+                              type="number"
+                              value={correctionData.amount}
+                              onChange={(e) => setCorrectionData({ ...correctionData, amount: e.target.value })}
+                              className="input-field"
+                              placeholder="Corrected amount"
+                            />
+                          )}
+                          <input
+                            type="text"
+                            value={correctionData.description}
+                            onChange={(e) => setCorrectionData({ ...correctionData, description: e.target.value })}
+                            className="input-field"
+                            placeholder={correction.mode === "amend" ? "Reason for amendment" : "Reason for reversal"}
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={handleSubmitCorrection}
+                              disabled={shadowLedger.isLoading}
+                              className="btn-primary text-sm"
+                            >
+                              {correction.mode === "amend" ? "Submit Amendment" : "Submit Reversal"}
+                            </button>
+                            <button
+                              onClick={() => setCorrection(undefined)}
+                              className="btn-secondary text-sm"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
                     </div>
                     <div className="text-right ml-4">
                       {record.amountDecrypted !== undefined ? (
@@ -317,6 +757,27 @@ export default function LedgerPage() {
               ))}
             </div>
           )}
+          {pageCount > 1 && (
+            <div className="flex justify-between items-center mt-6">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0 || isLoadingPage}
+                className="btn-secondary text-sm"
+              >
+                ← Previous
+              </button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount || isLoadingPage}
+                className="btn-secondary text-sm"
+              >
+                Next →
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
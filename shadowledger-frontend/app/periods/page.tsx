@@ -0,0 +1,482 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { FiscalPeriod, PeriodSnapshot, useShadowLedger } from "@/hooks/useShadowLedger";
+
+const formatDate = (timestamp: bigint) =>
+  new Date(Number(timestamp) * 1000).toLocaleDateString();
+
+export default function PeriodsPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [fromDate, setFromDate] = useState<string>("");
+  const [toDate, setToDate] = useState<string>("");
+  const [reopening, setReopening] = useState<{ periodId: bigint; reason: string } | undefined>(undefined);
+
+  const [snapshotForm, setSnapshotForm] = useState({ periodId: "", closeNumber: "", departmentId: "" });
+  const [snapshot, setSnapshot] = useState<PeriodSnapshot | undefined>(undefined);
+  const [snapshotDecrypted, setSnapshotDecrypted] = useState<
+    { income: bigint; expense: bigint } | undefined
+  >(undefined);
+  const [isDecryptingSnapshot, setIsDecryptingSnapshot] = useState(false);
+
+  const isSystemAdmin =
+    shadowLedger.governance !== undefined &&
+    shadowLedger.governance.systemAdmin.toLowerCase() === accounts?.[0]?.toLowerCase();
+
+  const snapshotPeriods = shadowLedger.fiscalPeriods.filter((period) => period.closeCount > BigInt(0));
+  const selectedSnapshotPeriod = snapshotPeriods.find((period) => period.id.toString() === snapshotForm.periodId);
+  const closeNumbers = selectedSnapshotPeriod
+    ? Array.from({ length: Number(selectedSnapshotPeriod.closeCount) }, (_, i) => (i + 1).toString())
+    : [];
+
+  useEffect(() => {
+    if (shadowLedger.canInteract) {
+      shadowLedger.refreshFiscalPeriods();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shadowLedger.canInteract, shadowLedger.contractAddress]);
+
+  const handleOpenPeriod = async () => {
+    if (!fromDate || !toDate) {
+      alert("Please select a start and end date");
+      return;
+    }
+
+    const startTimestamp = BigInt(Math.floor(new Date(`${fromDate}T00:00:00`).getTime() / 1000));
+    const endTimestamp = BigInt(Math.floor(new Date(`${toDate}T23:59:59`).getTime() / 1000));
+
+    if (startTimestamp > endTimestamp) {
+      alert("The start date must not be after the end date");
+      return;
+    }
+
+    await shadowLedger.openFiscalPeriod(startTimestamp, endTimestamp);
+    setShowOpenForm(false);
+    setFromDate("");
+    setToDate("");
+  };
+
+  const handleClosePeriod = async (period: FiscalPeriod) => {
+    if (
+      !confirm(
+        `Close period #${period.id.toString()}? New records and corrections dated inside it will be rejected, and the totals of every department will be snapshotted.`
+      )
+    ) {
+      return;
+    }
+
+    await shadowLedger.closeFiscalPeriod(period.id);
+  };
+
+  const handleReopenPeriod = async () => {
+    if (!reopening) return;
+
+    if (!reopening.reason.trim()) {
+      alert("Please give a reason for reopening the period");
+      return;
+    }
+
+    await shadowLedger.reopenFiscalPeriod(reopening.periodId, reopening.reason.trim());
+    setReopening(undefined);
+  };
+
+  const loadSnapshot = async () => {
+    if (!snapshotForm.periodId || !snapshotForm.closeNumber || !snapshotForm.departmentId) return;
+
+    setSnapshotDecrypted(undefined);
+    const loaded = await shadowLedger.getPeriodSnapshot(
+      BigInt(snapshotForm.periodId),
+      BigInt(snapshotForm.closeNumber),
+      BigInt(snapshotForm.departmentId)
+    );
+    setSnapshot(loaded);
+  };
+
+  const handleDecryptSnapshot = async () => {
+    if (!snapshot) return;
+
+    setIsDecryptingSnapshot(true);
+    try {
+      const income = await shadowLedger.decryptAmount(snapshot.incomeHandle);
+      const expense = await shadowLedger.decryptAmount(snapshot.expenseHandle);
+
+      if (income !== undefined && expense !== undefined) {
+        setSnapshotDecrypted({ income, expense });
+      }
+    } finally {
+      setIsDecryptingSnapshot(false);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Fiscal Periods</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to manage fiscal periods.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Fiscal Periods</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Fiscal Periods</span>
+            </h1>
+            <div className="flex gap-2">
+              <button
+                onClick={() => shadowLedger.refreshFiscalPeriods()}
+                disabled={shadowLedger.isLoading}
+                className="btn-secondary text-sm"
+              >
+                {shadowLedger.isLoading ? "⏳ Loading..." : "🔄 Refresh"}
+              </button>
+              {isSystemAdmin && (
+                <button
+                  onClick={() => setShowOpenForm(!showOpenForm)}
+                  className={`btn-primary text-sm ${showOpenForm ? "bg-secondary text-secondary-foreground hover:bg-secondary/80" : ""}`}
+                >
+                  {showOpenForm ? "✕ Cancel" : "+ Open Period"}
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="text-muted-foreground">Close reported periods to lock them against new entries</p>
+        </div>
+
+        {showOpenForm && isSystemAdmin && (
+          <div className="card card-hover mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>📅</span> Open New Period
+            </h2>
+            <div className="space-y-5">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-semibold mb-2">Start Date</label>
+                  <input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold mb-2">End Date</label>
+                  <input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={handleOpenPeriod}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary w-full"
+              >
+                {shadowLedger.isLoading ? "⏳ Opening..." : "📅 Open Period"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        <div className="card mb-6">
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+            <span>📋</span> Period List
+          </h2>
+          {shadowLedger.fiscalPeriods.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">📅</div>
+              <p className="text-muted-foreground mb-4">No fiscal periods defined.</p>
+              <p className="text-sm text-muted-foreground">Records can be booked at any time until a period is closed</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {shadowLedger.fiscalPeriods.map((period) => (
+                <div key={period.id.toString()} className="border rounded-lg p-4">
+                  <div className="flex flex-wrap justify-between items-start gap-3">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-semibold">Period #{period.id.toString()}</h3>
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${
+                            period.closed
+                              ? "bg-destructive/10 text-destructive"
+                              : "bg-green-500/10 text-green-700 dark:text-green-400"
+                          }`}
+                        >
+                          {period.closed ? "🔒 Closed" : "Open"}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(period.startTimestamp)} – {formatDate(period.endTimestamp)}
+                      </p>
+                      {period.closedAt !== BigInt(0) && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Last closed {new Date(Number(period.closedAt) * 1000).toLocaleString()}
+                        </p>
+                      )}
+                      {period.reopenReason && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Reopened: {period.reopenReason}
+                        </p>
+                      )}
+                    </div>
+                    {isSystemAdmin && (
+                      period.closed ? (
+                        <button
+                          onClick={() => setReopening({ periodId: period.id, reason: "" })}
+                          disabled={shadowLedger.isLoading}
+                          className="btn-secondary text-sm"
+                        >
+                          🔓 Reopen
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleClosePeriod(period)}
+                          disabled={shadowLedger.isLoading}
+                          className="btn-secondary text-sm"
+                        >
+                          🔒 Close
+                        </button>
+                      )
+                    )}
+                  </div>
+                  {reopening?.periodId === period.id && (
+                    <div className="flex gap-2 mt-4">
+                      <input
+                        type="text"
+                        value={reopening.reason}
+                        onChange={(e) => setReopening({ ...reopening, reason: e.target.value })}
+                        className="input-field flex-1"
+                        placeholder="Reason for reopening"
+                      />
+                      <button
+                        onClick={handleReopenPeriod}
+                        disabled={shadowLedger.isLoading}
+                        className="btn-primary"
+                      >
+                        Confirm
+                      </button>
+                      <button
+                        onClick={() => setReopening(undefined)}
+                        className="btn-secondary"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="card card-hover">
+          <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+            <span>🧊</span> Closing Snapshots
+          </h2>
+          <p className="text-sm text-muted-foreground mb-6">
+            Department totals frozen each time the period was closed. A reopened period keeps its earlier snapshots;
+            they are visible to the department admin and system admin.
+          </p>
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Period</label>
+                <select
+                  value={snapshotForm.periodId}
+                  onChange={(e) => {
+                    const period = snapshotPeriods.find((p) => p.id.toString() === e.target.value);
+                    setSnapshotForm({
+                      ...snapshotForm,
+                      periodId: e.target.value,
+                      closeNumber: period ? period.closeCount.toString() : "",
+                    });
+                    setSnapshot(undefined);
+                    setSnapshotDecrypted(undefined);
+                  }}
+                  className="input-field"
+                >
+                  <option value="">Select a period</option>
+                  {snapshotPeriods.map((period) => (
+                    <option key={period.id.toString()} value={period.id.toString()}>
+                      #{period.id.toString()} ({formatDate(period.startTimestamp)} – {formatDate(period.endTimestamp)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Close</label>
+                <select
+                  value={snapshotForm.closeNumber}
+                  onChange={(e) => {
+                    setSnapshotForm({ ...snapshotForm, closeNumber: e.target.value });
+                    setSnapshot(undefined);
+                    setSnapshotDecrypted(undefined);
+                  }}
+                  disabled={closeNumbers.length === 0}
+                  className="input-field"
+                >
+                  {closeNumbers.length === 0 && <option value="">Select a period first</option>}
+                  {closeNumbers.map((closeNumber) => (
+                    <option key={closeNumber} value={closeNumber}>
+                      Close #{closeNumber}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Department</label>
+                <select
+                  value={snapshotForm.departmentId}
+                  onChange={(e) => {
+                    setSnapshotForm({ ...snapshotForm, departmentId: e.target.value });
+                    setSnapshot(undefined);
+                    setSnapshotDecrypted(undefined);
+                  }}
+                  className="input-field"
+                >
+                  <option value="">Select a department</option>
+                  {shadowLedger.departments.map((dept) => (
+                    <option key={dept.id.toString()} value={dept.id.toString()}>
+                      {dept.name} (ID: {dept.id.toString()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={loadSnapshot}
+                disabled={
+                  shadowLedger.isLoading ||
+                  !snapshotForm.periodId ||
+                  !snapshotForm.closeNumber ||
+                  !snapshotForm.departmentId
+                }
+                className="btn-secondary text-sm"
+              >
+                📥 Load Snapshot
+              </button>
+            </div>
+            {snapshot && (
+              <div className="border rounded-lg p-4">
+                {snapshotDecrypted ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Income</p>
+                      <p className="text-2xl font-bold text-green-700 dark:text-green-400">{snapshotDecrypted.income.toString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Expense</p>
+                      <p className="text-2xl font-bold text-red-700 dark:text-red-400">{snapshotDecrypted.expense.toString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Net</p>
+                      <p className="text-2xl font-bold">{(snapshotDecrypted.income - snapshotDecrypted.expense).toString()}</p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm text-muted-foreground">Snapshot loaded</p>
+                    <button
+                      onClick={handleDecryptSnapshot}
+                      disabled={isDecryptingSnapshot}
+                      className="text-xs px-3 py-1.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                    >
+                      {isDecryptingSnapshot ? "⏳ Decrypting..." : "🔓 Decrypt"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { Project, useShadowLedger } from "@/hooks/useShadowLedger";
+
+export default function ProjectsPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const account = accounts?.[0]?.toLowerCase();
+
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState({
+    departmentId: "",
+    name: "",
+    manager: "",
+  });
+  const [editing, setEditing] = useState<
+    { projectId: bigint; name: string; manager: string } | undefined
+  >(undefined);
+
+  const adminDepartments = shadowLedger.departments.filter(
+    (dept) => dept.admin.toLowerCase() === account
+  );
+
+  const isDepartmentAdmin = (project: Project) =>
+    adminDepartments.some((dept) => dept.id === project.departmentId);
+
+  const isProjectManager = (project: Project) =>
+    project.manager.toLowerCase() === account;
+
+  const handleCreateProject = async () => {
+    if (!formData.departmentId || !formData.name) {
+      alert("Please select a department and enter a project name");
+      return;
+    }
+
+    if (formData.manager && !ethers.isAddress(formData.manager)) {
+      alert("Please enter a valid project manager address");
+      return;
+    }
+
+    await shadowLedger.createProject(
+      BigInt(formData.departmentId),
+      formData.name,
+      formData.manager
+    );
+    setShowCreateForm(false);
+    setFormData({ departmentId: "", name: "", manager: "" });
+  };
+
+  const handleSaveProject = async (project: Project) => {
+    if (!editing) return;
+
+    if (!editing.name) {
+      alert("Please enter a project name");
+      return;
+    }
+
+    if (editing.manager && !ethers.isAddress(editing.manager)) {
+      alert("Please enter a valid project manager address");
+      return;
+    }
+
+    if (editing.name !== project.name) {
+      await shadowLedger.renameProject(project.id, editing.name);
+    }
+
+    const manager = editing.manager || ethers.ZeroAddress;
+    if (isDepartmentAdmin(project) && manager.toLowerCase() !== project.manager.toLowerCase()) {
+      await shadowLedger.setProjectManager(project.id, manager);
+    }
+
+    setEditing(undefined);
+  };
+
+  const handleArchiveProject = async (project: Project) => {
+    if (!confirm(`Archive "${project.name}"? It will no longer accept new records.`)) {
+      return;
+    }
+
+    await shadowLedger.archiveProject(project.id);
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Projects</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to manage projects.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Projects</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Projects</span>
+            </h1>
+            <div className="flex gap-2">
+              <button
+                onClick={() => shadowLedger.refreshProjects()}
+                disabled={shadowLedger.isLoading}
+                className="btn-secondary text-sm"
+              >
+                {shadowLedger.isLoading ? "⏳ Loading..." : "🔄 Refresh"}
+              </button>
+              {adminDepartments.length > 0 && (
+                <button
+                  onClick={() => setShowCreateForm(!showCreateForm)}
+                  className={`btn-primary text-sm ${showCreateForm ? "bg-secondary text-secondary-foreground hover:bg-secondary/80" : ""}`}
+                >
+                  {showCreateForm ? "✕ Cancel" : "+ Create Project"}
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="text-muted-foreground">Projects that records and budgets can be assigned to</p>
+        </div>
+
+        {showCreateForm && (
+          <div className="card card-hover mb-6">
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <span>📁</span> Create New Project
+            </h2>
+            <div className="space-y-5">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Department</label>
+                <select
+                  value={formData.departmentId}
+                  onChange={(e) => setFormData({ ...formData, departmentId: e.target.value })}
+                  className="input-field"
+                >
+                  <option value="">Select a department</option>
+                  {adminDepartments.map((dept) => (
+                    <option key={dept.id.toString()} value={dept.id.toString()}>
+                      {dept.name} (ID: {dept.id.toString()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Project Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="input-field"
+                  placeholder="Enter project name"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Project Manager <span className="text-muted-foreground font-normal">(optional)</span></label>
+                <input
+                  type="text"
+                  value={formData.manager}
+                  onChange={(e) => setFormData({ ...formData, manager: e.target.value })}
+                  className="input-field font-mono"
+                  placeholder="0x..."
+                />
+              </div>
+              <button
+                onClick={handleCreateProject}
+                disabled={shadowLedger.isLoading}
+                className="btn-primary w-full"
+              >
+                {shadowLedger.isLoading ? "⏳ Creating..." : "✨ Create Project"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+            <span>📋</span> Project List
+          </h2>
+          {shadowLedger.projects.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">📁</div>
+              <p className="text-muted-foreground mb-4">No projects found.</p>
+              <p className="text-sm text-muted-foreground">Department admins can create projects above</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {shadowLedger.departments
+                .filter((dept) => shadowLedger.projects.some((p) => p.departmentId === dept.id))
+                .map((dept) => (
+                  <div key={dept.id.toString()}>
+                    <h3 className="text-sm font-semibold text-muted-foreground mb-3">{dept.name}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {shadowLedger.projects
+                        .filter((project) => project.departmentId === dept.id)
+                        .map((project) => (
+                          <div
+                            key={project.id.toString()}
+                            className={`card bg-gradient-to-br from-muted/30 to-muted/10 ${project.archived ? "opacity-60" : "card-hover"}`}
+                          >
+                            {editing?.projectId === project.id ? (
+                              <div className="space-y-3">
+                                <input
+                                  type="text"
+                                  value={editing.name}
+                                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                                  className="input-field"
+                                  placeholder="Project name"
+                                />
+                                {isDepartmentAdmin(project) && (
+                                  <input
+                                    type="text"
+                                    value={editing.manager}
+                                    onChange={(e) => setEditing({ ...editing, manager: e.target.value })}
+                                    className="input-field font-mono"
+                                    placeholder="Project manager (0x..., optional)"
+                                  />
+                                )}
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={() => handleSaveProject(project)}
+                                    disabled={shadowLedger.isLoading}
+                                    className="btn-primary text-sm"
+                                  >
+                                    Save
+                                  </button>
+                                  <button
+                                    onClick={() => setEditing(undefined)}
+                                    className="btn-secondary text-sm"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <>
+                                <div className="flex items-start justify-between mb-3">
+                                  <h4 className="text-lg font-semibold">{project.name}</h4>
+                                  <div className="flex gap-2">
+                                    {project.archived && (
+                                      <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded-full">
+                                        Archived
+                                      </span>
+                                    )}
+                                    <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
+                                      ID: {project.id.toString()}
+                                    </span>
+                                  </div>
+                                </div>
+                                <div className="space-y-2 text-sm">
+                                  <div>
+                                    <span className="text-muted-foreground">Manager: </span>
+                                    {project.manager === ethers.ZeroAddress ? (
+                                      <span className="text-muted-foreground">None</span>
+                                    ) : (
+                                      <span className="font-mono text-xs">{project.manager}</span>
+                                    )}
+                                  </div>
+                                  <div>
+                                    <span className="text-muted-foreground">Created: </span>
+                                    {new Date(Number(project.createdAt) * 1000).toLocaleDateString()}
+                                  </div>
+                                </div>
+                                {!project.archived && (isDepartmentAdmin(project) || isProjectManager(project)) && (
+                                  <div className="flex gap-2 mt-4">
+                                    <button
+                                      onClick={() =>
+                                        setEditing({
+                                          projectId: project.id,
+                                          name: project.name,
+                                          manager: project.manager === ethers.ZeroAddress ? "" : project.manager,
+                                        })
+                                      }
+                                      disabled={shadowLedger.isLoading}
+                                      className="btn-secondary text-sm"
+                                    >
+                                      ✏️ Edit
+                                    </button>
+                                    {isDepartmentAdmin(project) && (
+                                      <button
+                                        onClick={() => handleArchiveProject(project)}
+                                        disabled={shadowLedger.isLoading}
+                                        className="btn-secondary text-sm"
+                                      >
+                                        📦 Archive
+                                      </button>
+                                    )}
+                                  </div>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import type { ReactNode } from "react";
 
 import { MetaMaskProvider } from "@/hooks/metamask/useMetaMaskProvider";
-import { InMemoryStorageProvider } from "@/hooks/useInMemoryStorage";
+import { SignatureStorageProvider } from "@/hooks/useSignatureStorage";
 import { MetaMaskEthersSignerProvider } from "@/hooks/metamask/useMetaMaskEthersSigner";
 
 type Props = {
@@ -14,7 +14,7 @@ export function Providers({ children }: Props) {
   return (
     <MetaMaskProvider>
       <MetaMaskEthersSignerProvider initialMockChains={{ 31337: "http://localhost:8545" }}>
-        <InMemoryStorageProvider>{children}</InMemoryStorageProvider>
+        <SignatureStorageProvider>{children}</SignatureStorageProvider>
       </MetaMaskEthersSignerProvider>
     </MetaMaskProvider>
   );
@@ -0,0 +1,338 @@
+"use client";
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+import { useFhevm } from "@/fhevm/useFhevm";
+import {
+  DEPARTMENT_ROLES,
+  getEffectiveRoles,
+  ROLE_BOOKKEEPER,
+  ROLE_VIEWER,
+  useShadowLedger,
+} from "@/hooks/useShadowLedger";
+
+// The admin is always a bookkeeper and viewer, whatever is assigned
+const ADMIN_ROLES = ROLE_BOOKKEEPER | ROLE_VIEWER;
+
+export default function RolesPage() {
+  const { storage: fhevmDecryptionSignatureStorage, durationDays: signatureDurationDays } = useSignatureStorage();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const {
+    instance: fhevmInstance,
+  } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: isConnected,
+  });
+
+  const shadowLedger = useShadowLedger({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
+    eip1193Provider: provider,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  const account = accounts?.[0]?.toLowerCase();
+
+  const [departmentKey, setDepartmentKey] = useState("");
+  // Unsaved checkbox changes, keyed by lower-cased account
+  const [drafts, setDrafts] = useState<{ [account: string]: number }>({});
+  const [newAccount, setNewAccount] = useState("");
+
+  const department =
+    shadowLedger.departments.find((dept) => dept.id.toString() === departmentKey) ?? shadowLedger.departments[0];
+  const isDepartmentAdmin = department?.admin.toLowerCase() === account;
+
+  // The admin, then members, then accounts holding roles without membership
+  const matrixAccounts: string[] = [];
+  if (department) {
+    for (const candidate of [
+      department.admin,
+      ...department.members,
+      ...department.roleHolders.filter((holder) => holder.roles !== 0).map((holder) => holder.account),
+    ]) {
+      if (!matrixAccounts.some((existing) => existing.toLowerCase() === candidate.toLowerCase())) {
+        matrixAccounts.push(candidate);
+      }
+    }
+  }
+
+  const handleDepartmentChange = (key: string) => {
+    setDepartmentKey(key);
+    setDrafts({});
+  };
+
+  const toggleRole = (row: string, current: number, flag: number) => {
+    setDrafts((prev) => ({ ...prev, [row.toLowerCase()]: current ^ flag }));
+  };
+
+  const handleSave = async (row: string) => {
+    if (!department) return;
+    const roles = drafts[row.toLowerCase()];
+    if (roles === undefined) return;
+
+    await shadowLedger.setDepartmentRoles(department.id, row, roles);
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[row.toLowerCase()];
+      return next;
+    });
+  };
+
+  const handleAddAccount = () => {
+    if (!ethers.isAddress(newAccount)) {
+      alert("Please enter a valid address");
+      return;
+    }
+    if (matrixAccounts.some((existing) => existing.toLowerCase() === newAccount.toLowerCase())) {
+      alert("This account is already in the matrix");
+      return;
+    }
+
+    // Starts as a viewer; the row is saved like any other
+    setDrafts((prev) => ({ ...prev, [newAccount.toLowerCase()]: ROLE_VIEWER }));
+    setNewAccount("");
+  };
+
+  // Drafted accounts not yet on chain get their own rows
+  const draftedAccounts = Object.keys(drafts).filter(
+    (drafted) => !matrixAccounts.some((existing) => existing.toLowerCase() === drafted)
+  );
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <h1 className="text-4xl sm:text-5xl font-bold mb-4">
+              <span className="gradient-text">Roles</span>
+            </h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Please connect your wallet to manage department roles.
+            </p>
+            <button
+              onClick={connect}
+              className="btn-primary"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shadowLedger.isDeployed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-6">
+            <span className="gradient-text">Roles</span>
+          </h1>
+          <div className="card">
+            <p className="text-muted-foreground">
+              ShadowLedger contract is not deployed on this network.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl sm:text-5xl font-bold">
+              <span className="gradient-text">Roles</span>
+            </h1>
+            <button
+              onClick={() => shadowLedger.refreshDepartments(true)}
+              disabled={shadowLedger.isLoadingDepartments}
+              className="btn-secondary text-sm"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <p className="text-muted-foreground">Who may book, read and calculate in each department</p>
+        </div>
+
+        {shadowLedger.message && (
+          <div className="card bg-primary/5 border-primary/20 mb-6">
+            <p className="text-sm flex items-center gap-2">
+              <span>ℹ️</span>
+              {shadowLedger.message}
+            </p>
+          </div>
+        )}
+
+        <div className="card card-hover mb-6">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <span>🎭</span> Role Definitions
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            {DEPARTMENT_ROLES.map((role) => (
+              <div key={role.flag} className="border rounded-lg p-4">
+                <p className="font-semibold mb-1">{role.label}</p>
+                <p className="text-muted-foreground">{role.description}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-4">
+            The department admin and members without assigned roles are bookkeepers and viewers. Auditors read
+            and calculate the departments of their live audit engagements regardless of roles.
+          </p>
+        </div>
+
+        <div className="card">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <span>🧮</span> Role Matrix
+            </h2>
+            <select
+              value={department?.id.toString() ?? ""}
+              onChange={(e) => handleDepartmentChange(e.target.value)}
+              className="input-field sm:w-72"
+            >
+              {shadowLedger.departments.map((dept) => (
+                <option key={dept.id.toString()} value={dept.id.toString()}>
+                  {dept.name}
+                  {dept.archived ? " (archived)" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {!department ? (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">🏢</div>
+              <p className="text-muted-foreground">No departments yet.</p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4">Account</th>
+                      {DEPARTMENT_ROLES.map((role) => (
+                        <th key={role.flag} className="py-2 pr-4 text-center">
+                          {role.label}
+                        </th>
+                      ))}
+                      {isDepartmentAdmin && <th className="py-2" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...matrixAccounts, ...draftedAccounts].map((row) => {
+                      const lower = row.toLowerCase();
+                      const isAdminRow = department.admin.toLowerCase() === lower;
+                      const isMember = department.members.some((member) => member.toLowerCase() === lower);
+                      const assigned =
+                        department.roleHolders.find((holder) => holder.account.toLowerCase() === lower)?.roles ?? 0;
+                      const draft = drafts[lower];
+                      const shown = draft ?? getEffectiveRoles(department, row);
+                      return (
+                        <tr key={lower} className="border-b align-middle">
+                          <td className="py-2 pr-4">
+                            <span className="font-mono text-xs">{row}</span>
+                            {lower === account && <span className="text-muted-foreground"> (you)</span>}
+                            <span className="block text-xs text-muted-foreground">
+                              {isAdminRow
+                                ? "Admin"
+                                : isMember
+                                  ? assigned === 0
+                                    ? "Member, default roles"
+                                    : "Member"
+                                  : "Not a member"}
+                            </span>
+                          </td>
+                          {DEPARTMENT_ROLES.map((role) => {
+                            const isFixed = isAdminRow && (ADMIN_ROLES & role.flag) !== 0;
+                            return (
+                              <td key={role.flag} className="py-2 pr-4 text-center">
+                                <input
+                                  type="checkbox"
+                                  checked={isFixed || (shown & role.flag) !== 0}
+                                  disabled={!isDepartmentAdmin || isFixed || shadowLedger.isLoading}
+                                  onChange={() => toggleRole(row, shown, role.flag)}
+                                />
+                              </td>
+                            );
+                          })}
+                          {isDepartmentAdmin && (
+                            <td className="py-2 text-right">
+                              <button
+                                onClick={() => handleSave(row)}
+                                disabled={shadowLedger.isLoading || draft === undefined}
+                                className="text-xs px-3 py-1.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 whitespace-nowrap"
+                              >
+                                💾 Save
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {isDepartmentAdmin ? (
+                <div className="mt-6">
+                  <label className="block text-sm font-semibold mb-2">Grant roles to another account</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newAccount}
+                      onChange={(e) => setNewAccount(e.target.value)}
+                      className="input-field flex-1 font-mono"
+                      placeholder="0x..."
+                    />
+                    <button
+                      onClick={handleAddAccount}
+                      disabled={!newAccount}
+                      className="btn-secondary text-sm whitespace-nowrap"
+                    >
+                      ➕ Add Row
+                    </button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Accounts outside the department can hold roles too, e.g. a finance controller reading several
+                    departments. Clearing every role of a member puts them back on the default roles; remove them
+                    from the department to revoke their access.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-4">
+                  Only the department admin can change roles.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
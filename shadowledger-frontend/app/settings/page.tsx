@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSignatureStorage } from "@/hooks/useSignatureStorage";
+
+const DURATION_OPTIONS = [1, 7, 30, 90, 365];
+
+const formatTimestamp = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+export default function SettingsPage() {
+  const {
+    durationDays,
+    setDurationDays,
+    signatures,
+    refreshSignatures,
+    revokeSignature,
+    revokeAllSignatures,
+  } = useSignatureStorage();
+
+  useEffect(() => {
+    refreshSignatures();
+  }, [refreshSignatures]);
+
+  const handleRevokeAll = () => {
+    if (!confirm("Revoke all stored decryption signatures? You will be asked to sign again on the next decryption.")) {
+      return;
+    }
+    revokeAllSignatures();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="mb-8">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-2">
+            <span className="gradient-text">Settings</span>
+          </h1>
+          <p className="text-muted-foreground">Decryption signatures kept in this browser</p>
+        </div>
+
+        <div className="card card-hover mb-6">
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+            <span>⏱️</span> Signature Duration
+          </h2>
+          <label className="block text-sm font-semibold mb-2">New signatures are valid for</label>
+          <select
+            value={durationDays}
+            onChange={(e) => setDurationDays(Number(e.target.value))}
+            className="input-field sm:w-72"
+          >
+            {DURATION_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days === 1 ? "1 day" : `${days} days`}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground mt-2">
+            A decryption signature is reused until it expires, so you only sign once per period.
+            Changing the duration applies to the next signature.
+          </p>
+        </div>
+
+        <div className="card">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <span>🔑</span> Stored Signatures
+            </h2>
+            <div className="flex gap-2">
+              <button
+                onClick={refreshSignatures}
+                className="btn-secondary text-sm"
+              >
+                🔄 Refresh
+              </button>
+              {signatures.length > 0 && (
+                <button
+                  onClick={handleRevokeAll}
+                  className="btn-secondary text-sm"
+                >
+                  Revoke All
+                </button>
+              )}
+            </div>
+          </div>
+          {signatures.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">🔑</div>
+              <p className="text-muted-foreground">No stored signatures.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {signatures.map((sig) => (
+                <div
+                  key={sig.key}
+                  className={`border rounded-lg p-4 ${sig.valid ? "" : "opacity-60"}`}
+                >
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="text-sm space-y-1 min-w-0">
+                      <p>
+                        <span className="text-muted-foreground">Account: </span>
+                        <span className="font-mono text-xs">{sig.userAddress}</span>
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">Contracts: </span>
+                        <span className="font-mono text-xs break-all">{sig.contractAddresses.join(", ")}</span>
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">Signed: </span>
+                        {formatTimestamp(sig.startTimestamp)}
+                        <span className="text-muted-foreground"> · Expires: </span>
+                        {formatTimestamp(sig.expiresAt)}
+                        {!sig.valid && <span className="text-muted-foreground"> (expired)</span>}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => revokeSignature(sig.key)}
+                      className="text-xs px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground mt-4">
+            Revoking deletes the signature and its decryption key from this browser. Anyone who
+            copied them could still use them until they expire.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,9 +12,17 @@ export function Navigation() {
     { href: "/", label: "Home" },
     { href: "/dashboard", label: "Dashboard" },
     { href: "/ledger", label: "Ledger" },
+    { href: "/import", label: "Import" },
+    { href: "/approvals", label: "Approvals" },
     { href: "/departments", label: "Departments" },
+    { href: "/roles", label: "Roles" },
+    { href: "/projects", label: "Projects" },
     { href: "/calculations", label: "Calculations" },
+    { href: "/periods", label: "Periods" },
+    { href: "/accounts", label: "Accounts" },
     { href: "/audit", label: "Audit" },
+    { href: "/admin", label: "Admin" },
+    { href: "/settings", label: "Settings" },
   ];
 
   return (
@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import { Category, Department, getCategoryPath, Project, Record } from "@/hooks/useShadowLedger";
+
+type ExportFormat = "csv" | "json" | "pdf";
+
+// Who exported the file, when, and from where; written at the top of every format
+type ExportHeader = {
+  exportedBy: string;
+  exportedAt: string;
+  chainId: number | undefined;
+  chainName: string | undefined;
+  contractAddress: string | undefined;
+};
+
+type ExportRow = {
+  id: string;
+  type: string;
+  amount: string; // empty when the exporter has no ACL access to the amount
+  departmentId: string;
+  department: string;
+  projectId: string;
+  project: string;
+  category: string;
+  description: string;
+  timestamp: string;
+  creator: string;
+  kind: string;
+  correctsRecordId: string;
+  correctedByRecordId: string;
+  transferId: string;
+  approvalStatus: string;
+};
+
+const COLUMNS: { key: keyof ExportRow; label: string }[] = [
+  { key: "id", label: "Record ID" },
+  { key: "type", label: "Type" },
+  { key: "amount", label: "Amount" },
+  { key: "departmentId", label: "Department ID" },
+  { key: "department", label: "Department" },
+  { key: "projectId", label: "Project ID" },
+  { key: "project", label: "Project" },
+  { key: "category", label: "Category" },
+  { key: "description", label: "Description" },
+  { key: "timestamp", label: "Booked At" },
+  { key: "creator", label: "Creator" },
+  { key: "kind", label: "Entry Kind" },
+  { key: "correctsRecordId", label: "Corrects" },
+  { key: "correctedByRecordId", label: "Corrected By" },
+  { key: "transferId", label: "Transfer ID" },
+  { key: "approvalStatus", label: "Approval" },
+];
+
+const KIND_LABELS = ["Original", "Amendment", "Reversal"];
+const APPROVAL_LABELS = ["None", "Pending", "Approved", "Rejected"];
+
+const toExportRows = (
+  records: Record[],
+  amounts: Map<string, bigint>,
+  departments: Department[],
+  projects: Project[],
+  categories: Category[]
+): ExportRow[] =>
+  records.map((record) => {
+    const amount = record.amountDecrypted ?? amounts.get(record.amountHandle);
+    const idOrEmpty = (id: bigint) => (id === BigInt(0) ? "" : id.toString());
+    return {
+      id: record.id.toString(),
+      type: record.recordType === 0 ? "Income" : "Expense",
+      amount: amount === undefined ? "" : amount.toString(),
+      departmentId: record.departmentId.toString(),
+      department: departments.find((dept) => dept.id === record.departmentId)?.name ?? "",
+      projectId: idOrEmpty(record.projectId),
+      project: projects.find((project) => project.id === record.projectId)?.name ?? "",
+      category: record.categoryId === BigInt(0) ? "" : getCategoryPath(categories, record.categoryId),
+      description: record.description,
+      timestamp: new Date(Number(record.timestamp) * 1000).toISOString(),
+      creator: record.creator,
+      kind: KIND_LABELS[record.kind] ?? String(record.kind),
+      correctsRecordId: idOrEmpty(record.correctsRecordId),
+      correctedByRecordId: idOrEmpty(record.correctedByRecordId),
+      transferId: idOrEmpty(record.transferId),
+      approvalStatus: APPROVAL_LABELS[record.approvalStatus] ?? String(record.approvalStatus),
+    };
+  });
+
+const headerLines = (header: ExportHeader) => [
+  "ShadowLedger export",
+  `Exported by: ${header.exportedBy}`,
+  `Exported at: ${header.exportedAt}`,
+  `Chain: ${header.chainName ?? "unknown"} (${header.chainId ?? "?"})`,
+  `Contract: ${header.contractAddress ?? ""}`,
+];
+
+const csvCell = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// The header goes in "#" comment lines above the column names
+const toCsv = (header: ExportHeader, rows: ExportRow[]) =>
+  [
+    ...headerLines(header).map((line) => `# ${line}`),
+    COLUMNS.map(({ label }) => csvCell(label)).join(","),
+    ...rows.map((row) => COLUMNS.map(({ key }) => csvCell(row[key])).join(",")),
+  ].join("\r\n");
+
+const toJson = (header: ExportHeader, rows: ExportRow[]) =>
+  JSON.stringify({ ...header, recordCount: rows.length, records: rows }, null, 2);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const toPrintableHtml = (header: ExportHeader, rows: ExportRow[]) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>ShadowLedger export ${escapeHtml(header.exportedAt)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: sans-serif; font-size: 9pt; }
+  h1 { font-size: 14pt; margin: 0 0 4pt; }
+  p { margin: 0; color: #444; }
+  table { border-collapse: collapse; width: 100%; margin-top: 10pt; }
+  th, td { border: 1px solid #bbb; padding: 2pt 4pt; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  td.amount { text-align: right; font-family: monospace; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(headerLines(header)[0])}</h1>
+${headerLines(header).slice(1).map((line) => `<p>${escapeHtml(line)}</p>`).join("\n")}
+<p>${rows.length} records</p>
+<table>
+<thead><tr>${COLUMNS.map(({ label }) => `<th>${escapeHtml(label)}</th>`).join("")}</tr></thead>
+<tbody>
+${rows
+  .map(
+    (row) =>
+      `<tr>${COLUMNS.map(
+        ({ key }) => `<td${key === "amount" ? ' class="amount"' : ""}>${escapeHtml(row[key])}</td>`
+      ).join("")}</tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>
+</body>
+</html>`;
+
+const download = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Decrypts the given records' amounts in one batch and exports them. Amounts
+// the exporter has no ACL access to are left empty.
+export function RecordExport(props: {
+  records: Record[];
+  departments: Department[];
+  projects: Project[];
+  categories: Category[];
+  decryptAmounts: (handles: string[]) => Promise<Map<string, bigint> | undefined>;
+  onDecrypted?: (amounts: Map<string, bigint>) => void;
+  exportedBy: string | undefined;
+  chainId: number | undefined;
+  chainName: string | undefined;
+  contractAddress: string | undefined;
+}) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (props.records.length === 0 || !props.exportedBy) return;
+
+    // The print window has to be opened while the click is still being handled
+    const printWindow = format === "pdf" ? window.open("", "_blank") : null;
+    if (format === "pdf" && !printWindow) {
+      alert("Please allow pop-ups to print the report");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const handles = props.records
+        .filter((record) => record.amountDecrypted === undefined)
+        .map((record) => record.amountHandle);
+      const amounts = handles.length > 0 ? await props.decryptAmounts(handles) : new Map<string, bigint>();
+      if (!amounts) {
+        printWindow?.close();
+        return;
+      }
+      props.onDecrypted?.(amounts);
+
+      const exportedAt = new Date().toISOString();
+      const header: ExportHeader = {
+        exportedBy: props.exportedBy,
+        exportedAt,
+        chainId: props.chainId,
+        chainName: props.chainName,
+        contractAddress: props.contractAddress,
+      };
+      const rows = toExportRows(props.records, amounts, props.departments, props.projects, props.categories);
+      const fileName = `shadowledger-export-${exportedAt.replace(/[:.]/g, "-")}`;
+
+      if (format === "csv") {
+        download(toCsv(header, rows), `${fileName}.csv`, "text/csv;charset=utf-8");
+      } else if (format === "json") {
+        download(toJson(header, rows), `${fileName}.json`, "application/json");
+      } else if (printWindow) {
+        printWindow.document.write(toPrintableHtml(header, rows));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="input-field text-sm w-auto"
+      >
+        <option value="csv">CSV</option>
+        <option value="json">JSON</option>
+        <option value="pdf">PDF (print)</option>
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={isExporting || props.records.length === 0 || !props.exportedBy}
+        className="btn-secondary text-sm whitespace-nowrap"
+      >
+        {isExporting ? "⏳ Exporting..." : `⬇️ Export ${props.records.length}`}
+      </button>
+    </div>
+  );
+}
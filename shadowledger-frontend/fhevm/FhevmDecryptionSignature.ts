@@ -283,12 +283,12 @@ export class FhevmDecryptionSignature {
     contractAddresses: string[],
     publicKey: string,
     privateKey: string,
-    signer: ethers.Signer
+    signer: ethers.Signer,
+    durationDays: number = 365
   ): Promise<FhevmDecryptionSignature | null> {
     try {
       const userAddress = (await signer.getAddress()) as `0x${string}`;
       const startTimestamp = _timestampNow();
-      const durationDays = 365;
       const eip712 = instance.createEIP712(
         publicKey,
         contractAddresses,
@@ -320,7 +320,8 @@ export class FhevmDecryptionSignature {
     contractAddresses: string[],
     signer: ethers.Signer,
     storage: GenericStringStorage,
-    keyPair?: { publicKey: string; privateKey: string }
+    keyPair?: { publicKey: string; privateKey: string },
+    durationDays?: number
   ): Promise<FhevmDecryptionSignature | null> {
     const userAddress = (await signer.getAddress()) as `0x${string}`;
 
@@ -344,7 +345,8 @@ export class FhevmDecryptionSignature {
       contractAddresses,
       publicKey,
       privateKey,
-      signer
+      signer,
+      durationDays
     );
 
     if (!sig) {
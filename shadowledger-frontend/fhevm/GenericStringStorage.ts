@@ -18,3 +18,37 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
   }
 }
 
+
+// Survives reloads. Keys are namespaced by a prefix so the stored entries can
+// be listed; outside the browser it behaves as an empty store.
+export class GenericStringLocalStorage implements GenericStringStorage {
+  #prefix: string;
+
+  constructor(prefix: string) {
+    this.#prefix = prefix;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    if (typeof window === "undefined") return null;
+    return window.localStorage.getItem(this.#prefix + key);
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(this.#prefix + key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    if (typeof window === "undefined") return;
+    window.localStorage.removeItem(this.#prefix + key);
+  }
+  keys(): string[] {
+    if (typeof window === "undefined") return [];
+    const keys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key?.startsWith(this.#prefix)) {
+        keys.push(key.slice(this.#prefix.length));
+      }
+    }
+    return keys;
+  }
+}
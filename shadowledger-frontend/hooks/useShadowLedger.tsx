@@ -47,6 +47,11 @@ function getShadowLedgerByChainId(
 
 export type RecordType = 0 | 1; // 0 = Income, 1 = Expense
 
+export type EntryKind = 0 | 1 | 2; // 0 = Original, 1 = Amendment, 2 = Reversal
+
+// 0 = None (booked without an approval policy), 1 = Pending, 2 = Approved, 3 = Rejected
+export type ApprovalStatus = 0 | 1 | 2 | 3;
+
 export type Record = {
   id: bigint;
   recordType: RecordType;
@@ -54,9 +59,237 @@ export type Record = {
   amountDecrypted?: bigint;
   departmentId: bigint;
   projectId: bigint;
+  categoryId: bigint;
   description: string;
   timestamp: bigint;
   creator: string;
+  kind: EntryKind;
+  correctsRecordId: bigint;
+  correctedByRecordId: bigint;
+  transferId: bigint; // 0 unless the record is one leg of an inter-department transfer
+  approvalStatus: ApprovalStatus;
+  approvalRequiredHandle: string; // encrypted: whether the amount crossed the approval threshold
+  approvalCount: bigint;
+};
+
+// Which on-chain record index a ledger page is read from
+export type RecordScope =
+  | { kind: "department"; departmentId: bigint }
+  | { kind: "project"; projectId: bigint }
+  | { kind: "creator"; creator: string }
+  // The whole ledger as an auditor sees it; pages may come back short
+  | { kind: "audit" };
+
+export type RecordPage = {
+  records: Record[];
+  total: bigint;
+};
+
+// Records per getRecords call, and how many of those calls run at once
+const RECORD_BATCH_SIZE = 50;
+const PARALLEL_RECORD_BATCHES = 4;
+
+export type RecordsProgress = {
+  loaded: number;
+  total: number;
+};
+
+// One getRecords entry as ethers decodes it: integers as bigint, handles as hex strings
+type RecordView = {
+  record: {
+    id: bigint;
+    recordType: bigint;
+    amount: string;
+    departmentId: bigint;
+    projectId: bigint;
+    categoryId: bigint;
+    description: string;
+    timestamp: bigint;
+    creator: string;
+    kind: bigint;
+    correctsRecordId: bigint;
+    correctedByRecordId: bigint;
+    transferId: bigint;
+  };
+  approvalStatus: bigint;
+  approvalRequired: string;
+  approvalCount: bigint;
+};
+
+const toRecord = (view: RecordView): Record => {
+  const record = view.record;
+  return {
+    id: BigInt(record.id),
+    recordType: Number(record.recordType) as RecordType,
+    amountHandle: record.amount,
+    departmentId: BigInt(record.departmentId),
+    projectId: BigInt(record.projectId),
+    categoryId: BigInt(record.categoryId),
+    description: record.description,
+    timestamp: BigInt(record.timestamp),
+    creator: record.creator,
+    kind: Number(record.kind) as EntryKind,
+    correctsRecordId: BigInt(record.correctsRecordId),
+    correctedByRecordId: BigInt(record.correctedByRecordId),
+    transferId: BigInt(record.transferId),
+    approvalStatus: Number(view.approvalStatus) as ApprovalStatus,
+    approvalRequiredHandle: view.approvalRequired,
+    approvalCount: BigInt(view.approvalCount),
+  };
+};
+
+// Reads records through the getRecords batch view, a few chunks at a time.
+// Records the caller may not see are left out by the contract.
+const fetchRecords = async (
+  contract: ethers.Contract,
+  recordIds: bigint[],
+  onProgress?: (progress: RecordsProgress) => void
+): Promise<Record[]> => {
+  const chunks: bigint[][] = [];
+  for (let i = 0; i < recordIds.length; i += RECORD_BATCH_SIZE) {
+    chunks.push(recordIds.slice(i, i + RECORD_BATCH_SIZE));
+  }
+
+  const results: Record[][] = new Array(chunks.length);
+  let loaded = 0;
+  onProgress?.({ loaded, total: recordIds.length });
+
+  for (let i = 0; i < chunks.length; i += PARALLEL_RECORD_BATCHES) {
+    await Promise.all(
+      chunks.slice(i, i + PARALLEL_RECORD_BATCHES).map(async (chunk, offset) => {
+        const views: RecordView[] = await contract.getRecords(chunk);
+        results[i + offset] = views.map(toRecord);
+        loaded += chunk.length;
+        onProgress?.({ loaded, total: recordIds.length });
+      })
+    );
+  }
+
+  return results.flat();
+};
+
+// userDecrypt accepts at most 2048 encrypted bits per request, i.e. sixteen
+// euint128 amounts
+const DECRYPT_BATCH_SIZE = 16;
+
+// How both the relayer SDK and the mock reject a request naming a handle the
+// user or the contract has no ACL entry for
+const isAccessDenied = (error: unknown): boolean =>
+  (error instanceof Error ? error.message : String(error)).includes(
+    "not authorized to user decrypt"
+  );
+
+export type DecryptProgress = {
+  done: number; // handles attempted so far, whether or not they decrypted
+  total: number;
+};
+
+// One line of a batch booking, as passed to createRecordsBatch
+export type RecordInput = {
+  recordType: RecordType;
+  amount: bigint;
+  departmentId: bigint;
+  projectId: bigint;
+  categoryId: bigint;
+  description: string;
+};
+
+// Outcome of one batch line: the new record id, or why it failed. Neither is
+// set when the run was cancelled before its chunk was submitted.
+export type RecordInputResult = {
+  recordId?: bigint;
+  error?: string;
+};
+
+export type RecordBatchProgress = {
+  chunk: number; // 1-based chunk being encrypted or submitted
+  chunks: number;
+  submitted: number; // lines whose chunk has been mined
+  total: number;
+};
+
+// An encrypted input holds at most 2048 bits, i.e. sixteen 128-bit amounts,
+// so each createRecords transaction books up to this many lines
+const RECORDS_PER_BATCH = 16;
+
+// The revert reason of a failed call when there is one, else its message
+const describeError = (error: unknown): string => {
+  const reason = (error as { reason?: unknown } | undefined)?.reason;
+  if (typeof reason === "string" && reason) {
+    return reason;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Sends the settlement of a pending expense if the public decryption of its
+// threshold result shows it stayed under the threshold. Expenses above it
+// are left for review and get no transaction.
+const sendSettlement = async (
+  instance: FhevmInstance,
+  contract: ethers.Contract,
+  recordId: bigint
+): Promise<ethers.TransactionResponse | undefined> => {
+  const [, required] = await contract.getRecordApproval(recordId);
+  const decrypted = await instance.publicDecrypt([required]);
+  if (Object.values(decrypted.clearValues)[0] !== false) {
+    return undefined;
+  }
+
+  return contract.settleApproval(recordId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+};
+
+// Settles the expenses a booking submitted for approval, reading them from
+// its RecordSubmitted events. Any that fail stay pending and can be settled
+// from the approvals page.
+const settleSubmitted = async (
+  instance: FhevmInstance,
+  contract: ethers.Contract,
+  receipt: ethers.TransactionReceipt | null
+): Promise<number> => {
+  const recordIds = (receipt?.logs ?? [])
+    .map((log) => contract.interface.parseLog(log))
+    .filter((parsed) => parsed?.name === "RecordSubmitted")
+    .map((parsed) => BigInt(parsed!.args.recordId));
+
+  let settled = 0;
+  for (const recordId of recordIds) {
+    try {
+      const tx = await sendSettlement(instance, contract, recordId);
+      if (tx) {
+        await tx.wait();
+        settled++;
+      }
+    } catch (error) {
+      console.warn(`[useShadowLedger] could not settle record ${recordId}`, error);
+    }
+  }
+  return settled;
+};
+
+export type Project = {
+  id: bigint;
+  name: string;
+  departmentId: bigint;
+  manager: string;
+  archived: boolean;
+  createdAt: bigint;
+};
+
+export type Category = {
+  id: bigint;
+  name: string;
+  parentId: bigint;
+  recordType: RecordType;
+};
+
+// Full path of a category in the chart of accounts, e.g. "Travel > Flights"
+export const getCategoryPath = (categories: Category[], categoryId: bigint) => {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const names: string[] = [];
+  for (let c = byId.get(categoryId); c; c = byId.get(c.parentId)) {
+    names.unshift(c.name);
+  }
+  return names.join(" > ");
 };
 
 export type Department = {
@@ -65,11 +298,296 @@ export type Department = {
   members: string[];
   admin: string;
   createdAt: bigint;
+  archived: boolean; // archived departments take no new records but stay in reports
+  pendingAdmin: string; // nominee of an admin handover; ZeroAddress when none
+  roleHolders: RoleAssignment[];
 };
 
+// Department roles are bit flags, as in the contract
+export const ROLE_BOOKKEEPER = 1;
+export const ROLE_VIEWER = 2;
+export const ROLE_FINANCE_CONTROLLER = 4;
+
+export const DEPARTMENT_ROLES = [
+  { flag: ROLE_BOOKKEEPER, label: "Bookkeeper", description: "Books and corrects records" },
+  { flag: ROLE_VIEWER, label: "Viewer", description: "Reads records and decrypts department totals" },
+  {
+    flag: ROLE_FINANCE_CONTROLLER,
+    label: "Finance Controller",
+    description: "Runs calculations, combining departments where it holds this role in each",
+  },
+];
+
+// Roles assigned to an account in a department; accounts need not be members
+export type RoleAssignment = {
+  account: string;
+  roles: number;
+};
+
+// The roles an account actually holds. Like the contract, the department
+// admin and members with no roles assigned are bookkeepers and viewers.
+export const getEffectiveRoles = (department: Department, account: string | undefined) => {
+  if (!account) {
+    return 0;
+  }
+  const lower = account.toLowerCase();
+  let roles = department.roleHolders.find((holder) => holder.account.toLowerCase() === lower)?.roles ?? 0;
+  const isAdmin = department.admin.toLowerCase() === lower;
+  const isMember = isAdmin || department.members.some((member) => member.toLowerCase() === lower);
+  if (isAdmin || (roles === 0 && isMember)) {
+    roles |= ROLE_BOOKKEEPER | ROLE_VIEWER;
+  }
+  return roles;
+};
+
+// Outcome of adding or removing one member; error is already user-facing
+export type MemberChangeResult = {
+  member: string;
+  ok: boolean;
+  error?: string;
+};
+
+// Reverts a department admin can run into, in words they can act on
+const MEMBER_ERRORS: [string, string][] = [
+  ["ShadowLedger: already member", "Already a member of this department"],
+  ["ShadowLedger: not a member", "Not a member of this department"],
+  ["ShadowLedger: cannot remove admin", "The department admin cannot be removed"],
+  ["ShadowLedger: invalid member", "Not a valid member address"],
+  ["ShadowLedger: only department admin", "Only the department admin can manage members"],
+];
+
+const describeMemberError = (error: unknown) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const known = MEMBER_ERRORS.find(([reason]) => errorMessage.includes(reason));
+  return known ? known[1] : errorMessage;
+};
+
+export type Budget = {
+  departmentId: bigint;
+  projectId: bigint;
+  amountHandle: string;
+  spentHandle: string;
+  remainingHandle: string;
+  overBudgetHandle: string;
+  evaluatedAt: bigint;
+};
+
+export type ApprovalPolicy = {
+  departmentId: bigint;
+  thresholdHandle: string;
+  requiredApprovals: bigint;
+  approvers: string[];
+};
+
+// An auditor's access to the records some departments booked between
+// fromTimestamp and toTimestamp, until expiresAt
+export type AuditEngagement = {
+  id: bigint;
+  auditor: string;
+  departmentIds: bigint[];
+  fromTimestamp: bigint;
+  toTimestamp: bigint;
+  expiresAt: bigint;
+  revoked: boolean;
+  createdAt: bigint;
+  active: boolean; // not expired or revoked, and the auditor is still registered
+};
+
+// What the audit relayer decrypts for engagement auditors; see
+// fhevm-hardhat-template/tasks/AuditRelayer.ts for the protocol
+export type AuditRelayItem =
+  | { kind: "record"; recordId: string }
+  | { kind: "calculation"; calculationId: string }
+  | { kind: "budget"; departmentId: string; projectId: string };
+
+// Decimal amounts and "true"/"false" flags by name, or why it was refused
+export type AuditRelayResult = { values: { [name: string]: string } } | { error: string };
+
+// Where task:audit-relayer listens
+const AUDIT_RELAYER_URL = process.env.NEXT_PUBLIC_AUDIT_RELAYER_URL ?? "http://localhost:8787";
+
+const RELAY_ECDH = { name: "ECDH", namedCurve: "P-256" };
+
+// WebCrypto takes buffers it owns, not views that may share memory
+const relayBytes = (data: ethers.BytesLike) => new Uint8Array(ethers.getBytes(data));
+
+// The relayer seals its answer to a key made for the request: ECDH with its
+// ephemeral key, HKDF-SHA256, then AES-256-GCM
+const openRelayResponse = async (
+  privateKey: CryptoKey,
+  response: { publicKey: string; iv: string; ciphertext: string }
+): Promise<AuditRelayResult[]> => {
+  const peer = await crypto.subtle.importKey("raw", relayBytes(response.publicKey), RELAY_ECDH, false, []);
+  const shared = await crypto.subtle.deriveBits({ name: "ECDH", public: peer }, privateKey, 256);
+  const material = await crypto.subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"]);
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: relayBytes(ethers.toUtf8Bytes("ShadowLedger audit relayer")),
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["decrypt"]
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: relayBytes(response.iv) },
+    key,
+    relayBytes(response.ciphertext)
+  );
+  return JSON.parse(ethers.toUtf8String(new Uint8Array(plaintext)));
+};
+
+// Auditors may aggregate the departments of their live engagements, over the
+// part of a period inside the engagement window; everyone else needs the viewer or
+// finance controller role, and combining several departments needs a rollup
+// grant from the system admin or the finance controller role in each
+export type CalculationAccess = {
+  isAuditor: boolean;
+  hasRollupAccess: boolean;
+  auditedDepartmentIds: bigint[];
+};
+
+// An auditor's totals over the departments of their engagements are granted
+// to the audit relayer, which decrypts them instead
+export const isRelayedCalculation = (departmentIds: bigint[], access: CalculationAccess | undefined) =>
+  access !== undefined &&
+  access.isAuditor &&
+  departmentIds.length > 0 &&
+  departmentIds.every((id) => access.auditedDepartmentIds.includes(id));
+
+// Departments the account may include in a calculation
+export const getCalculableDepartments = (
+  departments: Department[],
+  account: string | undefined,
+  access: CalculationAccess | undefined
+) =>
+  departments.filter(
+    (dept) =>
+      (getEffectiveRoles(dept, account) & (ROLE_VIEWER | ROLE_FINANCE_CONTROLLER)) !== 0 ||
+      (access?.auditedDepartmentIds ?? []).includes(dept.id)
+  );
+
+// Whether the account may combine these departments in one calculation
+export const canCombineDepartments = (
+  departments: Department[],
+  account: string | undefined,
+  access: CalculationAccess | undefined
+) =>
+  departments.length <= 1 ||
+  Boolean(access?.auditedDepartmentIds.length || access?.hasRollupAccess) ||
+  departments.every((dept) => (getEffectiveRoles(dept, account) & ROLE_FINANCE_CONTROLLER) !== 0);
+
+export type CalculationType = 0 | 1 | 2; // 0 = Total Income, 1 = Total Expense, 2 = Net Income
+
+// A calculation stored on-chain together with the parameters it ran with
+export type SavedCalculation = {
+  id: bigint;
+  calculationType: CalculationType;
+  resultHandle: string;
+  nonNegativeHandle: string; // net income only: encrypted "not a loss" flag
+  departmentIds: bigint[];
+  projectId: bigint;
+  categoryId: bigint;
+  fromTimestamp: bigint;
+  toTimestamp: bigint;
+  eliminateTransfers: boolean;
+  requester: string;
+  timestamp: bigint;
+};
+
+// Result handles of a calculation transaction, read from its CalculationPerformed event
+export const getCalculationResult = (
+  receipt: ethers.TransactionReceipt,
+  contractInterface: ethers.Interface
+) => {
+  for (const log of receipt.logs) {
+    const parsed = contractInterface.parseLog(log);
+    if (parsed?.name === "CalculationPerformed") {
+      return {
+        calculationId: BigInt(parsed.args.calculationId),
+        resultHandle: parsed.args.result as string,
+        nonNegativeHandle: parsed.args.nonNegative as string,
+      };
+    }
+  }
+  return undefined;
+};
+
+export type FiscalPeriod = {
+  id: bigint;
+  startTimestamp: bigint;
+  endTimestamp: bigint;
+  closed: boolean;
+  closedAt: bigint;
+  closeCount: bigint;
+  reopenReason: string;
+};
+
+export type PeriodSnapshot = {
+  periodId: bigint;
+  closeNumber: bigint;
+  departmentId: bigint;
+  incomeHandle: string;
+  expenseHandle: string;
+};
+
+// System admin and multi-admin governance settings; a threshold of 0 means
+// multi-admin mode is off and the system admin acts alone
+export type Governance = {
+  systemAdmin: string;
+  pendingSystemAdmin: string; // ZeroAddress when none
+  admins: string[];
+  threshold: bigint;
+  epoch: bigint;
+};
+
+// A sensitive admin call collecting confirmations. Confirmations from an
+// earlier epoch lapse when the admin set changes.
+export type AdminAction = {
+  id: bigint;
+  data: string;
+  call: string; // decoded call, e.g. addAuditor(0x...)
+  proposer: string;
+  confirmations: bigint;
+  confirmedBy: string[];
+  epoch: bigint;
+  createdAt: bigint;
+  executed: boolean;
+  lapsed: boolean;
+};
+
+// In multi-admin mode a sensitive call that does not reach the threshold only
+// records a confirmation. Returns it, or undefined if the call ran.
+export const getPendingAdminConfirmation = (
+  receipt: ethers.TransactionReceipt | null,
+  contractInterface: ethers.Interface
+) => {
+  let pending: { actionId: bigint; confirmations: bigint } | undefined;
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contractInterface.parseLog(log);
+    if (parsed?.name === "AdminActionExecuted") {
+      return undefined;
+    }
+    if (parsed?.name === "AdminActionConfirmed") {
+      pending = {
+        actionId: BigInt(parsed.args.actionId),
+        confirmations: BigInt(parsed.args.confirmations),
+      };
+    }
+  }
+  return pending;
+};
+
+export const describeAdminConfirmation = (pending: { actionId: bigint; confirmations: bigint }) =>
+  `Confirmation ${pending.confirmations} recorded for admin action #${pending.actionId}; waiting for the other admins.`;
+
 export const useShadowLedger = (parameters: {
   instance: FhevmInstance | undefined;
   fhevmDecryptionSignatureStorage: GenericStringStorage;
+  signatureDurationDays?: number; // lifetime of newly signed decryption signatures
   eip1193Provider: ethers.Eip1193Provider | undefined;
   chainId: number | undefined;
   ethersSigner: ethers.JsonRpcSigner | undefined;
@@ -82,6 +600,7 @@ export const useShadowLedger = (parameters: {
   const {
     instance,
     fhevmDecryptionSignatureStorage,
+    signatureDurationDays,
     chainId,
     ethersSigner,
     ethersReadonlyProvider,
@@ -89,14 +608,23 @@ export const useShadowLedger = (parameters: {
     sameSigner,
   } = parameters;
 
-  const [records, setRecords] = useState<Record[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [fiscalPeriods, setFiscalPeriods] = useState<FiscalPeriod[]>([]);
+  const [recordsProgress, setRecordsProgress] = useState<RecordsProgress | undefined>(undefined);
+  const [batchProgress, setBatchProgress] = useState<RecordBatchProgress | undefined>(undefined);
+  const [decryptProgress, setDecryptProgress] = useState<DecryptProgress | undefined>(undefined);
+  const [calculations, setCalculations] = useState<SavedCalculation[]>([]);
+  const [governance, setGovernance] = useState<Governance | undefined>(undefined);
+  const [adminActions, setAdminActions] = useState<AdminAction[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Reads only; writes are gated on isLoading alone
+  const [isLoadingDepartments, setIsLoadingDepartments] = useState<boolean>(false);
   const [message, setMessage] = useState<string>("");
 
   const shadowLedgerRef = useRef<ShadowLedgerInfoType | undefined>(undefined);
   const isLoadingRef = useRef<boolean>(false);
-  const isLoadingRecordsRef = useRef<boolean>(false);
   const isLoadingDepartmentsRef = useRef<boolean>(false);
 
   const shadowLedger = useMemo(() => {
@@ -130,6 +658,7 @@ export const useShadowLedger = (parameters: {
       amount: bigint,
       departmentId: bigint,
       projectId: bigint,
+      categoryId: bigint,
       description: string
     ) => {
       if (isLoadingRef.current || !shadowLedger.address || !instance || !ethersSigner) {
@@ -178,6 +707,7 @@ export const useShadowLedger = (parameters: {
             enc.inputProof,
             departmentId,
             projectId,
+            categoryId,
             description
           );
 
@@ -187,17 +717,17 @@ export const useShadowLedger = (parameters: {
 
           setMessage(`Record created! Status: ${receipt?.status}`);
 
+          if (!isStale() && (await settleSubmitted(instance, contract, receipt)) > 0) {
+            setMessage("Record created and approved under the approval threshold!");
+          }
+
           if (isStale()) {
             setMessage("Operation cancelled");
             return;
           }
 
-          // Reset loading state before refreshing
           isLoadingRef.current = false;
           setIsLoading(false);
-          
-          // Refresh records list (skip loading check since we just reset it)
-          await refreshRecords(true);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           setMessage(`Failed to create record: ${errorMessage}`);
@@ -206,7 +736,7 @@ export const useShadowLedger = (parameters: {
         }
       };
 
-      run();
+      await run();
     },
     [
       ethersSigner,
@@ -219,98 +749,190 @@ export const useShadowLedger = (parameters: {
     ]
   );
 
-  const refreshRecords = useCallback(async (skipLoadingCheck = false) => {
-    const currentAddress = shadowLedgerRef.current?.address;
-    if (!currentAddress || !ethersReadonlyProvider) {
-      return;
-    }
-    
-    // Don't start a new refresh if one is already in progress (unless explicitly skipped)
-    if (!skipLoadingCheck && isLoadingRecordsRef.current) {
-      console.log('[useShadowLedger] refreshRecords: already loading, skipping');
-      return;
-    }
-    
-    console.log('[useShadowLedger] refreshRecords: starting refresh');
+  // Books many records with one encrypted input and one transaction per chunk.
+  // Failures are reported on the lines that caused them, and the remaining
+  // lines and chunks still run.
+  const createRecordsBatch = useCallback(
+    async (entries: RecordInput[]): Promise<RecordInputResult[]> => {
+      if (
+        isLoadingRef.current ||
+        !shadowLedger.address ||
+        !instance ||
+        !ethersSigner ||
+        entries.length === 0
+      ) {
+        return [];
+      }
 
-    const thisChainId = chainId;
-    const thisShadowLedgerAddress = currentAddress;
-    const currentShadowLedger = shadowLedgerRef.current;
-    
-    // Double check after async check
-    if (!currentShadowLedger || thisShadowLedgerAddress !== currentShadowLedger.address) {
-      return;
-    }
-    
-    const thisAbi = currentShadowLedger.abi;
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      const isStale = () =>
+        thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisEthersSigner);
 
-    isLoadingRecordsRef.current = true;
-    // Update global loading state if not already loading
-    if (!isLoadingDepartmentsRef.current) {
       isLoadingRef.current = true;
       setIsLoading(true);
-    }
 
-    try {
       const contract = new ethers.Contract(
         thisShadowLedgerAddress,
-        thisAbi,
-        ethersReadonlyProvider
+        shadowLedger.abi,
+        thisEthersSigner
       );
+      const chunks = Math.ceil(entries.length / RECORDS_PER_BATCH);
+      const results: RecordInputResult[] = entries.map(() => ({}));
+      let submitted = 0;
+
+      // Books the given lines in one transaction. If it fails, each line is
+      // simulated on its own so the lines at fault get their own error, and
+      // the others are booked again without them.
+      const submitLines = async (indexes: number[], label: string): Promise<void> => {
+        try {
+          setMessage(`Encrypting ${label}...`);
+          const input = instance.createEncryptedInput(
+            thisShadowLedgerAddress,
+            thisEthersSigner.address
+          );
+          for (const index of indexes) {
+            input.add128(entries[index].amount);
+          }
+          const enc = await input.encrypt();
+
+          if (isStale()) {
+            return;
+          }
 
-      const recordCount = await contract.getRecordCount();
+          const lines = indexes.map((index) => ({
+            recordType: entries[index].recordType,
+            departmentId: entries[index].departmentId,
+            projectId: entries[index].projectId,
+            categoryId: entries[index].categoryId,
+            description: entries[index].description,
+          }));
+
+          let failed: number[] = [];
+          try {
+            setMessage(`Submitting ${label}...`);
+            const tx: ethers.TransactionResponse = await contract.createRecords(
+              lines,
+              enc.handles,
+              enc.inputProof
+            );
 
-      const recordsList: Record[] = [];
-      for (let i = BigInt(1); i <= recordCount; i++) {
-        try {
-          const recordData = await contract.getRecord(i);
-          recordsList.push({
-            id: BigInt(i),
-            recordType: Number(recordData[1]) as RecordType,
-            amountHandle: recordData[2],
-            departmentId: BigInt(recordData[3]),
-            projectId: BigInt(recordData[4]),
-            description: recordData[5],
-            timestamp: BigInt(recordData[6]),
-            creator: recordData[7],
+            setMessage(`Waiting for tx: ${tx.hash}...`);
+            const receipt = await tx.wait();
+            setMessage(`Settling expenses of ${label} under the approval threshold...`);
+            await settleSubmitted(instance, contract, receipt);
+
+            // RecordCreated is emitted once per line, in batch order
+            const recordIds = (receipt?.logs ?? [])
+              .map((log) => contract.interface.parseLog(log))
+              .filter((parsed) => parsed?.name === "RecordCreated")
+              .map((parsed) => BigInt(parsed!.args.recordId));
+            indexes.forEach((index, i) => {
+              results[index] = { recordId: recordIds[i] };
+            });
+            return;
+          } catch (error) {
+            if (indexes.length > 1 && !isStale()) {
+              setMessage(`Checking the lines of ${label}...`);
+              for (let i = 0; i < indexes.length; i++) {
+                try {
+                  await contract.createRecords.staticCall([lines[i]], [enc.handles[i]], enc.inputProof);
+                } catch (lineError) {
+                  failed.push(indexes[i]);
+                  results[indexes[i]] = { error: describeError(lineError) };
+                }
+              }
+            }
+            // Nothing to single out, e.g. a rejected signature: the lines share the error
+            if (failed.length === 0) {
+              failed = indexes;
+              indexes.forEach((index) => {
+                results[index] = { error: describeError(error) };
+              });
+            }
+          }
+
+          const remaining = indexes.filter((index) => !failed.includes(index));
+          if (remaining.length > 0) {
+            await submitLines(remaining, `${label} without its failed lines`);
+          }
+        } catch (error) {
+          indexes.forEach((index) => {
+            results[index] = { error: describeError(error) };
           });
-        } catch {
-          // Skip records we can't access
         }
-      }
+      };
 
-      if (sameChain.current(thisChainId) && thisShadowLedgerAddress === shadowLedgerRef.current?.address) {
-        setRecords(recordsList);
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      setMessage(`Failed to refresh records: ${errorMessage}`);
-    } finally {
-      isLoadingRecordsRef.current = false;
-      // Update global loading state only if departments are also not loading
-      if (!isLoadingDepartmentsRef.current) {
+      try {
+        for (let chunk = 0; chunk < chunks; chunk++) {
+          const start = chunk * RECORDS_PER_BATCH;
+          const lines = entries.slice(start, start + RECORDS_PER_BATCH);
+          setBatchProgress({ chunk: chunk + 1, chunks, submitted, total: entries.length });
+
+          await submitLines(
+            lines.map((_, i) => start + i),
+            `chunk ${chunk + 1} of ${chunks}`
+          );
+          if (isStale()) {
+            break;
+          }
+
+          submitted += lines.length;
+          setBatchProgress({ chunk: chunk + 1, chunks, submitted, total: entries.length });
+        }
+
+        // Lines of failed chunks and of chunks never submitted have no record id
+        const created = results.filter((result) => result.recordId !== undefined).length;
+        if (isStale()) {
+          setMessage(`Operation cancelled after creating ${created} of ${entries.length} records`);
+          return results;
+        }
+
+        setMessage(
+          created === entries.length
+            ? `Created ${entries.length} records`
+            : `Created ${created} of ${entries.length} records`
+        );
+        return results;
+      } finally {
         isLoadingRef.current = false;
         setIsLoading(false);
+        setBatchProgress(undefined);
       }
-    }
-  }, [ethersReadonlyProvider, chainId, sameChain]);
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
 
-  const decryptAmount = useCallback(
-    async (handle: string) => {
-      if (!shadowLedger.address || !instance || !ethersSigner || !handle) {
+  const transfer = useCallback(
+    async (
+      fromDepartmentId: bigint,
+      toDepartmentId: bigint,
+      amount: bigint,
+      description: string
+    ) => {
+      if (isLoadingRef.current || !shadowLedger.address || !instance || !ethersSigner) {
         return;
       }
 
-      if (handle === ethers.ZeroHash) {
-        return BigInt(0);
-      }
-
       const thisChainId = chainId;
       const thisShadowLedgerAddress = shadowLedger.address;
-      const thisHandle = handle;
       const thisEthersSigner = ethersSigner;
 
-      setMessage("Decrypting amount...");
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Encrypting transfer amount...");
 
       const run = async () => {
         const isStale = () =>
@@ -319,45 +941,330 @@ export const useShadowLedger = (parameters: {
           !sameSigner.current(thisEthersSigner);
 
         try {
-          // Always create a new signature, don't use cache
-          const { publicKey, privateKey } = instance.generateKeypair();
-          const sig: FhevmDecryptionSignature | null =
-            await FhevmDecryptionSignature.new(
-              instance,
-              [thisShadowLedgerAddress],
-              publicKey,
-              privateKey,
-              thisEthersSigner
-            );
+          const input = instance.createEncryptedInput(
+            thisShadowLedgerAddress,
+            thisEthersSigner.address
+          );
+          input.add128(Number(amount));
 
-          if (!sig) {
-            setMessage("Unable to build FHEVM decryption signature");
-            return;
-          }
+          const enc = await input.encrypt();
 
           if (isStale()) {
             setMessage("Operation cancelled");
             return;
           }
 
-          const res = await instance.userDecrypt(
-            [{ handle: thisHandle, contractAddress: thisShadowLedgerAddress }],
-            sig.privateKey,
-            sig.publicKey,
-            sig.signature,
-            sig.contractAddresses,
-            sig.userAddress,
-            sig.startTimestamp,
-            sig.durationDays
+          setMessage("Submitting transaction...");
+
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
           );
 
-          if (isStale()) {
-            setMessage("Operation cancelled");
+          const tx: ethers.TransactionResponse = await contract.transfer(
+            fromDepartmentId,
+            toDepartmentId,
+            enc.handles[0],
+            enc.inputProof,
+            description
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          setMessage(`Transfer booked! Status: ${receipt?.status}`);
+
+          if (!isStale() && (await settleSubmitted(instance, contract, receipt)) > 0) {
+            setMessage("Transfer booked and approved under the approval threshold!");
+          }
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to book transfer: ${errorMessage}`);
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      await run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  const amendRecord = useCallback(
+    async (recordId: bigint, amount: bigint, description: string) => {
+      if (isLoadingRef.current || !shadowLedger.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Encrypting corrected amount...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const input = instance.createEncryptedInput(
+            thisShadowLedgerAddress,
+            thisEthersSigner.address
+          );
+          input.add128(Number(amount));
+
+          const enc = await input.encrypt();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          setMessage("Submitting transaction...");
+
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx: ethers.TransactionResponse = await contract.amendRecord(
+            recordId,
+            enc.handles[0],
+            enc.inputProof,
+            description
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          setMessage(`Record amended! Status: ${receipt?.status}`);
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to amend record: ${errorMessage}`);
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      await run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  const reverseRecord = useCallback(
+    async (recordId: bigint, description: string) => {
+      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Reversing record...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx: ethers.TransactionResponse = await contract.reverseRecord(
+            recordId,
+            description
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          setMessage(`Record reversed! Status: ${receipt?.status}`);
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to reverse record: ${errorMessage}`);
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      await run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  // One page of record ids from an on-chain index, resolved to records
+  const loadRecordPage = useCallback(
+    async (scope: RecordScope, offset: number, limit: number): Promise<RecordPage | undefined> => {
+      if (!shadowLedger.address || !ethersSigner) {
+        return undefined;
+      }
+
+      try {
+        // Index and record reads are restricted by msg.sender, so they go through the signer
+        const contract = new ethers.Contract(
+          shadowLedger.address,
+          shadowLedger.abi,
+          ethersSigner
+        );
+
+        let total: bigint;
+        let recordIds: bigint[];
+        if (scope.kind === "department") {
+          [total, recordIds] = await Promise.all([
+            contract.getDepartmentRecordCount(scope.departmentId),
+            contract.getDepartmentRecords(scope.departmentId, offset, limit),
+          ]);
+        } else if (scope.kind === "project") {
+          [total, recordIds] = await Promise.all([
+            contract.getProjectRecordCount(scope.projectId),
+            contract.getProjectRecords(scope.projectId, offset, limit),
+          ]);
+        } else if (scope.kind === "creator") {
+          [total, recordIds] = await Promise.all([
+            contract.getCreatorRecordCount(scope.creator),
+            contract.getCreatorRecords(scope.creator, offset, limit),
+          ]);
+        } else {
+          [total, recordIds] = await Promise.all([
+            contract.getRecordCount(),
+            contract.getAllRecords(offset, limit),
+          ]);
+        }
+
+        const pageRecords = await fetchRecords(contract, [...recordIds], setRecordsProgress);
+        return { records: pageRecords, total: BigInt(total) };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Failed to load records: ${errorMessage}`);
+        return undefined;
+      } finally {
+        setRecordsProgress(undefined);
+      }
+    },
+    [ethersSigner, shadowLedger.address, shadowLedger.abi]
+  );
+
+  const decryptHandle = useCallback(
+    async (handle: string): Promise<bigint | boolean | undefined> => {
+      if (!shadowLedger.address || !instance || !ethersSigner || !handle) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisHandle = handle;
+      const thisEthersSigner = ethersSigner;
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          // Reuses a stored signature until it expires, otherwise signs a new one
+          const sig: FhevmDecryptionSignature | null =
+            await FhevmDecryptionSignature.loadOrSign(
+              instance,
+              [thisShadowLedgerAddress],
+              thisEthersSigner,
+              fhevmDecryptionSignatureStorage,
+              undefined,
+              signatureDurationDays
+            );
+
+          if (!sig) {
+            setMessage("Unable to build FHEVM decryption signature");
+            return;
+          }
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          const res = await instance.userDecrypt(
+            [{ handle: thisHandle, contractAddress: thisShadowLedgerAddress }],
+            sig.privateKey,
+            sig.publicKey,
+            sig.signature,
+            sig.contractAddresses,
+            sig.userAddress,
+            sig.startTimestamp,
+            sig.durationDays
+          );
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
             return;
           }
 
           const result = (res as UserDecryptResults)[thisHandle];
-          if (typeof result === "bigint") {
+          if (typeof result === "bigint" || typeof result === "boolean") {
             return result;
           }
           return undefined;
@@ -377,12 +1284,816 @@ export const useShadowLedger = (parameters: {
       chainId,
       sameChain,
       sameSigner,
+      fhevmDecryptionSignatureStorage,
+      signatureDurationDays,
     ]
   );
 
-  const createDepartment = useCallback(
-    async (name: string, admin: string) => {
-      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+  const decryptAmount = useCallback(
+    async (handle: string) => {
+      if (handle === ethers.ZeroHash) {
+        return BigInt(0);
+      }
+
+      setMessage("Decrypting amount...");
+
+      const result = await decryptHandle(handle);
+      return typeof result === "bigint" ? result : undefined;
+    },
+    [decryptHandle]
+  );
+
+  const decryptFlag = useCallback(
+    async (handle: string) => {
+      if (handle === ethers.ZeroHash) {
+        return false;
+      }
+
+      setMessage("Decrypting flag...");
+
+      const result = await decryptHandle(handle);
+      return typeof result === "boolean" ? result : undefined;
+    },
+    [decryptHandle]
+  );
+
+  // Decrypts many amounts under one signature. A request fails as a whole if
+  // the user lacks ACL access to any handle in it, so chunks denied access are
+  // split until the inaccessible handles are isolated; those are left out.
+  // Any other failure ends the whole run.
+  const decryptAmounts = useCallback(
+    async (handles: string[]): Promise<Map<string, bigint> | undefined> => {
+      if (!shadowLedger.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      const isStale = () =>
+        thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisEthersSigner);
+
+      const amounts = new Map<string, bigint>();
+      const pending: string[] = [];
+      for (const handle of Array.from(new Set(handles))) {
+        if (handle === ethers.ZeroHash) {
+          amounts.set(handle, BigInt(0));
+        } else if (handle) {
+          pending.push(handle);
+        }
+      }
+      if (pending.length === 0) {
+        return amounts;
+      }
+
+      setMessage(`Decrypting ${pending.length} amounts...`);
+
+      try {
+        const sig: FhevmDecryptionSignature | null =
+          await FhevmDecryptionSignature.loadOrSign(
+            instance,
+            [thisShadowLedgerAddress],
+            thisEthersSigner,
+            fhevmDecryptionSignatureStorage,
+            undefined,
+            signatureDurationDays
+          );
+
+        if (!sig) {
+          setMessage("Unable to build FHEVM decryption signature");
+          return;
+        }
+
+        const decryptChunk = async (chunk: string[]): Promise<void> => {
+          if (isStale()) return;
+          try {
+            const res = await instance.userDecrypt(
+              chunk.map((handle) => ({ handle, contractAddress: thisShadowLedgerAddress })),
+              sig.privateKey,
+              sig.publicKey,
+              sig.signature,
+              sig.contractAddresses,
+              sig.userAddress,
+              sig.startTimestamp,
+              sig.durationDays
+            );
+            for (const handle of chunk) {
+              const value = (res as UserDecryptResults)[handle];
+              if (typeof value === "bigint") amounts.set(handle, value);
+            }
+          } catch (error) {
+            if (!isAccessDenied(error)) throw error;
+            if (chunk.length === 1) return;
+            const middle = Math.ceil(chunk.length / 2);
+            await decryptChunk(chunk.slice(0, middle));
+            await decryptChunk(chunk.slice(middle));
+          }
+        };
+
+        setDecryptProgress({ done: 0, total: pending.length });
+        for (let i = 0; i < pending.length; i += DECRYPT_BATCH_SIZE) {
+          await decryptChunk(pending.slice(i, i + DECRYPT_BATCH_SIZE));
+          setDecryptProgress({
+            done: Math.min(i + DECRYPT_BATCH_SIZE, pending.length),
+            total: pending.length,
+          });
+        }
+
+        if (isStale()) {
+          setMessage("Operation cancelled");
+          return;
+        }
+
+        const skipped = pending.filter((handle) => !amounts.has(handle)).length;
+        setMessage(
+          skipped === 0
+            ? `Decrypted ${pending.length} amounts`
+            : `Decrypted ${pending.length - skipped} amounts, ${skipped} without access`
+        );
+        return amounts;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Decryption failed: ${errorMessage}`);
+        return undefined;
+      } finally {
+        setDecryptProgress(undefined);
+      }
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+      fhevmDecryptionSignatureStorage,
+      signatureDurationDays,
+    ]
+  );
+
+  const createDepartment = useCallback(
+    async (name: string, admin: string) => {
+      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Creating department...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx: ethers.TransactionResponse = await contract.createDepartment(
+            name,
+            admin
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          const pending = getPendingAdminConfirmation(receipt, contract.interface);
+          setMessage(
+            pending ? describeAdminConfirmation(pending) : `Department created! Status: ${receipt?.status}`
+          );
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          // Reset loading state before refreshing
+          isLoadingRef.current = false;
+          setIsLoading(false);
+          
+          // Refresh departments list (skip loading check since we just reset it)
+          await refreshDepartments(true);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to create department: ${errorMessage}`);
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  const setBudget = useCallback(
+    async (departmentId: bigint, projectId: bigint, amount: bigint) => {
+      if (isLoadingRef.current || !shadowLedger.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Encrypting budget...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const input = instance.createEncryptedInput(
+            thisShadowLedgerAddress,
+            thisEthersSigner.address
+          );
+          input.add128(Number(amount));
+
+          const enc = await input.encrypt();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          setMessage("Submitting transaction...");
+
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx: ethers.TransactionResponse = await contract.setBudget(
+            departmentId,
+            projectId,
+            enc.handles[0],
+            enc.inputProof
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          setMessage(`Budget set! Status: ${receipt?.status}`);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to set budget: ${errorMessage}`);
+        } finally {
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      await run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  // Re-evaluates the budget against current expenses and grants the fresh
+  // handles to the department admin, or for an auditor to the audit relayer.
+  const evaluateBudget = useCallback(
+    async (departmentId: bigint, projectId: bigint) => {
+      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Evaluating budget...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx: ethers.TransactionResponse = await contract.evaluateBudget(
+            departmentId,
+            projectId
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          setMessage(`Budget evaluated! Status: ${receipt?.status}`);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to evaluate budget: ${errorMessage}`);
+        } finally {
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      await run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  const getBudget = useCallback(
+    async (departmentId: bigint, projectId: bigint): Promise<Budget | undefined> => {
+      if (!shadowLedger.address || !ethersSigner) {
+        return undefined;
+      }
+
+      try {
+        // Budget reads are restricted by msg.sender, so they go through the signer
+        const contract = new ethers.Contract(
+          shadowLedger.address,
+          shadowLedger.abi,
+          ethersSigner
+        );
+
+        const budgetData = await contract.getBudget(departmentId, projectId);
+        return {
+          departmentId,
+          projectId,
+          amountHandle: budgetData[0],
+          spentHandle: budgetData[1],
+          remainingHandle: budgetData[2],
+          overBudgetHandle: budgetData[3],
+          evaluatedAt: BigInt(budgetData[4]),
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Failed to load budget: ${errorMessage}`);
+        return undefined;
+      }
+    },
+    [ethersSigner, shadowLedger.address, shadowLedger.abi]
+  );
+
+  const refreshCategories = useCallback(async () => {
+    const currentShadowLedger = shadowLedgerRef.current;
+    if (!currentShadowLedger?.address || !ethersReadonlyProvider) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisShadowLedgerAddress = currentShadowLedger.address;
+
+    try {
+      const contract = new ethers.Contract(
+        thisShadowLedgerAddress,
+        currentShadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      const categoryCount = await contract.getCategoryCount();
+
+      const categoriesList: Category[] = [];
+      for (let i = BigInt(1); i <= categoryCount; i++) {
+        const categoryData = await contract.getCategory(i);
+        categoriesList.push({
+          id: BigInt(categoryData[0]),
+          name: categoryData[1],
+          parentId: BigInt(categoryData[2]),
+          recordType: Number(categoryData[3]) as RecordType,
+        });
+      }
+
+      if (sameChain.current(thisChainId) && thisShadowLedgerAddress === shadowLedgerRef.current?.address) {
+        setCategories(categoriesList);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setMessage(`Failed to refresh categories: ${errorMessage}`);
+    }
+  }, [ethersReadonlyProvider, chainId, sameChain]);
+
+  const createCategory = useCallback(
+    async (name: string, parentId: bigint, recordType: RecordType) => {
+      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Creating category...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx: ethers.TransactionResponse = await contract.createCategory(
+            name,
+            parentId,
+            recordType
+          );
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          setMessage(`Category created! Status: ${receipt?.status}`);
+
+          await refreshCategories();
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`Failed to create category: ${errorMessage}`);
+        } finally {
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      await run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      chainId,
+      sameChain,
+      sameSigner,
+      refreshCategories,
+    ]
+  );
+
+  const refreshFiscalPeriods = useCallback(async () => {
+    const currentShadowLedger = shadowLedgerRef.current;
+    if (!currentShadowLedger?.address || !ethersReadonlyProvider) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisShadowLedgerAddress = currentShadowLedger.address;
+
+    try {
+      const contract = new ethers.Contract(
+        thisShadowLedgerAddress,
+        currentShadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      const periodCount = await contract.getFiscalPeriodCount();
+
+      const periodsList: FiscalPeriod[] = [];
+      for (let i = BigInt(1); i <= periodCount; i++) {
+        const periodData = await contract.getFiscalPeriod(i);
+        periodsList.push({
+          id: BigInt(periodData[0]),
+          startTimestamp: BigInt(periodData[1]),
+          endTimestamp: BigInt(periodData[2]),
+          closed: periodData[3],
+          closedAt: BigInt(periodData[4]),
+          closeCount: BigInt(periodData[5]),
+          reopenReason: periodData[6],
+        });
+      }
+
+      if (sameChain.current(thisChainId) && thisShadowLedgerAddress === shadowLedgerRef.current?.address) {
+        setFiscalPeriods(periodsList);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setMessage(`Failed to refresh fiscal periods: ${errorMessage}`);
+    }
+  }, [ethersReadonlyProvider, chainId, sameChain]);
+
+  const refreshCalculations = useCallback(async () => {
+    const currentShadowLedger = shadowLedgerRef.current;
+    if (!currentShadowLedger?.address || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisShadowLedgerAddress = currentShadowLedger.address;
+    const thisEthersSigner = ethersSigner;
+
+    try {
+      // History reads are restricted to the requester, so they go through the signer
+      const contract = new ethers.Contract(
+        thisShadowLedgerAddress,
+        currentShadowLedger.abi,
+        thisEthersSigner
+      );
+
+      const requester = await thisEthersSigner.getAddress();
+      const calculationCount = await contract.getCalculationCount(requester);
+      const calculationIds: bigint[] = await contract.listCalculations(requester, 0, calculationCount);
+
+      const calculationsList: SavedCalculation[] = [];
+      for (const calculationId of calculationIds) {
+        const calculationData = await contract.getCalculation(calculationId);
+        calculationsList.push({
+          id: BigInt(calculationId),
+          calculationType: Number(calculationData[0]) as CalculationType,
+          resultHandle: calculationData[1],
+          nonNegativeHandle: calculationData[2],
+          departmentIds: calculationData[3].map((id: bigint) => BigInt(id)),
+          projectId: BigInt(calculationData[4]),
+          categoryId: BigInt(calculationData[5]),
+          fromTimestamp: BigInt(calculationData[6]),
+          toTimestamp: BigInt(calculationData[7]),
+          eliminateTransfers: calculationData[8],
+          requester: calculationData[9],
+          timestamp: BigInt(calculationData[10]),
+        });
+      }
+
+      if (
+        sameChain.current(thisChainId) &&
+        sameSigner.current(thisEthersSigner) &&
+        thisShadowLedgerAddress === shadowLedgerRef.current?.address
+      ) {
+        // Newest first
+        setCalculations(calculationsList.reverse());
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setMessage(`Failed to refresh calculations: ${errorMessage}`);
+    }
+  }, [ethersSigner, chainId, sameChain, sameSigner]);
+
+  // Shared runner for simple registry transactions: send, wait, then reload
+  // whatever list the transaction changed. Resolves to whether it went through.
+  const submitTx = useCallback(
+    async (
+      progressMessage: string,
+      successMessage: string,
+      failureMessage: string,
+      send: (contract: ethers.Contract) => Promise<ethers.TransactionResponse>,
+      refresh: () => Promise<void>
+    ): Promise<boolean> => {
+      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+        return false;
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(progressMessage);
+
+      const run = async () => {
+        const isStale = () =>
+          thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const contract = new ethers.Contract(
+            thisShadowLedgerAddress,
+            shadowLedger.abi,
+            thisEthersSigner
+          );
+
+          const tx = await send(contract);
+
+          setMessage(`Waiting for tx: ${tx.hash}...`);
+
+          const receipt = await tx.wait();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return false;
+          }
+
+          const pending = getPendingAdminConfirmation(receipt, contract.interface);
+          setMessage(
+            pending ? describeAdminConfirmation(pending) : `${successMessage} Status: ${receipt?.status}`
+          );
+
+          await refresh();
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setMessage(`${failureMessage}: ${errorMessage}`);
+          return false;
+        } finally {
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      return run();
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  const openFiscalPeriod = useCallback(
+    async (startTimestamp: bigint, endTimestamp: bigint) =>
+      submitTx(
+        "Opening fiscal period...",
+        "Fiscal period opened!",
+        "Failed to open fiscal period",
+        (contract) => contract.openFiscalPeriod(startTimestamp, endTimestamp),
+        refreshFiscalPeriods
+      ),
+    [submitTx, refreshFiscalPeriods]
+  );
+
+  // Closing also snapshots the totals of every department under a new close number
+  const closeFiscalPeriod = useCallback(
+    async (periodId: bigint) =>
+      submitTx(
+        "Closing fiscal period...",
+        "Fiscal period closed!",
+        "Failed to close fiscal period",
+        (contract) => contract.closeFiscalPeriod(periodId),
+        refreshFiscalPeriods
+      ),
+    [submitTx, refreshFiscalPeriods]
+  );
+
+  const reopenFiscalPeriod = useCallback(
+    async (periodId: bigint, reason: string) =>
+      submitTx(
+        "Reopening fiscal period...",
+        "Fiscal period reopened!",
+        "Failed to reopen fiscal period",
+        (contract) => contract.reopenFiscalPeriod(periodId, reason),
+        refreshFiscalPeriods
+      ),
+    [submitTx, refreshFiscalPeriods]
+  );
+
+  const refreshProjects = useCallback(async () => {
+    const currentShadowLedger = shadowLedgerRef.current;
+    if (!currentShadowLedger?.address || !ethersReadonlyProvider) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisShadowLedgerAddress = currentShadowLedger.address;
+
+    try {
+      const contract = new ethers.Contract(
+        thisShadowLedgerAddress,
+        currentShadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      const projectCount = await contract.getProjectCount();
+
+      const projectsList: Project[] = [];
+      for (let i = BigInt(1); i <= projectCount; i++) {
+        const projectData = await contract.getProject(i);
+        projectsList.push({
+          id: BigInt(projectData[0]),
+          name: projectData[1],
+          departmentId: BigInt(projectData[2]),
+          manager: projectData[3],
+          archived: projectData[4],
+          createdAt: BigInt(projectData[5]),
+        });
+      }
+
+      if (sameChain.current(thisChainId) && thisShadowLedgerAddress === shadowLedgerRef.current?.address) {
+        setProjects(projectsList);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setMessage(`Failed to refresh projects: ${errorMessage}`);
+    }
+  }, [ethersReadonlyProvider, chainId, sameChain]);
+
+  const createProject = useCallback(
+    async (departmentId: bigint, name: string, manager: string) =>
+      submitTx(
+        "Creating project...",
+        "Project created!",
+        "Failed to create project",
+        (contract) => contract.createProject(departmentId, name, manager || ethers.ZeroAddress),
+        refreshProjects
+      ),
+    [submitTx, refreshProjects]
+  );
+
+  const renameProject = useCallback(
+    async (projectId: bigint, name: string) =>
+      submitTx(
+        "Renaming project...",
+        "Project renamed!",
+        "Failed to rename project",
+        (contract) => contract.renameProject(projectId, name),
+        refreshProjects
+      ),
+    [submitTx, refreshProjects]
+  );
+
+  const setProjectManager = useCallback(
+    async (projectId: bigint, manager: string) =>
+      submitTx(
+        "Updating project manager...",
+        "Project manager updated!",
+        "Failed to update project manager",
+        (contract) => contract.setProjectManager(projectId, manager || ethers.ZeroAddress),
+        refreshProjects
+      ),
+    [submitTx, refreshProjects]
+  );
+
+  const archiveProject = useCallback(
+    async (projectId: bigint) =>
+      submitTx(
+        "Archiving project...",
+        "Project archived!",
+        "Failed to archive project",
+        (contract) => contract.archiveProject(projectId),
+        refreshProjects
+      ),
+    [submitTx, refreshProjects]
+  );
+
+  const setApprovalPolicy = useCallback(
+    async (
+      departmentId: bigint,
+      threshold: bigint,
+      approvers: string[],
+      requiredApprovals: bigint
+    ) => {
+      if (isLoadingRef.current || !shadowLedger.address || !instance || !ethersSigner) {
         return;
       }
 
@@ -392,7 +2103,7 @@ export const useShadowLedger = (parameters: {
 
       isLoadingRef.current = true;
       setIsLoading(true);
-      setMessage("Creating department...");
+      setMessage("Encrypting approval threshold...");
 
       const run = async () => {
         const isStale = () =>
@@ -401,54 +2112,472 @@ export const useShadowLedger = (parameters: {
           !sameSigner.current(thisEthersSigner);
 
         try {
+          const input = instance.createEncryptedInput(
+            thisShadowLedgerAddress,
+            thisEthersSigner.address
+          );
+          input.add128(Number(threshold));
+
+          const enc = await input.encrypt();
+
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return;
+          }
+
+          setMessage("Submitting transaction...");
+
           const contract = new ethers.Contract(
             thisShadowLedgerAddress,
             shadowLedger.abi,
             thisEthersSigner
           );
 
-          const tx: ethers.TransactionResponse = await contract.createDepartment(
-            name,
-            admin
+          const tx: ethers.TransactionResponse = await contract.setApprovalPolicy(
+            departmentId,
+            enc.handles[0],
+            enc.inputProof,
+            approvers,
+            requiredApprovals
           );
 
           setMessage(`Waiting for tx: ${tx.hash}...`);
 
           const receipt = await tx.wait();
 
-          setMessage(`Department created! Status: ${receipt?.status}`);
-
           if (isStale()) {
             setMessage("Operation cancelled");
             return;
           }
 
-          // Reset loading state before refreshing
-          isLoadingRef.current = false;
-          setIsLoading(false);
-          
-          // Refresh departments list (skip loading check since we just reset it)
-          await refreshDepartments(true);
+          setMessage(`Approval policy set! Status: ${receipt?.status}`);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
-          setMessage(`Failed to create department: ${errorMessage}`);
+          setMessage(`Failed to set approval policy: ${errorMessage}`);
+        } finally {
           isLoadingRef.current = false;
           setIsLoading(false);
         }
       };
 
-      run();
+      await run();
     },
     [
       ethersSigner,
       shadowLedger.address,
       shadowLedger.abi,
+      instance,
       chainId,
       sameChain,
       sameSigner,
     ]
   );
 
+  const getApprovalPolicy = useCallback(
+    async (departmentId: bigint): Promise<ApprovalPolicy | undefined> => {
+      if (!shadowLedger.address || !ethersSigner) {
+        return undefined;
+      }
+
+      try {
+        // Policy reads are restricted to viewers and finance controllers, so they go through the signer
+        const contract = new ethers.Contract(
+          shadowLedger.address,
+          shadowLedger.abi,
+          ethersSigner
+        );
+
+        const policyData = await contract.getApprovalPolicy(departmentId);
+        return {
+          departmentId,
+          thresholdHandle: policyData[0],
+          requiredApprovals: BigInt(policyData[1]),
+          approvers: [...policyData[2]],
+        };
+      } catch {
+        // Departments without a policy revert; there is nothing to show
+        return undefined;
+      }
+    },
+    [ethersSigner, shadowLedger.address, shadowLedger.abi]
+  );
+
+  const isApprover = useCallback(
+    async (departmentId: bigint, account: string) => {
+      if (!shadowLedger.address || !ethersReadonlyProvider) {
+        return false;
+      }
+
+      const contract = new ethers.Contract(
+        shadowLedger.address,
+        shadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      return Boolean(await contract.isApprover(departmentId, account));
+    },
+    [ethersReadonlyProvider, shadowLedger.address, shadowLedger.abi]
+  );
+
+  // All engagements, or only those of the given auditor
+  const loadAuditEngagements = useCallback(
+    async (auditor?: string): Promise<AuditEngagement[]> => {
+      if (!shadowLedger.address || !ethersReadonlyProvider) {
+        return [];
+      }
+
+      const contract = new ethers.Contract(
+        shadowLedger.address,
+        shadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      let ids: bigint[];
+      if (auditor) {
+        ids = [...(await contract.getAuditorEngagements(auditor))].map(BigInt);
+      } else {
+        const count = Number(await contract.getAuditEngagementCount());
+        ids = Array.from({ length: count }, (_, i) => BigInt(i + 1));
+      }
+
+      // Expiry is checked against chain time, which can run ahead of the clock locally
+      const latestBlock = await ethersReadonlyProvider.provider?.getBlock("latest");
+      const now = BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000));
+      const registered = new Map<string, boolean>();
+
+      const engagements: AuditEngagement[] = [];
+      for (const id of ids) {
+        const data = await contract.getAuditEngagement(id);
+        const key = String(data.auditor).toLowerCase();
+        if (!registered.has(key)) {
+          registered.set(key, Boolean(await contract.isAuditor(data.auditor)));
+        }
+        engagements.push({
+          id,
+          auditor: data.auditor,
+          departmentIds: [...data.departmentIds].map(BigInt),
+          fromTimestamp: BigInt(data.fromTimestamp),
+          toTimestamp: BigInt(data.toTimestamp),
+          expiresAt: BigInt(data.expiresAt),
+          revoked: data.revoked,
+          createdAt: BigInt(data.createdAt),
+          active: registered.get(key)! && !data.revoked && now < BigInt(data.expiresAt),
+        });
+      }
+      return engagements;
+    },
+    [ethersReadonlyProvider, shadowLedger.address, shadowLedger.abi]
+  );
+
+  const getCalculationAccess = useCallback(
+    async (account: string): Promise<CalculationAccess> => {
+      if (!shadowLedger.address || !ethersReadonlyProvider) {
+        return { isAuditor: false, hasRollupAccess: false, auditedDepartmentIds: [] };
+      }
+
+      const contract = new ethers.Contract(
+        shadowLedger.address,
+        shadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      const [isAuditor, hasRollupAccess] = await Promise.all([
+        contract.isAuditor(account),
+        contract.hasRollupAccess(account),
+      ]);
+      const engagements = isAuditor ? await loadAuditEngagements(account) : [];
+      const auditedDepartmentIds = [
+        ...new Set(engagements.filter((e) => e.active).flatMap((e) => e.departmentIds)),
+      ];
+      return { isAuditor: Boolean(isAuditor), hasRollupAccess: Boolean(hasRollupAccess), auditedDepartmentIds };
+    },
+    [ethersReadonlyProvider, shadowLedger.address, shadowLedger.abi, loadAuditEngagements]
+  );
+
+  const createAuditEngagement = useCallback(
+    async (
+      auditor: string,
+      departmentIds: bigint[],
+      fromTimestamp: bigint,
+      toTimestamp: bigint,
+      expiresAt: bigint
+    ) =>
+      submitTx(
+        "Creating audit engagement...",
+        "Audit engagement created!",
+        "Failed to create audit engagement",
+        (contract) => contract.createAuditEngagement(auditor, departmentIds, fromTimestamp, toTimestamp, expiresAt),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  const revokeAuditEngagement = useCallback(
+    async (engagementId: bigint) =>
+      submitTx(
+        "Revoking audit engagement...",
+        "Audit engagement revoked!",
+        "Failed to revoke audit engagement",
+        (contract) => contract.revokeAuditEngagement(engagementId),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  // Grants these records to the audit relayer, which decrypts them for the
+  // auditor while the engagement is live; each must be in the engagement's
+  // departments and window
+  const openAuditRecords = useCallback(
+    async (engagementId: bigint, recordIds: bigint[]) =>
+      submitTx(
+        `Opening ${recordIds.length} record(s)...`,
+        "Records opened for the audit relayer!",
+        "Failed to open records",
+        (contract) => contract.openAuditRecords(engagementId, recordIds),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  // The zero address until the system admin sets one
+  const getAuditRelayer = useCallback(async (): Promise<string> => {
+    if (!shadowLedger.address || !ethersReadonlyProvider) {
+      return ethers.ZeroAddress;
+    }
+
+    const contract = new ethers.Contract(
+      shadowLedger.address,
+      shadowLedger.abi,
+      ethersReadonlyProvider
+    );
+
+    return String(await contract.getAuditRelayer());
+  }, [ethersReadonlyProvider, shadowLedger.address, shadowLedger.abi]);
+
+  const isAuditRecordReadable = useCallback(
+    async (engagementId: bigint, recordId: bigint): Promise<boolean> => {
+      if (!shadowLedger.address || !ethersReadonlyProvider) {
+        return false;
+      }
+
+      const contract = new ethers.Contract(
+        shadowLedger.address,
+        shadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      return Boolean(await contract.isAuditRecordReadable(engagementId, recordId));
+    },
+    [ethersReadonlyProvider, shadowLedger.address, shadowLedger.abi]
+  );
+
+  // Asks the audit relayer for values the account's live engagements cover,
+  // in one signed request. The answer is sealed to a key only this call holds.
+  const relayAuditValues = useCallback(
+    async (items: AuditRelayItem[]): Promise<AuditRelayResult[] | undefined> => {
+      if (!shadowLedger.address || !ethersSigner || !chainId) {
+        return;
+      }
+
+      setMessage(`Asking the audit relayer for ${items.length} value(s)...`);
+
+      try {
+        const keyPair = await crypto.subtle.generateKey(RELAY_ECDH, false, ["deriveBits"]);
+        const publicKey = ethers.hexlify(new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey)));
+        const message = JSON.stringify({
+          contract: shadowLedger.address,
+          chainId,
+          items,
+          publicKey,
+          issuedAt: Math.floor(Date.now() / 1000),
+        });
+        const signature = await ethersSigner.signMessage(message);
+
+        const response = await fetch(AUDIT_RELAYER_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message, signature }),
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error ?? `HTTP ${response.status}`);
+        }
+
+        const results = await openRelayResponse(keyPair.privateKey, body);
+        setMessage("Values received from the audit relayer");
+        return results;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Audit relayer failed: ${errorMessage}`);
+        return undefined;
+      }
+    },
+    [ethersSigner, shadowLedger.address, chainId]
+  );
+
+  const relayAuditValue = useCallback(
+    async (item: AuditRelayItem) => {
+      const [result] = (await relayAuditValues([item])) ?? [];
+      if (result && "error" in result) {
+        setMessage(`The audit relayer refused: ${result.error}`);
+        return undefined;
+      }
+      return result?.values;
+    },
+    [relayAuditValues]
+  );
+
+  // A calculation's result through the audit relayer, negative for a net loss
+  const relayCalculation = useCallback(
+    async (calculationId: bigint): Promise<bigint | undefined> => {
+      const values = await relayAuditValue({ kind: "calculation", calculationId: calculationId.toString() });
+      if (!values) {
+        return undefined;
+      }
+
+      const magnitude = BigInt(values.result);
+      return values.nonNegative === "false" ? -magnitude : magnitude;
+    },
+    [relayAuditValue]
+  );
+
+  // A budget as of its last evaluation, through the audit relayer
+  const relayBudget = useCallback(
+    async (departmentId: bigint, projectId: bigint) => {
+      const values = await relayAuditValue({
+        kind: "budget",
+        departmentId: departmentId.toString(),
+        projectId: projectId.toString(),
+      });
+      if (!values) {
+        return undefined;
+      }
+
+      return {
+        amount: BigInt(values.amount),
+        spent: BigInt(values.spent),
+        remaining: BigInt(values.remaining),
+        overBudget: values.overBudget === "true",
+      };
+    },
+    [relayAuditValue]
+  );
+
+  const setAuditRelayer = useCallback(
+    async (relayer: string) =>
+      submitTx(
+        "Setting audit relayer...",
+        "Audit relayer set!",
+        "Failed to set audit relayer",
+        (contract) => contract.setAuditRelayer(relayer),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  const grantRollupAccess = useCallback(
+    async (account: string) =>
+      submitTx(
+        "Granting rollup access...",
+        "Rollup access granted!",
+        "Failed to grant rollup access",
+        (contract) => contract.grantRollupAccess(account),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  const revokeRollupAccess = useCallback(
+    async (account: string) =>
+      submitTx(
+        "Revoking rollup access...",
+        "Rollup access revoked!",
+        "Failed to revoke rollup access",
+        (contract) => contract.revokeRollupAccess(account),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  const approveRecord = useCallback(
+    async (recordId: bigint) =>
+      submitTx(
+        "Approving record...",
+        "Approval recorded!",
+        "Failed to approve record",
+        (contract) => contract.approveRecord(recordId),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  // For an expense left pending after booking, e.g. when its settlement failed
+  const settleApproval = useCallback(
+    async (recordId: bigint) => {
+      if (!instance) {
+        return;
+      }
+
+      return submitTx(
+        "Checking the approval threshold...",
+        "Record settled!",
+        "Failed to settle record",
+        async (contract) => {
+          const tx = await sendSettlement(instance, contract, recordId);
+          if (!tx) {
+            throw new Error("the expense is above the approval threshold and needs review");
+          }
+          return tx;
+        },
+        async () => {}
+      );
+    },
+    [submitTx, instance]
+  );
+
+  const rejectRecord = useCallback(
+    async (recordId: bigint, reason: string) =>
+      submitTx(
+        "Rejecting record...",
+        "Record rejected!",
+        "Failed to reject record",
+        (contract) => contract.rejectRecord(recordId, reason),
+        async () => {}
+      ),
+    [submitTx]
+  );
+
+  const getPeriodSnapshot = useCallback(
+    async (periodId: bigint, closeNumber: bigint, departmentId: bigint): Promise<PeriodSnapshot | undefined> => {
+      if (!shadowLedger.address || !ethersSigner) {
+        return undefined;
+      }
+
+      try {
+        // Snapshot reads are restricted by msg.sender, so they go through the signer
+        const contract = new ethers.Contract(
+          shadowLedger.address,
+          shadowLedger.abi,
+          ethersSigner
+        );
+
+        const snapshotData = await contract.getPeriodSnapshot(periodId, closeNumber, departmentId);
+        return {
+          periodId,
+          closeNumber,
+          departmentId,
+          incomeHandle: snapshotData[0],
+          expenseHandle: snapshotData[1],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Failed to load period snapshot: ${errorMessage}`);
+        return undefined;
+      }
+    },
+    [ethersSigner, shadowLedger.address, shadowLedger.abi]
+  );
+
   const refreshDepartments = useCallback(async (skipLoadingCheck = false) => {
     const currentAddress = shadowLedgerRef.current?.address;
     if (!currentAddress || !ethersReadonlyProvider) {
@@ -476,11 +2605,7 @@ export const useShadowLedger = (parameters: {
     const thisAbi = currentShadowLedger.abi;
 
     isLoadingDepartmentsRef.current = true;
-    // Update global loading state if not already loading
-    if (!isLoadingRecordsRef.current) {
-      isLoadingRef.current = true;
-      setIsLoading(true);
-    }
+    setIsLoadingDepartments(true);
 
     try {
       const contract = new ethers.Contract(
@@ -495,12 +2620,23 @@ export const useShadowLedger = (parameters: {
       for (let i = BigInt(1); i <= departmentCount; i++) {
         try {
           const deptData = await contract.getDepartment(i);
+          const pendingAdmin = await contract.getPendingDepartmentAdmin(i);
+          const holders: string[] = await contract.getRoleHolders(i);
+          const roleHolders = await Promise.all(
+            holders.map(async (account) => ({
+              account,
+              roles: Number(await contract.getDepartmentRoles(i, account)),
+            }))
+          );
           departmentsList.push({
             id: BigInt(i),
             name: deptData[1],
             members: deptData[2],
             admin: deptData[3],
             createdAt: BigInt(deptData[4]),
+            archived: deptData[5],
+            pendingAdmin,
+            roleHolders,
           });
         } catch {
           // Skip departments we can't access
@@ -515,14 +2651,360 @@ export const useShadowLedger = (parameters: {
       setMessage(`Failed to refresh departments: ${errorMessage}`);
     } finally {
       isLoadingDepartmentsRef.current = false;
-      // Update global loading state only if records are also not loading
-      if (!isLoadingRecordsRef.current) {
+      setIsLoadingDepartments(false);
+    }
+  }, [ethersReadonlyProvider, chainId, sameChain]);
+
+  // Adds or removes members one transaction at a time, stopping if the chain
+  // or signer changes, then reloads the departments once
+  const changeDepartmentMembers = useCallback(
+    async (
+      action: "add" | "remove",
+      departmentId: bigint,
+      members: string[]
+    ): Promise<MemberChangeResult[]> => {
+      if (isLoadingRef.current || !shadowLedger.address || !ethersSigner) {
+        return [];
+      }
+
+      const thisChainId = chainId;
+      const thisShadowLedgerAddress = shadowLedger.address;
+      const thisEthersSigner = ethersSigner;
+
+      const isStale = () =>
+        thisShadowLedgerAddress !== shadowLedgerRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisEthersSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+
+      const contract = new ethers.Contract(
+        thisShadowLedgerAddress,
+        shadowLedger.abi,
+        thisEthersSigner
+      );
+      const results: MemberChangeResult[] = [];
+
+      try {
+        for (const [i, member] of members.entries()) {
+          if (isStale()) {
+            setMessage("Operation cancelled");
+            return results;
+          }
+
+          setMessage(
+            `${action === "add" ? "Adding" : "Removing"} member ${i + 1} of ${members.length}...`
+          );
+          try {
+            const tx: ethers.TransactionResponse =
+              action === "add"
+                ? await contract.addDepartmentMember(departmentId, member)
+                : await contract.removeDepartmentMember(departmentId, member);
+            setMessage(`Waiting for tx: ${tx.hash}...`);
+            await tx.wait();
+            results.push({ member, ok: true });
+          } catch (error) {
+            results.push({ member, ok: false, error: describeMemberError(error) });
+          }
+        }
+
+        if (isStale()) {
+          setMessage("Operation cancelled");
+          return results;
+        }
+
+        const done = results.filter((result) => result.ok).length;
+        setMessage(
+          members.length === 1 && done === 0
+            ? `Failed to ${action} member: ${results[0].error}`
+            : `${action === "add" ? "Added" : "Removed"} ${done} of ${members.length} members`
+        );
+
+        isLoadingRef.current = false;
+        setIsLoading(false);
+        await refreshDepartments(true);
+        return results;
+      } finally {
         isLoadingRef.current = false;
         setIsLoading(false);
       }
+    },
+    [
+      ethersSigner,
+      shadowLedger.address,
+      shadowLedger.abi,
+      chainId,
+      sameChain,
+      sameSigner,
+      refreshDepartments,
+    ]
+  );
+
+  const addDepartmentMembers = useCallback(
+    async (departmentId: bigint, members: string[]) =>
+      changeDepartmentMembers("add", departmentId, members),
+    [changeDepartmentMembers]
+  );
+
+  const addDepartmentMember = useCallback(
+    async (departmentId: bigint, member: string) =>
+      (await changeDepartmentMembers("add", departmentId, [member]))[0],
+    [changeDepartmentMembers]
+  );
+
+  const removeDepartmentMember = useCallback(
+    async (departmentId: bigint, member: string) =>
+      (await changeDepartmentMembers("remove", departmentId, [member]))[0],
+    [changeDepartmentMembers]
+  );
+
+  const renameDepartment = useCallback(
+    async (departmentId: bigint, name: string) =>
+      submitTx(
+        "Renaming department...",
+        "Department renamed!",
+        "Failed to rename department",
+        (contract) => contract.renameDepartment(departmentId, name),
+        () => refreshDepartments(true)
+      ),
+    [submitTx, refreshDepartments]
+  );
+
+  const archiveDepartment = useCallback(
+    async (departmentId: bigint) =>
+      submitTx(
+        "Archiving department...",
+        "Department archived!",
+        "Failed to archive department",
+        (contract) => contract.archiveDepartment(departmentId),
+        () => refreshDepartments(true)
+      ),
+    [submitTx, refreshDepartments]
+  );
+
+  // Replaces the account's roles; 0 puts a member back on the default roles
+  const setDepartmentRoles = useCallback(
+    async (departmentId: bigint, account: string, roles: number) =>
+      submitTx(
+        "Updating roles...",
+        "Roles updated!",
+        "Failed to update roles",
+        (contract) => contract.setDepartmentRoles(departmentId, account, roles),
+        () => refreshDepartments(true)
+      ),
+    [submitTx, refreshDepartments]
+  );
+
+  // Nominates the next admin; passing an empty address withdraws the nomination
+  const transferDepartmentAdmin = useCallback(
+    async (departmentId: bigint, newAdmin: string) =>
+      submitTx(
+        newAdmin ? "Nominating new department admin..." : "Cancelling admin handover...",
+        newAdmin ? "New admin nominated!" : "Admin handover cancelled!",
+        "Failed to update admin handover",
+        (contract) => contract.transferDepartmentAdmin(departmentId, newAdmin || ethers.ZeroAddress),
+        () => refreshDepartments(true)
+      ),
+    [submitTx, refreshDepartments]
+  );
+
+  // Takes over the record handles a department admin is granted, a page of
+  // the department's records per transaction
+  const grantDepartmentRecords = useCallback(
+    async (departmentId: bigint) => {
+      if (!shadowLedger.address || !ethersSigner) {
+        return;
+      }
+
+      try {
+        const contract = new ethers.Contract(shadowLedger.address, shadowLedger.abi, ethersSigner);
+        const total = BigInt(await contract.getDepartmentRecordCount(departmentId));
+        const pageSize = BigInt(RECORD_BATCH_SIZE);
+        for (let offset = BigInt(0); offset < total; offset += pageSize) {
+          const last = offset + pageSize < total ? offset + pageSize : total;
+          const granted = await submitTx(
+            `Granting record access ${offset + BigInt(1)}-${last} of ${total}...`,
+            "Record access granted!",
+            "Failed to grant record access",
+            (signed) => signed.grantDepartmentRecords(departmentId, offset, pageSize),
+            async () => {}
+          );
+          if (!granted) {
+            return;
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Failed to grant record access: ${errorMessage}`);
+      }
+    },
+    [submitTx, ethersSigner, shadowLedger.address, shadowLedger.abi]
+  );
+
+  // Budgets and the approval threshold come with the role; record handles
+  // are granted right after
+  const acceptDepartmentAdmin = useCallback(
+    async (departmentId: bigint) => {
+      const accepted = await submitTx(
+        "Accepting department admin role...",
+        "You are now the department admin!",
+        "Failed to accept admin role",
+        (contract) => contract.acceptDepartmentAdmin(departmentId),
+        () => refreshDepartments(true)
+      );
+      if (accepted) {
+        await grantDepartmentRecords(departmentId);
+      }
+    },
+    [submitTx, refreshDepartments, grantDepartmentRecords]
+  );
+
+  // System admin fallback for when the current admin has lost their key
+  const overrideDepartmentAdmin = useCallback(
+    async (departmentId: bigint, newAdmin: string) =>
+      submitTx(
+        "Replacing department admin...",
+        "Department admin replaced!",
+        "Failed to replace department admin",
+        (contract) => contract.overrideDepartmentAdmin(departmentId, newAdmin),
+        () => refreshDepartments(true)
+      ),
+    [submitTx, refreshDepartments]
+  );
+
+  const refreshGovernance = useCallback(async () => {
+    const currentShadowLedger = shadowLedgerRef.current;
+    if (!currentShadowLedger?.address || !ethersReadonlyProvider) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisShadowLedgerAddress = currentShadowLedger.address;
+
+    try {
+      const contract = new ethers.Contract(
+        thisShadowLedgerAddress,
+        currentShadowLedger.abi,
+        ethersReadonlyProvider
+      );
+
+      const [systemAdmin, pendingSystemAdmin, governanceData, actionCount] = await Promise.all([
+        contract.getSystemAdmin(),
+        contract.getPendingSystemAdmin(),
+        contract.getGovernance(),
+        contract.getAdminActionCount(),
+      ]);
+      const admins: string[] = [...governanceData[0]];
+      const epoch = BigInt(governanceData[2]);
+
+      const actionsList: AdminAction[] = [];
+      for (let i = BigInt(1); i <= actionCount; i++) {
+        const actionData = await contract.getAdminAction(i);
+        const lapsed = !actionData.executed && BigInt(actionData.epoch) !== epoch;
+        const call = contract.interface.parseTransaction({ data: actionData.data });
+        // Who confirmed only matters while the action is still open
+        const confirmedBy =
+          actionData.executed || lapsed
+            ? []
+            : (
+                await Promise.all(
+                  admins.map(async (admin) =>
+                    (await contract.hasConfirmedAdminAction(i, admin)) ? admin : undefined
+                  )
+                )
+              ).filter((admin): admin is string => admin !== undefined);
+        actionsList.push({
+          id: i,
+          data: actionData.data,
+          call: call ? `${call.name}(${call.args.map(String).join(", ")})` : actionData.data,
+          proposer: actionData.proposer,
+          confirmations: BigInt(actionData.confirmations),
+          confirmedBy,
+          epoch: BigInt(actionData.epoch),
+          createdAt: BigInt(actionData.createdAt),
+          executed: actionData.executed,
+          lapsed,
+        });
+      }
+
+      if (sameChain.current(thisChainId) && thisShadowLedgerAddress === shadowLedgerRef.current?.address) {
+        setGovernance({
+          systemAdmin,
+          pendingSystemAdmin,
+          admins,
+          threshold: BigInt(governanceData[1]),
+          epoch,
+        });
+        // Newest first
+        setAdminActions(actionsList.reverse());
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setMessage(`Failed to refresh governance: ${errorMessage}`);
     }
   }, [ethersReadonlyProvider, chainId, sameChain]);
 
+  // Nominates the next system admin; passing an empty address withdraws the nomination
+  const transferSystemAdmin = useCallback(
+    async (newAdmin: string) =>
+      submitTx(
+        newAdmin ? "Nominating new system admin..." : "Cancelling system admin handover...",
+        newAdmin ? "New system admin nominated!" : "System admin handover cancelled!",
+        "Failed to update system admin handover",
+        (contract) => contract.transferSystemAdmin(newAdmin || ethers.ZeroAddress),
+        refreshGovernance
+      ),
+    [submitTx, refreshGovernance]
+  );
+
+  const acceptSystemAdmin = useCallback(
+    async () =>
+      submitTx(
+        "Accepting system admin role...",
+        "You are now the system admin!",
+        "Failed to accept system admin role",
+        (contract) => contract.acceptSystemAdmin(),
+        refreshGovernance
+      ),
+    [submitTx, refreshGovernance]
+  );
+
+  // An empty admin list with threshold 0 turns multi-admin mode off
+  const updateGovernance = useCallback(
+    async (admins: string[], threshold: bigint) =>
+      submitTx(
+        "Updating governance...",
+        "Governance updated!",
+        "Failed to update governance",
+        (contract) => contract.setGovernance(admins, threshold),
+        refreshGovernance
+      ),
+    [submitTx, refreshGovernance]
+  );
+
+  // A confirmation is the identical call, so the stored calldata is sent again
+  const confirmAdminAction = useCallback(
+    async (actionId: bigint) =>
+      submitTx(
+        "Confirming admin action...",
+        "Admin action executed!",
+        "Failed to confirm admin action",
+        async (contract) => {
+          const action = await contract.getAdminAction(actionId);
+          return (contract.runner as ethers.Signer).sendTransaction({
+            to: await contract.getAddress(),
+            data: action.data,
+          });
+        },
+        async () => {
+          await refreshGovernance();
+          await refreshDepartments(true);
+        }
+      ),
+    [submitTx, refreshGovernance, refreshDepartments]
+  );
+
   useEffect(() => {
     isLoadingRef.current = isLoading;
   }, [isLoading]);
@@ -533,7 +3015,6 @@ export const useShadowLedger = (parameters: {
   // Initialize refs on mount
   useEffect(() => {
     isLoadingRef.current = false;
-    isLoadingRecordsRef.current = false;
     isLoadingDepartmentsRef.current = false;
     hasLoadedRef.current = undefined;
     lastChainIdRef.current = undefined;
@@ -557,16 +3038,17 @@ export const useShadowLedger = (parameters: {
     
     // Check if we should load (canInteract is true, not currently loading, and haven't loaded this address yet)
     const shouldLoad = canInteract && 
-                       !isLoadingRecordsRef.current && 
                        !isLoadingDepartmentsRef.current &&
                        hasLoadedRef.current !== currentAddress;
     
     if (shouldLoad) {
       console.log('[useShadowLedger] Auto-loading data for address:', currentAddress, 'chainId:', currentChainId);
       hasLoadedRef.current = currentAddress;
-      // Call both in parallel, skip loading check for initial load
-      refreshRecords(true);
+      // Records are loaded a page at a time by the pages that show them
       refreshDepartments(true);
+      refreshCategories();
+      refreshProjects();
+      refreshGovernance();
     } else {
       console.log('[useShadowLedger] Not loading:', {
         canInteract,
@@ -586,17 +3068,83 @@ export const useShadowLedger = (parameters: {
 
   return {
     contractAddress: shadowLedger.address,
+    chainName: shadowLedger.chainName,
     isDeployed,
     canInteract,
     isLoading,
+    isLoadingDepartments,
     message,
-    records,
     departments,
     createRecord,
-    refreshRecords,
+    createRecordsBatch,
+    transfer,
+    amendRecord,
+    reverseRecord,
+    loadRecordPage,
+    recordsProgress,
+    batchProgress,
     decryptAmount,
+    decryptFlag,
+    decryptAmounts,
+    decryptProgress,
     createDepartment,
     refreshDepartments,
+    addDepartmentMember,
+    addDepartmentMembers,
+    removeDepartmentMember,
+    renameDepartment,
+    archiveDepartment,
+    transferDepartmentAdmin,
+    acceptDepartmentAdmin,
+    grantDepartmentRecords,
+    overrideDepartmentAdmin,
+    setDepartmentRoles,
+    categories,
+    refreshCategories,
+    createCategory,
+    projects,
+    refreshProjects,
+    createProject,
+    renameProject,
+    setProjectManager,
+    archiveProject,
+    setBudget,
+    evaluateBudget,
+    getBudget,
+    fiscalPeriods,
+    refreshFiscalPeriods,
+    openFiscalPeriod,
+    closeFiscalPeriod,
+    reopenFiscalPeriod,
+    getPeriodSnapshot,
+    setApprovalPolicy,
+    getApprovalPolicy,
+    isApprover,
+    approveRecord,
+    settleApproval,
+    rejectRecord,
+    getCalculationAccess,
+    loadAuditEngagements,
+    createAuditEngagement,
+    revokeAuditEngagement,
+    openAuditRecords,
+    isAuditRecordReadable,
+    relayAuditValues,
+    relayCalculation,
+    relayBudget,
+    getAuditRelayer,
+    setAuditRelayer,
+    grantRollupAccess,
+    revokeRollupAccess,
+    calculations,
+    refreshCalculations,
+    governance,
+    adminActions,
+    refreshGovernance,
+    transferSystemAdmin,
+    acceptSystemAdmin,
+    updateGovernance,
+    confirmAdminAction,
   };
 };
 
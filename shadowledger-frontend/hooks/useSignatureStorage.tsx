@@ -0,0 +1,134 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { GenericStringLocalStorage, GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+
+const SIGNATURE_KEY_PREFIX = "shadowledger.fhevm.signature.";
+const DURATION_KEY = "shadowledger.fhevm.signatureDurationDays";
+const DEFAULT_DURATION_DAYS = 7;
+
+// A decryption signature kept in the browser, as listed in the settings panel
+export type StoredSignature = {
+  key: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+  expiresAt: number; // unix seconds
+  valid: boolean;
+};
+
+interface UseSignatureStorageState {
+  storage: GenericStringStorage;
+  durationDays: number;
+  setDurationDays: (durationDays: number) => void;
+  signatures: StoredSignature[];
+  refreshSignatures: () => void;
+  revokeSignature: (key: string) => void;
+  revokeAllSignatures: () => void;
+}
+
+interface SignatureStorageProviderProps {
+  children: ReactNode;
+}
+
+const SignatureStorageContext = createContext<
+  UseSignatureStorageState | undefined
+>(undefined);
+
+export const useSignatureStorage = () => {
+  const context = useContext(SignatureStorageContext);
+  if (!context) {
+    throw new Error(
+      "useSignatureStorage must be used within a SignatureStorageProvider"
+    );
+  }
+  return context;
+};
+
+const readDurationDays = () => {
+  const stored = Number(window.localStorage.getItem(DURATION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_DURATION_DAYS;
+};
+
+const readSignatures = (storage: GenericStringLocalStorage): StoredSignature[] => {
+  const now = Math.floor(Date.now() / 1000);
+  const signatures: StoredSignature[] = [];
+  for (const key of storage.keys()) {
+    try {
+      const sig = FhevmDecryptionSignature.fromJSON(storage.getItem(key));
+      const expiresAt = sig.startTimestamp + sig.durationDays * 24 * 60 * 60;
+      signatures.push({
+        key,
+        userAddress: sig.userAddress,
+        contractAddresses: sig.contractAddresses,
+        startTimestamp: sig.startTimestamp,
+        durationDays: sig.durationDays,
+        expiresAt,
+        valid: now < expiresAt,
+      });
+    } catch {
+      // Not a signature we can read; leave it alone
+    }
+  }
+  return signatures.sort((a, b) => b.startTimestamp - a.startTimestamp);
+};
+
+// Decryption signatures are kept in localStorage and reused until they
+// expire, so a reload does not mean signing again
+export const SignatureStorageProvider: React.FC<
+  SignatureStorageProviderProps
+> = ({ children }) => {
+  const [storage] = useState(
+    () => new GenericStringLocalStorage(SIGNATURE_KEY_PREFIX)
+  );
+  const [durationDays, setDurationDaysState] = useState<number>(DEFAULT_DURATION_DAYS);
+  const [signatures, setSignatures] = useState<StoredSignature[]>([]);
+
+  // localStorage is only read after mount so the first render matches the
+  // prerendered page
+  useEffect(() => {
+    setDurationDaysState(readDurationDays());
+  }, []);
+
+  const refreshSignatures = useCallback(() => {
+    setSignatures(readSignatures(storage));
+  }, [storage]);
+
+  const setDurationDays = useCallback((value: number) => {
+    window.localStorage.setItem(DURATION_KEY, String(value));
+    setDurationDaysState(value);
+  }, []);
+
+  // Removing the stored copy drops its private key from this browser; the
+  // signature itself stays valid until it expires
+  const revokeSignature = useCallback(
+    (key: string) => {
+      storage.removeItem(key);
+      refreshSignatures();
+    },
+    [storage, refreshSignatures]
+  );
+
+  const revokeAllSignatures = useCallback(() => {
+    for (const key of storage.keys()) {
+      storage.removeItem(key);
+    }
+    refreshSignatures();
+  }, [storage, refreshSignatures]);
+
+  return (
+    <SignatureStorageContext.Provider
+      value={{
+        storage,
+        durationDays,
+        setDurationDays,
+        signatures,
+        refreshSignatures,
+        revokeSignature,
+        revokeAllSignatures,
+      }}
+    >
+      {children}
+    </SignatureStorageContext.Provider>
+  );
+};